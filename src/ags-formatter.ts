@@ -0,0 +1,143 @@
+import { formatLine, parseFields } from "./ags-tokenizer";
+
+const ROW_DESCRIPTORS = ["GROUP", "HEADING", "UNIT", "TYPE", "DATA"];
+
+// Groups that lead the file in this order when groups are sorted; the rest follow in dictionary order
+const LEADING_GROUPS = ["PROJ", "TRAN", "UNIT", "TYPE", "ABBR", "DICT", "FILE", "LOCA"];
+
+/**
+ * A GROUP row and the rows that follow it, as normalised lines
+ */
+interface GroupBlock {
+  name: string;
+  lines: string[];
+}
+
+/**
+ * Dictionary orders to sort into; headings and groups keep their order when left out
+ */
+export interface FormatOrder {
+  /** Heading codes of a group in dictionary order */
+  headings?: (groupName: string) => string[];
+  /** Group names in dictionary order */
+  groups?: string[];
+}
+
+/**
+ * Normalise AGS rows to the layout the standard expects: every field quoted, no
+ * whitespace around separators and a single blank line between groups. Returns
+ * the formatted lines, without line endings.
+ */
+export function formatRows(lines: string[], order: FormatOrder = {}): string[] {
+  const rows = lines.map((line) => line.trim()).filter((line) => line).map(normalizeRow);
+  const { preamble, blocks } = splitGroups(rows);
+
+  if (order.headings) {
+    for (const block of blocks) {
+      sortHeadings(block, order.headings(block.name));
+    }
+  }
+
+  if (order.groups) {
+    sortGroups(blocks, order.groups);
+  }
+
+  return layout(preamble, blocks);
+}
+
+/**
+ * Quote every field and drop whitespace around separators; lines that are not AGS rows are left as they are
+ */
+function normalizeRow(text: string): string {
+  const fields = parseFields(text);
+  const descriptor = (fields[0] ?? "").toUpperCase();
+  if (!ROW_DESCRIPTORS.includes(descriptor)) return text;
+  return formatLine([descriptor, ...fields.slice(1)]);
+}
+
+/**
+ * Split normalised lines into the lines before the first GROUP row and one block per group
+ */
+function splitGroups(lines: string[]): { preamble: string[]; blocks: GroupBlock[] } {
+  const preamble: string[] = [];
+  const blocks: GroupBlock[] = [];
+
+  for (const line of lines) {
+    const fields = parseFields(line);
+    if (fields[0] === "GROUP") {
+      blocks.push({ name: fields[1] ?? "", lines: [line] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  return { preamble, blocks };
+}
+
+/**
+ * Lay out groups with a single blank line between them
+ */
+function layout(preamble: string[], blocks: GroupBlock[]): string[] {
+  const lines = [...preamble];
+  for (const block of blocks) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+    lines.push(...block.lines);
+  }
+  return lines;
+}
+
+/**
+ * Reorder a group's columns into dictionary order, keeping headings not in the dictionary
+ * after them in their original order. Groups whose rows do not line up with the HEADING
+ * row are left alone, as moving their fields would scramble the data.
+ */
+function sortHeadings(block: GroupBlock, dictionaryOrder: string[]): void {
+  const rows = block.lines.map(parseFields);
+  const headingRow = rows.find((row) => row[0] === "HEADING");
+  if (!headingRow || dictionaryOrder.length === 0) return;
+
+  const width = headingRow.length;
+  if (rows.some((row) => row[0] !== "GROUP" && (row.length !== width || !ROW_DESCRIPTORS.includes(row[0])))) {
+    return;
+  }
+
+  const rank = (heading: string) => {
+    const index = dictionaryOrder.indexOf(heading);
+    return index < 0 ? dictionaryOrder.length : index;
+  };
+
+  const order = headingRow
+    .slice(1)
+    .map((heading, index) => ({ index: index + 1, rank: rank(heading) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((column) => column.index);
+
+  block.lines = rows.map((row, i) =>
+    row[0] === "GROUP" ? block.lines[i] : formatLine([row[0], ...order.map((index) => row[index])])
+  );
+}
+
+/**
+ * Sort groups into the canonical order: PROJ, TRAN, UNIT, TYPE, ABBR, DICT, FILE, LOCA, then the
+ * dictionary's order, with groups not in the dictionary last. Repeated groups keep their relative order.
+ */
+function sortGroups(blocks: GroupBlock[], dictionaryOrder: string[]): void {
+  const ranks = new Map<string, number>();
+  for (const name of [...LEADING_GROUPS, ...dictionaryOrder]) {
+    if (!ranks.has(name)) {
+      ranks.set(name, ranks.size);
+    }
+  }
+
+  const rank = (name: string) => ranks.get(name) ?? ranks.size;
+  const sorted = blocks
+    .map((block, index) => ({ block, index }))
+    .sort((a, b) => rank(a.block.name) - rank(b.block.name) || a.index - b.index)
+    .map((entry) => entry.block);
+
+  blocks.splice(0, blocks.length, ...sorted);
+}
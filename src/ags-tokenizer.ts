@@ -0,0 +1,130 @@
+/**
+ * A single comma separated field in an AGS line
+ */
+export interface AGSField {
+  /** Field value with surrounding quotes removed and doubled quotes unescaped */
+  value: string;
+  /** Start of the raw field, including any opening quote */
+  start: number;
+  /** End of the raw field (exclusive), including any closing quote */
+  end: number;
+  /** Start of the field content, after the opening quote */
+  contentStart: number;
+  /** End of the field content (exclusive), before the closing quote */
+  contentEnd: number;
+  quoted: boolean;
+}
+
+/**
+ * Split an AGS line into fields with their character offsets.
+ *
+ * Fields are comma separated and enclosed in double quotes; a quote inside a
+ * value is written as two quotes (`"6"" casing"`), and commas inside quotes
+ * belong to the value.
+ */
+export function tokenizeLine(line: string): AGSField[] {
+  const fields: AGSField[] = [];
+  if (!line) return fields;
+
+  let i = 0;
+
+  while (i <= line.length) {
+    const start = i;
+
+    // Tolerate stray whitespace before the opening quote
+    let j = i;
+    while (j < line.length && (line[j] === " " || line[j] === "\t")) {
+      j++;
+    }
+
+    if (line[j] === '"') {
+      const contentStart = j + 1;
+      let value = "";
+      let k = contentStart;
+      let contentEnd = line.length;
+
+      while (k < line.length) {
+        if (line[k] === '"') {
+          if (line[k + 1] === '"') {
+            value += '"';
+            k += 2;
+            continue;
+          }
+          contentEnd = k;
+          k++;
+          break;
+        }
+        value += line[k];
+        k++;
+      }
+
+      // Anything between the closing quote and the next separator belongs to this field
+      let end = k;
+      while (end < line.length && line[end] !== ",") {
+        end++;
+      }
+
+      fields.push({ value, start, end, contentStart, contentEnd, quoted: true });
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < line.length && line[end] !== ",") {
+        end++;
+      }
+      fields.push({
+        value: line.substring(i, end).trim(),
+        start,
+        end,
+        contentStart: start,
+        contentEnd: end,
+        quoted: false,
+      });
+      i = end + 1;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Get the unescaped field values of a line
+ */
+export function parseFields(line: string): string[] {
+  return tokenizeLine(line).map((field) => field.value);
+}
+
+/**
+ * Get the index of the field at a character position (0 = row descriptor)
+ */
+export function getFieldIndexAtPosition(fields: AGSField[], charPosition: number): number {
+  let index = 0;
+  for (let i = 0; i < fields.length; i++) {
+    if (fields[i].start <= charPosition) {
+      index = i;
+    } else {
+      break;
+    }
+  }
+  return index;
+}
+
+/**
+ * Quote a value for writing to an AGS file, doubling any embedded quotes
+ */
+export function quoteField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * AGS fields cannot span lines, so line breaks in a value become spaces
+ */
+export function toFieldValue(value: string | undefined): string {
+  return (value ?? "").replace(/\r\n|\r|\n/g, " ");
+}
+
+/**
+ * Build an AGS line from its field values, starting with the row descriptor
+ */
+export function formatLine(values: string[]): string {
+  return values.map(quoteField).join(",");
+}
@@ -0,0 +1,133 @@
+import { formatValue } from "./type-formats";
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+// Text ending in a whole number, e.g. S12 or BH-007
+const NUMBERED_TEXT_PATTERN = /^(.*?)(\d+)$/;
+
+export type FillMode = "copy" | "series";
+
+/**
+ * Number of decimal places written in a numeric value
+ */
+function countDecimals(value: string): number {
+  const point = value.indexOf(".");
+  return point < 0 ? 0 : value.length - point - 1;
+}
+
+/**
+ * Zero padding width of a whole number written with leading zeros, e.g. 3 for 007 or -007;
+ * 0 when it has none
+ */
+function getPaddedWidth(digits: string): number {
+  const match = digits.match(/^[+-]?(0\d+)$/);
+  return match ? match[1].length : 0;
+}
+
+/**
+ * Write a whole number padded with zeros to a width, sign first (-01, not 0-1)
+ */
+function padNumber(value: number, width: number): string {
+  const padded = String(Math.abs(value)).padStart(width, "0");
+  return value < 0 ? `-${padded}` : padded;
+}
+
+/**
+ * Write a number to the column's precision type, or else to a number of decimal places
+ */
+function formatNumber(value: number, type: string, decimals: number): string {
+  return formatValue(type, String(value)) ?? value.toFixed(decimals);
+}
+
+/**
+ * Values for a column of filled cells. `repeated` is set when the column's precision
+ * rounds different numbers of a series to the same text, e.g. 9, 10, 11 under 1SF.
+ */
+export interface FillResult {
+  values: string[];
+  repeated: boolean;
+}
+
+/**
+ * Values for a column of cells filled from the first cell (copy), or continuing the
+ * series started by the first one or two cells (series). Series work on numbers
+ * and on text ending in a number (S1, S2, ...); anything else is copied. Numeric
+ * series are written to the column's precision, including their first cells.
+ */
+export function fillValues(seeds: string[], count: number, mode: FillMode, type: string): FillResult {
+  const first = seeds[0] ?? "";
+  if (mode === "copy") {
+    return { values: new Array(count).fill(first), repeated: false };
+  }
+
+  const trimmed = first.trim();
+  const second = seeds[1]?.trim();
+
+  if (NUMBER_PATTERN.test(trimmed)) {
+    const start = Number(trimmed);
+    const secondNumber = second !== undefined && NUMBER_PATTERN.test(second) ? second : undefined;
+    const step = secondNumber !== undefined ? Number(secondNumber) - start : 1;
+    const decimals = Math.max(countDecimals(trimmed), secondNumber !== undefined ? countDecimals(secondNumber) : 0);
+    // Each value is computed from the unrounded start and step, so rounding does not accumulate
+    const values = Array.from({ length: count }, (_, i) => formatNumber(start + i * step, type, decimals));
+    return { values, repeated: step !== 0 && values.some((value, i) => i > 0 && value === values[i - 1]) };
+  }
+
+  const match = first.match(NUMBERED_TEXT_PATTERN);
+  if (!match) {
+    return { values: new Array(count).fill(first), repeated: false };
+  }
+
+  const [, prefix, digits] = match;
+  const start = parseInt(digits, 10);
+  const next = seeds[1]?.match(NUMBERED_TEXT_PATTERN);
+  const step = next && next[1] === prefix ? parseInt(next[2], 10) - start : 1;
+  // Keep zero padding such as 007
+  const width = getPaddedWidth(digits);
+
+  const values = Array.from({ length: count }, (_, i) => `${prefix}${padNumber(start + i * step, width)}`);
+  return { values, repeated: false };
+}
+
+/**
+ * Add a constant to a numeric value, keeping the column's precision.
+ * Returns undefined when the value is empty or not a number.
+ */
+export function addOffset(value: string, offset: string, type: string): string | undefined {
+  const trimmed = value.trim();
+  if (!NUMBER_PATTERN.test(trimmed)) return undefined;
+
+  const decimals = Math.max(countDecimals(trimmed), countDecimals(offset.trim()));
+  const result = formatNumber(Number(trimmed) + Number(offset), type, decimals);
+  // Keep the zero padding of whole numbers such as 007
+  const width = getPaddedWidth(trimmed);
+  return width > 0 && /^-?\d+$/.test(result) ? padNumber(Number(result), width) : result;
+}
+
+/**
+ * Whether text is a plain number (no exponent), as accepted for an offset
+ */
+export function isNumber(text: string): boolean {
+  return NUMBER_PATTERN.test(text.trim());
+}
+
+/**
+ * Build a find-and-replace function for cell values. Plain text is matched literally
+ * and replaced as is; regular expressions may use $1 etc. in the replacement.
+ * Throws a SyntaxError for an invalid regular expression.
+ */
+export function createReplacer(
+  find: string,
+  replace: string,
+  regex: boolean,
+  matchCase: boolean
+): (value: string) => string {
+  const flags = matchCase ? "g" : "gi";
+  if (regex) {
+    const pattern = new RegExp(find, flags);
+    return (value) => value.replace(pattern, replace);
+  }
+
+  const pattern = new RegExp(find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), flags);
+  return (value) => value.replace(pattern, () => replace);
+}
@@ -0,0 +1,264 @@
+import * as vscode from "vscode";
+import { LoadedDictionary } from "./dictionary-loader";
+import { ParsedDocument, ParsedGroup, getLastRowLine } from "./document-model";
+import { formatLine, getFieldIndexAtPosition, tokenizeLine } from "./ags-tokenizer";
+import {
+  MissingReference,
+  REFERENCE_RULES,
+  ReferenceGroup,
+  findMissingReferences,
+  getReferenceRows,
+} from "./reference-records";
+
+/**
+ * Code action provider - quick fixes for the structural problems reported by AGSDiagnosticsProvider
+ */
+export class AGSCodeActionProvider implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private parseDocument: (doc: vscode.TextDocument) => ParsedDocument;
+  private findGroupForLine: (
+    parsed: ParsedDocument,
+    line: number
+  ) => ParsedGroup | null;
+  private getDictionary: (doc: vscode.TextDocument) => LoadedDictionary;
+
+  constructor(
+    parseDocument: (doc: vscode.TextDocument) => ParsedDocument,
+    findGroupForLine: (
+      parsed: ParsedDocument,
+      line: number
+    ) => ParsedGroup | null,
+    getDictionary: (doc: vscode.TextDocument) => LoadedDictionary
+  ) {
+    this.parseDocument = parseDocument;
+    this.findGroupForLine = findGroupForLine;
+    this.getDictionary = getDictionary;
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const parsed = this.parseDocument(document);
+    let missing: MissingReference[] | undefined;
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== "AGS") continue;
+
+      const referenceGroup = getReferenceGroup(diagnostic.code);
+      if (referenceGroup) {
+        missing = missing ?? findMissingReferences(parsed);
+        const action = this.addReferenceRecord(document, parsed, diagnostic, referenceGroup, missing);
+        if (action) {
+          actions.push(action);
+        }
+        continue;
+      }
+
+      if (diagnostic.code === "Rule 4") {
+        actions.push(...this.fixFieldCount(document, parsed, diagnostic));
+      } else if (diagnostic.code === "Rule 2b") {
+        const action = this.insertHeaderRows(document, parsed, diagnostic);
+        if (action) {
+          actions.push(action);
+        }
+      }
+    }
+
+    // Offer to fix every missing reference record in the file at once
+    if (missing && missing.length > 1) {
+      const groups = [...new Set(missing.map((reference) => reference.group))];
+      const edit = this.addReferenceRecords(document, parsed, missing);
+
+      const action = new vscode.CodeAction(
+        `Add all ${missing.length} missing ${groups.join(", ")} records`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.edit = edit;
+      actions.push(action);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Pad a row with empty fields, or remove its extra fields, to match the HEADING row
+   */
+  private fixFieldCount(
+    document: vscode.TextDocument,
+    parsed: ParsedDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction[] {
+    const lineNumber = diagnostic.range.start.line;
+    const line = document.lineAt(lineNumber).text;
+    const fields = tokenizeLine(line);
+    if (!["UNIT", "TYPE", "DATA"].includes(fields[0]?.value ?? "")) return [];
+
+    const group = this.findGroupForLine(parsed, lineNumber);
+    if (!group || group.headingLine < 0) return [];
+
+    const expected = group.headings.length + 1;
+    const edit = new vscode.WorkspaceEdit();
+    let action: vscode.CodeAction;
+
+    if (fields.length < expected) {
+      const count = expected - fields.length;
+      edit.insert(document.uri, new vscode.Position(lineNumber, line.length), ',""'.repeat(count));
+      action = new vscode.CodeAction(
+        `Add ${count} empty field${count === 1 ? "" : "s"} to match the HEADING row`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.isPreferred = true;
+    } else if (fields.length > expected) {
+      const extra = fields.slice(expected);
+      const count = extra.length;
+      // Remove from the comma before the first extra field to the end of the row
+      edit.delete(
+        document.uri,
+        new vscode.Range(lineNumber, extra[0].start - 1, lineNumber, extra[count - 1].end)
+      );
+      const discardsData = extra.some((field) => field.value);
+      action = new vscode.CodeAction(
+        `Remove ${count} extra field${count === 1 ? "" : "s"}${discardsData ? " (discards their values)" : ""}`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.isPreferred = !discardsData;
+    } else {
+      return [];
+    }
+
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    return [action];
+  }
+
+  /**
+   * Insert a group's missing UNIT and/or TYPE rows, filled in from the dictionary
+   */
+  private insertHeaderRows(
+    document: vscode.TextDocument,
+    parsed: ParsedDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    const lineNumber = diagnostic.range.start.line;
+
+    // A missing TYPE row can be reported on the next group's GROUP row
+    const isGroupRow = tokenizeLine(document.lineAt(lineNumber).text)[0]?.value === "GROUP";
+    const group = this.findGroupForLine(parsed, isGroupRow ? lineNumber - 1 : lineNumber);
+    if (!group || group.headingLine < 0) return undefined;
+
+    const dict = this.getDictionary(document);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const units = formatLine(["UNIT", ...group.headings.map((heading) => dict.headingDetails[heading]?.unit ?? "")]);
+    const types = formatLine(["TYPE", ...group.headings.map((heading) => dict.headingDetails[heading]?.type ?? "")]);
+
+    let afterLine: number;
+    let rows: string[];
+    if (group.unitLine === undefined) {
+      afterLine = group.headingLine;
+      rows = group.typeLine === undefined ? [units, types] : [units];
+    } else if (group.typeLine === undefined) {
+      afterLine = group.unitLine;
+      rows = [types];
+    } else {
+      return undefined;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(
+      document.uri,
+      new vscode.Position(afterLine, document.lineAt(afterLine).text.length),
+      rows.map((row) => `${eol}${row}`).join("")
+    );
+
+    const names = rows.map((row) => tokenizeLine(row)[0].value);
+    const action = new vscode.CodeAction(
+      `Insert ${names.join(" and ")} row${names.length === 1 ? "" : "s"} for group ${group.name}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Add the UNIT, TYPE or ABBR record for a code, or create the missing reference group
+   */
+  private addReferenceRecord(
+    document: vscode.TextDocument,
+    parsed: ParsedDocument,
+    diagnostic: vscode.Diagnostic,
+    group: ReferenceGroup,
+    missing: MissingReference[]
+  ): vscode.CodeAction | undefined {
+    const lineNumber = diagnostic.range.start.line;
+    const fieldIndex = getFieldIndexAtPosition(
+      tokenizeLine(document.lineAt(lineNumber).text),
+      diagnostic.range.start.character
+    );
+    const reference = missing.find(
+      (r) => r.group === group && r.line === lineNumber && r.fieldIndex === fieldIndex
+    );
+
+    let references: MissingReference[];
+    let title: string;
+    if (reference) {
+      references = [reference];
+      title = reference.heading
+        ? `Add ABBR record for ${reference.heading} code ${reference.code}`
+        : `Add ${group} record for ${reference.code}`;
+    } else if (!parsed.groups.has(group)) {
+      // The "required group is missing" error: create it with every code the file uses
+      references = missing.filter((r) => r.group === group);
+      if (references.length === 0) return undefined;
+      title = `Add ${group} group with the ${references.length} ${group === "ABBR" ? "codes" : group === "UNIT" ? "units" : "types"} used in the file`;
+    } else {
+      return undefined;
+    }
+
+    const edit = this.addReferenceRecords(document, parsed, references);
+
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit = edit;
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * Edit adding records for missing references to their UNIT, TYPE and ABBR groups,
+   * creating any group the file does not have yet at its end
+   */
+  private addReferenceRecords(
+    document: vscode.TextDocument,
+    parsed: ParsedDocument,
+    references: MissingReference[]
+  ): vscode.WorkspaceEdit {
+    const { appended, newGroups } = getReferenceRows(parsed, this.getDictionary(document), references);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const edit = new vscode.WorkspaceEdit();
+
+    for (const { group, rows } of appended) {
+      const line = getLastRowLine(group);
+      const position = new vscode.Position(line, document.lineAt(line).text.length);
+      edit.insert(document.uri, position, rows.map((row) => `${eol}${row}`).join(""));
+    }
+
+    if (newGroups.length > 0) {
+      const lastLine = document.lineAt(document.lineCount - 1);
+      const separator = lastLine.text.trim() ? `${eol}${eol}` : eol;
+      const text = newGroups.map((rows) => rows.join(eol)).join(`${eol}${eol}`);
+      edit.insert(document.uri, lastLine.range.end, `${separator}${text}${eol}`);
+    }
+
+    return edit;
+  }
+}
+
+function getReferenceGroup(code: vscode.Diagnostic["code"]): ReferenceGroup | undefined {
+  return (Object.keys(REFERENCE_RULES) as ReferenceGroup[]).find((group) => REFERENCE_RULES[group] === code);
+}
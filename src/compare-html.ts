@@ -0,0 +1,327 @@
+/**
+ * Static markup and script for the AGS file comparison webview.
+ *
+ * Each "comparison" message carries the whole comparison, which is drawn as one
+ * collapsible section per group. Long record lists are cut short here; the
+ * markdown export always has every record.
+ */
+export function getCompareHtml(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      background: var(--vscode-editor-background);
+      color: var(--vscode-foreground);
+      padding: 0;
+      margin: 0;
+    }
+
+    .toolbar {
+      padding: 8px 12px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 12px;
+      background: var(--vscode-editor-background);
+      position: sticky;
+      top: 0;
+      z-index: 10;
+    }
+
+    .toolbar button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      padding: 3px 10px;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+
+    .toolbar button:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+    }
+
+    .summary {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.9em;
+    }
+
+    .empty {
+      padding: 20px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .groups {
+      padding: 8px 12px 24px 12px;
+    }
+
+    details {
+      margin-bottom: 8px;
+      border: 1px solid var(--vscode-panel-border);
+      border-radius: 2px;
+    }
+
+    summary {
+      padding: 6px 10px;
+      cursor: pointer;
+      font-weight: 600;
+      background: var(--vscode-sideBar-background);
+    }
+
+    summary .counts {
+      font-weight: normal;
+      color: var(--vscode-descriptionForeground);
+      margin-left: 8px;
+    }
+
+    .group-body {
+      padding: 4px 10px 10px 10px;
+    }
+
+    .note {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.9em;
+      margin: 6px 0;
+    }
+
+    h4 {
+      margin: 12px 0 4px 0;
+      font-size: 0.95em;
+    }
+
+    table {
+      border-collapse: collapse;
+      font-size: 12px;
+      width: 100%;
+    }
+
+    th, td {
+      text-align: left;
+      padding: 2px 8px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      vertical-align: top;
+    }
+
+    th {
+      color: var(--vscode-descriptionForeground);
+      font-weight: 500;
+    }
+
+    .record {
+      cursor: pointer;
+    }
+
+    .record:hover {
+      background: var(--vscode-list-hoverBackground);
+    }
+
+    .old {
+      color: var(--vscode-gitDecoration-deletedResourceForeground, #c74e39);
+      text-decoration: line-through;
+    }
+
+    .new {
+      color: var(--vscode-gitDecoration-addedResourceForeground, #81b88b);
+    }
+
+    ul {
+      margin: 0;
+      padding-left: 20px;
+      font-size: 12px;
+    }
+
+    li.record {
+      padding: 1px 0;
+    }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <span id="files"></span>
+    <span class="summary" id="summary"></span>
+    <label><input type="checkbox" id="showUnchanged"> Show unchanged groups</label>
+    <button id="export">Export as Markdown</button>
+  </div>
+  <div class="empty" id="empty" hidden>No differences found.</div>
+  <div class="groups" id="groups"></div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+
+    // Records listed per section; the rest are counted and left to the markdown export
+    const MAX_RECORDS = 500;
+
+    const state = vscode.getState() || {};
+    const showUnchangedBox = document.getElementById("showUnchanged");
+    showUnchangedBox.checked = Boolean(state.showUnchanged);
+    const collapsed = new Set(state.collapsed || []);
+    let current = null;
+
+    function saveState() {
+      vscode.setState({ showUnchanged: showUnchangedBox.checked, collapsed: Array.from(collapsed) });
+    }
+
+    function element(tag, className, parent) {
+      const el = document.createElement(tag);
+      if (className) el.className = className;
+      if (parent) parent.appendChild(el);
+      return el;
+    }
+
+    function countOf(count, noun) {
+      return count + " " + noun + (count === 1 ? "" : "s");
+    }
+
+    function reveal(side, line) {
+      vscode.postMessage({ type: "reveal", side, line });
+    }
+
+    function describeCounts(group) {
+      if (group.status === "added") return "added, " + countOf(group.added.length, "record");
+      if (group.status === "removed") return "removed, " + countOf(group.removed.length, "record");
+
+      const parts = [];
+      if (group.added.length > 0) parts.push(group.added.length + " added");
+      if (group.removed.length > 0) parts.push(group.removed.length + " removed");
+      if (group.changed.length > 0) parts.push(group.changed.length + " changed");
+      if (group.addedHeadings.length + group.removedHeadings.length > 0) {
+        parts.push(countOf(group.addedHeadings.length + group.removedHeadings.length, "heading change"));
+      }
+      parts.push(group.unchangedCount + " unchanged");
+      return parts.join(", ");
+    }
+
+    function addMore(parent, count) {
+      if (count <= MAX_RECORDS) return;
+      element("div", "note", parent).textContent =
+        countOf(count - MAX_RECORDS, "more record") + " - export as markdown to see all";
+    }
+
+    function renderChanged(group, parent) {
+      element("h4", null, parent).textContent = "Changed records";
+      const table = element("table", null, parent);
+      const header = element("tr", null, table);
+      for (const title of ["Record", "Heading", "Old", "New"]) {
+        element("th", null, header).textContent = title;
+      }
+
+      for (const record of group.changed.slice(0, MAX_RECORDS)) {
+        record.values.forEach((value, index) => {
+          const row = element("tr", "record", table);
+          row.title = "Go to the record in the new file";
+          element("td", null, row).textContent = index === 0 ? record.key : "";
+          element("td", null, row).textContent = value.heading;
+          element("td", "old", row).textContent = value.oldValue;
+          element("td", "new", row).textContent = value.newValue;
+          row.addEventListener("click", () => reveal("new", record.newLine));
+        });
+      }
+      addMore(parent, group.changed.length);
+    }
+
+    function renderRecords(title, records, side, parent) {
+      element("h4", null, parent).textContent = title;
+      const list = element("ul", null, parent);
+      for (const record of records.slice(0, MAX_RECORDS)) {
+        const item = element("li", "record " + (side === "new" ? "new" : "old"), list);
+        item.textContent = record.key;
+        item.title = "Go to the record in the " + side + " file (line " + (record.line + 1) + ")";
+        item.addEventListener("click", () => reveal(side, record.line));
+      }
+      addMore(parent, records.length);
+    }
+
+    function renderGroup(group, parent) {
+      const details = element("details", null, parent);
+      details.open = !collapsed.has(group.name);
+      details.addEventListener("toggle", () => {
+        if (details.open) collapsed.delete(group.name);
+        else collapsed.add(group.name);
+        saveState();
+      });
+
+      const summary = element("summary", null, details);
+      summary.textContent = group.name;
+      element("span", "counts", summary).textContent = describeCounts(group);
+
+      const body = element("div", "group-body", details);
+      if (group.status === "added" || group.status === "removed") {
+        element("div", "note", body).textContent = "Group only in the " + (group.status === "added" ? "new" : "old") + " file.";
+      } else {
+        element("div", "note", body).textContent = group.keyHeadings.length > 0
+          ? "Records matched on " + group.keyHeadings.join(", ") + "."
+          : "No key headings in both files, so whole records were compared.";
+      }
+
+      if (group.addedHeadings.length > 0) {
+        const note = element("div", "note", body);
+        note.textContent = "Headings added: ";
+        element("span", "new", note).textContent = group.addedHeadings.join(", ");
+      }
+      if (group.removedHeadings.length > 0) {
+        const note = element("div", "note", body);
+        note.textContent = "Headings removed: ";
+        element("span", "old", note).textContent = group.removedHeadings.join(", ");
+      }
+
+      if (group.changed.length > 0) renderChanged(group, body);
+      if (group.added.length > 0) renderRecords("Added records", group.added, "new", body);
+      if (group.removed.length > 0) renderRecords("Removed records", group.removed, "old", body);
+    }
+
+    function render() {
+      if (!current) return;
+
+      const issue = (value) => (value ? " (issue " + value + ")" : "");
+      document.getElementById("files").textContent =
+        current.oldFile + issue(current.oldIssue) + " \\u2192 " + current.newFile + issue(current.newIssue);
+
+      const differing = current.groups.filter((group) => group.status !== "unchanged");
+      const totals = { added: 0, removed: 0, changed: 0 };
+      for (const group of current.groups) {
+        totals.added += group.added.length;
+        totals.removed += group.removed.length;
+        totals.changed += group.changed.length;
+      }
+      document.getElementById("summary").textContent = [
+        countOf(differing.length, "group") + " with differences",
+        totals.added + " added",
+        totals.removed + " removed",
+        totals.changed + " changed",
+      ].join(" · ");
+
+      const container = document.getElementById("groups");
+      container.innerHTML = "";
+      document.getElementById("empty").hidden = differing.length > 0;
+
+      const shown = showUnchangedBox.checked ? current.groups : differing;
+      for (const group of shown) {
+        renderGroup(group, container);
+      }
+    }
+
+    showUnchangedBox.addEventListener("change", () => {
+      saveState();
+      render();
+    });
+
+    document.getElementById("export").addEventListener("click", () => {
+      vscode.postMessage({ type: "export" });
+    });
+
+    window.addEventListener("message", (event) => {
+      const message = event.data;
+      if (message.type === "comparison") {
+        current = message.comparison;
+        render();
+      }
+    });
+
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+}
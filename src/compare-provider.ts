@@ -0,0 +1,133 @@
+import * as vscode from "vscode";
+import { ComparedSide, FileComparison, formatComparisonMarkdown } from "./compare";
+import { getCompareHtml } from "./compare-html";
+
+// Wait after an edit before comparing again, so typing in a large file stays responsive
+const UPDATE_DELAY_MS = 300;
+
+interface ReadyMessage {
+  type: "ready";
+}
+
+interface RevealMessage {
+  type: "reveal";
+  side: ComparedSide;
+  line: number;
+}
+
+interface ExportMessage {
+  type: "export";
+}
+
+type WebviewMessage = ReadyMessage | RevealMessage | ExportMessage;
+
+interface ComparePanel {
+  panel: vscode.WebviewPanel;
+  oldDocument: vscode.TextDocument;
+  newDocument: vscode.TextDocument;
+  pending?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Comparisons of two AGS files. Each pair of files gets one panel, which is
+ * recompared as either file is edited; clicking a record selects its row in the
+ * editor, and the report can be opened as markdown.
+ */
+export class AGSCompareProvider {
+  private panels = new Map<string, ComparePanel>();
+  private compare: (oldDocument: vscode.TextDocument, newDocument: vscode.TextDocument) => FileComparison;
+
+  constructor(compare: (oldDocument: vscode.TextDocument, newDocument: vscode.TextDocument) => FileComparison) {
+    this.compare = compare;
+  }
+
+  public show(oldDocument: vscode.TextDocument, newDocument: vscode.TextDocument): void {
+    const key = `${oldDocument.uri.toString()} ${newDocument.uri.toString()}`;
+    const existing = this.panels.get(key);
+    if (existing) {
+      existing.panel.reveal();
+      this.sendComparison(existing);
+      return;
+    }
+
+    const fileName = (document: vscode.TextDocument) => document.fileName.split(/[\\/]/).pop() || "AGS File";
+    const panel = vscode.window.createWebviewPanel(
+      "agsCompare",
+      `Compare: ${fileName(oldDocument)} ↔ ${fileName(newDocument)}`,
+      vscode.ViewColumn.Beside,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const entry: ComparePanel = { panel, oldDocument, newDocument };
+    this.panels.set(key, entry);
+
+    panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+      switch (message.type) {
+        case "ready":
+          this.sendComparison(entry);
+          break;
+        case "reveal":
+          this.revealLine(message.side === "old" ? oldDocument : newDocument, message.line);
+          break;
+        case "export":
+          this.exportMarkdown(entry);
+          break;
+      }
+    });
+
+    panel.onDidDispose(() => {
+      if (entry.pending) clearTimeout(entry.pending);
+      this.panels.delete(key);
+    });
+
+    // The comparison is sent once the webview reports that it is ready
+    panel.webview.html = getCompareHtml();
+  }
+
+  public updateForDocumentChange(document: vscode.TextDocument): void {
+    for (const entry of this.panels.values()) {
+      if (entry.oldDocument !== document && entry.newDocument !== document) continue;
+
+      if (entry.pending) clearTimeout(entry.pending);
+      entry.pending = setTimeout(() => {
+        entry.pending = undefined;
+        this.sendComparison(entry);
+      }, UPDATE_DELAY_MS);
+    }
+  }
+
+  private sendComparison(entry: ComparePanel): void {
+    entry.panel.webview.postMessage({
+      type: "comparison",
+      comparison: this.compare(entry.oldDocument, entry.newDocument),
+    });
+  }
+
+  private async exportMarkdown(entry: ComparePanel): Promise<void> {
+    const doc = await vscode.workspace.openTextDocument({
+      content: formatComparisonMarkdown(this.compare(entry.oldDocument, entry.newDocument)),
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(doc, { preview: true });
+  }
+
+  /**
+   * Select a row in an editor showing the file, opening one if needed
+   */
+  private async revealLine(document: vscode.TextDocument, line: number): Promise<void> {
+    if (line < 0 || line >= document.lineCount) return;
+
+    const editor = vscode.window.visibleTextEditors.find((e) => e.document === document);
+    const position = new vscode.Position(line, 0);
+    await vscode.window.showTextDocument(document, {
+      viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+      selection: new vscode.Range(position, position),
+    });
+  }
+
+  public dispose(): void {
+    for (const entry of this.panels.values()) {
+      entry.panel.dispose();
+    }
+    this.panels.clear();
+  }
+}
@@ -0,0 +1,287 @@
+import { ParsedDocument, ParsedGroup } from "./document-model";
+
+// Records described by their first headings when a group has no key headings to match on
+const MAX_LABEL_HEADINGS = 3;
+
+export type ComparedSide = "old" | "new";
+
+/**
+ * A value that differs between the two revisions of a record
+ */
+export interface ChangedValue {
+  heading: string;
+  oldValue: string;
+  newValue: string;
+}
+
+/**
+ * A record only in one revision, described by its key fields
+ */
+export interface ComparedRecord {
+  key: string;
+  /** Line of the DATA row, in the new file for added records and the old file for removed ones */
+  line: number;
+}
+
+export interface ChangedRecord {
+  key: string;
+  oldLine: number;
+  newLine: number;
+  values: ChangedValue[];
+}
+
+export interface GroupComparison {
+  name: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  /** Headings records were matched on; empty if whole records were compared */
+  keyHeadings: string[];
+  addedHeadings: string[];
+  removedHeadings: string[];
+  added: ComparedRecord[];
+  removed: ComparedRecord[];
+  changed: ChangedRecord[];
+  unchangedCount: number;
+}
+
+export interface FileComparison {
+  oldFile: string;
+  newFile: string;
+  /** Issue numbers (TRAN_ISNO) of the two files */
+  oldIssue?: string;
+  newIssue?: string;
+  groups: GroupComparison[];
+}
+
+/**
+ * Compare two revisions of an AGS file group by group. Records are matched on the
+ * group's key headings, so rows that only moved are not reported; a repeated key is
+ * matched by its order within the group. Groups present in only one file have all
+ * of their records added or removed.
+ */
+export function compareDocuments(
+  oldParsed: ParsedDocument,
+  newParsed: ParsedDocument,
+  getKeyHeadings: (groupName: string) => string[],
+  oldFile: string,
+  newFile: string
+): FileComparison {
+  const groups: GroupComparison[] = [];
+
+  for (const [name, newGroup] of newParsed.groups) {
+    groups.push(compareGroups(name, oldParsed.groups.get(name), newGroup, getKeyHeadings(name)));
+  }
+  for (const [name, oldGroup] of oldParsed.groups) {
+    if (!newParsed.groups.has(name)) {
+      groups.push(compareGroups(name, oldGroup, undefined, getKeyHeadings(name)));
+    }
+  }
+
+  return {
+    oldFile,
+    newFile,
+    oldIssue: getIssueNumber(oldParsed),
+    newIssue: getIssueNumber(newParsed),
+    groups,
+  };
+}
+
+function compareGroups(
+  name: string,
+  oldGroup: ParsedGroup | undefined,
+  newGroup: ParsedGroup | undefined,
+  keyHeadings: string[]
+): GroupComparison {
+  const oldHeadings = oldGroup?.headings ?? [];
+  const newHeadings = newGroup?.headings ?? [];
+  const common = !oldGroup
+    ? newHeadings
+    : !newGroup
+      ? oldHeadings
+      : newHeadings.filter((heading) => oldHeadings.includes(heading));
+  const keys = keyHeadings.filter((heading) => common.includes(heading));
+  const labelHeadings = keys.length > 0 ? keys : common.slice(0, MAX_LABEL_HEADINGS);
+
+  const comparison: GroupComparison = {
+    name,
+    status: !oldGroup ? "added" : !newGroup ? "removed" : "unchanged",
+    keyHeadings: keys,
+    addedHeadings: oldGroup ? newHeadings.filter((heading) => !oldHeadings.includes(heading)) : [],
+    removedHeadings: newGroup ? oldHeadings.filter((heading) => !newHeadings.includes(heading)) : [],
+    added: [],
+    removed: [],
+    changed: [],
+    unchangedCount: 0,
+  };
+
+  // Single-record groups such as PROJ and TRAN are compared directly, so a new TRAN_ISNO is a change
+  const singleRecord = oldGroup?.data.length === 1 && newGroup?.data.length === 1;
+  const matchHeadings = singleRecord ? [] : keys.length > 0 ? keys : common;
+  const oldRecords = getRecords(oldGroup, matchHeadings, labelHeadings);
+  const newRecords = getRecords(newGroup, matchHeadings, labelHeadings);
+
+  for (const [matchKey, record] of newRecords) {
+    const previous = oldRecords.get(matchKey);
+    if (!previous) {
+      comparison.added.push({ key: record.label, line: record.line });
+      continue;
+    }
+    oldRecords.delete(matchKey);
+
+    const values = common
+      .map((heading) => ({ heading, oldValue: previous.get(heading), newValue: record.get(heading) }))
+      .filter((value) => value.oldValue !== value.newValue);
+    if (values.length > 0) {
+      comparison.changed.push({ key: record.label, oldLine: previous.line, newLine: record.line, values });
+    } else {
+      comparison.unchangedCount++;
+    }
+  }
+
+  for (const record of oldRecords.values()) {
+    comparison.removed.push({ key: record.label, line: record.line });
+  }
+
+  if (
+    comparison.status === "unchanged" &&
+    (comparison.added.length > 0 ||
+      comparison.removed.length > 0 ||
+      comparison.changed.length > 0 ||
+      comparison.addedHeadings.length > 0 ||
+      comparison.removedHeadings.length > 0)
+  ) {
+    comparison.status = "changed";
+  }
+  return comparison;
+}
+
+interface GroupRecord {
+  label: string;
+  line: number;
+  get: (heading: string) => string;
+}
+
+/**
+ * Records of a group keyed by their match headings' values, in file order
+ */
+function getRecords(
+  group: ParsedGroup | undefined,
+  matchHeadings: string[],
+  labelHeadings: string[]
+): Map<string, GroupRecord> {
+  const records = new Map<string, GroupRecord>();
+  if (!group) return records;
+
+  const occurrences = new Map<string, number>();
+  group.data.forEach((row, rowIndex) => {
+    const get = (heading: string) => {
+      const index = group.headings.indexOf(heading);
+      return index >= 0 ? row[index] ?? "" : "";
+    };
+    const key = JSON.stringify(matchHeadings.map(get));
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    records.set(`${key}#${occurrence}`, {
+      label: labelHeadings.map((heading) => `${heading}=${get(heading)}`).join(", ") || `Row ${rowIndex + 1}`,
+      line: group.dataLines[rowIndex],
+      get,
+    });
+  });
+  return records;
+}
+
+function getIssueNumber(parsed: ParsedDocument): string | undefined {
+  const tran = parsed.groups.get("TRAN");
+  const index = tran ? tran.headings.indexOf("TRAN_ISNO") : -1;
+  return (index >= 0 && tran?.data[0]?.[index]) || undefined;
+}
+
+/**
+ * Write a comparison as a markdown report in the layout of the file summary
+ */
+export function formatComparisonMarkdown(comparison: FileComparison): string {
+  const lines: string[] = [];
+  const issue = (value?: string) => (value ? ` (issue ${value})` : "");
+  const groups = comparison.groups.filter((group) => group.status !== "unchanged");
+
+  lines.push(`# AGS File Comparison`);
+  lines.push(``);
+  lines.push(`**Old file:** ${comparison.oldFile}${issue(comparison.oldIssue)}`);
+  lines.push(`**New file:** ${comparison.newFile}${issue(comparison.newIssue)}`);
+  lines.push(`**Generated:** ${new Date().toLocaleString()}`);
+  lines.push(``);
+
+  lines.push(`## Overview`);
+  lines.push(``);
+  if (groups.length === 0) {
+    lines.push(`No differences found.`);
+    lines.push(``);
+  } else {
+    lines.push(`| Group | Status | Added | Removed | Changed | Unchanged |`);
+    lines.push(`|-------|--------|-------|---------|---------|-----------|`);
+    for (const group of comparison.groups) {
+      const { added, removed, changed, unchangedCount } = group;
+      lines.push(
+        `| ${group.name} | ${group.status} | ${added.length} | ${removed.length} | ${changed.length} | ${unchangedCount} |`
+      );
+    }
+    lines.push(``);
+  }
+
+  for (const group of groups) {
+    lines.push(`## ${group.name}`);
+    lines.push(``);
+    if (group.status === "added" || group.status === "removed") {
+      const count = (group.status === "added" ? group.added : group.removed).length;
+      lines.push(`*Group ${group.status} with ${count} record${count === 1 ? "" : "s"}*`);
+      lines.push(``);
+      continue;
+    }
+
+    lines.push(
+      group.keyHeadings.length > 0
+        ? `Records matched on ${group.keyHeadings.join(", ")}.`
+        : `No key headings in both files, so whole records were compared.`
+    );
+    lines.push(``);
+    if (group.addedHeadings.length > 0) lines.push(`- **Headings added:** ${group.addedHeadings.join(", ")}`);
+    if (group.removedHeadings.length > 0) lines.push(`- **Headings removed:** ${group.removedHeadings.join(", ")}`);
+    if (group.addedHeadings.length > 0 || group.removedHeadings.length > 0) lines.push(``);
+
+    if (group.changed.length > 0) {
+      lines.push(`### Changed Records`);
+      lines.push(``);
+      lines.push(`| Record | Heading | Old | New |`);
+      lines.push(`|--------|---------|-----|-----|`);
+      for (const record of group.changed) {
+        for (const value of record.values) {
+          lines.push(
+            `| ${escapeCell(record.key)} | ${value.heading} | ${escapeCell(value.oldValue)} | ${escapeCell(value.newValue)} |`
+          );
+        }
+      }
+      lines.push(``);
+    }
+
+    for (const [title, records, side] of [
+      ["Added Records", group.added, "new"],
+      ["Removed Records", group.removed, "old"],
+    ] as const) {
+      if (records.length === 0) continue;
+      lines.push(`### ${title}`);
+      lines.push(``);
+      for (const record of records) {
+        lines.push(`- ${record.key} (${side} file line ${record.line + 1})`);
+      }
+      lines.push(``);
+    }
+  }
+
+  lines.push(`---`);
+  lines.push(`*Generated by [Diggy AGS for VS Code](https://diggy.tools/tools/ags-vscode-extension)*`);
+  return lines.join("\n");
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|") || " ";
+}
@@ -0,0 +1,169 @@
+import * as vscode from "vscode";
+import { GroupHeading, LoadedDictionary } from "./dictionary-loader";
+import { ParsedDocument, ParsedGroup } from "./document-model";
+import { AGSField, getFieldIndexAtPosition, quoteField, tokenizeLine } from "./ags-tokenizer";
+
+// Lower rank sorts first: key fields, then required, then the rest, deprecated last
+function getStatusRank(status: string): number {
+  if (status.includes("KEY")) return 0;
+  if (status.includes("REQUIRED")) return 1;
+  if (status.includes("DEPRECATED")) return 3;
+  return 2;
+}
+
+/**
+ * Completion provider - suggests dictionary headings for the current group on HEADING rows
+ */
+export class AGSCompletionProvider implements vscode.CompletionItemProvider {
+  private parseDocument: (doc: vscode.TextDocument) => ParsedDocument;
+  private findGroupForLine: (
+    parsed: ParsedDocument,
+    line: number
+  ) => ParsedGroup | null;
+  private getDictionary: (doc: vscode.TextDocument) => LoadedDictionary;
+
+  constructor(
+    parseDocument: (doc: vscode.TextDocument) => ParsedDocument,
+    findGroupForLine: (
+      parsed: ParsedDocument,
+      line: number
+    ) => ParsedGroup | null,
+    getDictionary: (doc: vscode.TextDocument) => LoadedDictionary
+  ) {
+    this.parseDocument = parseDocument;
+    this.findGroupForLine = findGroupForLine;
+    this.getDictionary = getDictionary;
+  }
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.CompletionItem[] | undefined {
+    const line = document.lineAt(position.line).text;
+    if (!line.match(/^"HEADING"/i)) return undefined;
+
+    const parsed = this.parseDocument(document);
+    const group = this.findGroupForLine(parsed, position.line);
+    if (!group || group.headingLine !== position.line) return undefined;
+
+    const dict = this.getDictionary(document);
+    const definitions = dict.groupHeadings[group.name];
+    if (!definitions) return undefined;
+
+    const fields = tokenizeLine(line);
+    const columnIndex = getFieldIndexAtPosition(fields, position.character);
+    if (columnIndex <= 0) return undefined;
+
+    const field = fields[columnIndex];
+    const used = new Set(fields.filter((_, i) => i !== columnIndex && i > 0).map((f) => f.value));
+    const fillUnitAndType = vscode.workspace
+      .getConfiguration("ags")
+      .get("completion.fillUnitAndType", true);
+
+    // Replace the whole field, adding quotes if the user has not typed them
+    const replaceRange = new vscode.Range(position.line, field.start, position.line, field.end);
+
+    return definitions
+      .filter((definition) => !used.has(definition.code))
+      .map((definition, order) => {
+        const item = this.createItem(definition, order, dict, field, replaceRange);
+        if (fillUnitAndType) {
+          item.additionalTextEdits = this.getUnitAndTypeEdits(
+            document,
+            group,
+            columnIndex,
+            fields.length,
+            dict.headingDetails[definition.code]
+          );
+        }
+        return item;
+      });
+  }
+
+  private createItem(
+    definition: GroupHeading,
+    order: number,
+    dict: LoadedDictionary,
+    field: AGSField,
+    replaceRange: vscode.Range
+  ): vscode.CompletionItem {
+    const detail = dict.headingDetails[definition.code];
+    const description = dict.headings[definition.code] || "";
+    const rank = getStatusRank(definition.status);
+
+    const item = new vscode.CompletionItem(
+      { label: definition.code, description: definition.status || undefined, detail: ` ${description}` },
+      vscode.CompletionItemKind.Field
+    );
+    item.insertText = quoteField(definition.code);
+    item.range = replaceRange;
+    item.filterText = field.quoted ? `"${definition.code}"` : definition.code;
+    item.sortText = `${rank}${String(order).padStart(4, "0")}`;
+
+    if (rank === 3) {
+      item.tags = [vscode.CompletionItemTag.Deprecated];
+    }
+
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`\`${definition.code}\` - ${description}\n\n`);
+    const metaParts: string[] = [];
+    if (detail?.unit) {
+      metaParts.push(`Unit: ${detail.unit}`);
+    }
+    if (detail?.type) {
+      metaParts.push(`Type: ${detail.type}`);
+    }
+    if (definition.status) {
+      metaParts.push(`Status: ${definition.status}`);
+    }
+    if (metaParts.length > 0) {
+      markdown.appendMarkdown(`${metaParts.join("  |  ")}\n\n`);
+    }
+    if (detail?.example) {
+      markdown.appendMarkdown(`Example: ${detail.example}`);
+    }
+    item.documentation = markdown;
+
+    return item;
+  }
+
+  /**
+   * Keep the UNIT and TYPE rows aligned with the heading being completed
+   */
+  private getUnitAndTypeEdits(
+    document: vscode.TextDocument,
+    group: ParsedGroup,
+    columnIndex: number,
+    headingFieldCount: number,
+    detail: { unit?: string; type?: string } | undefined
+  ): vscode.TextEdit[] {
+    const edits: vscode.TextEdit[] = [];
+
+    const rows: Array<{ line: number | undefined; value: string }> = [
+      { line: group.unitLine, value: detail?.unit ?? "" },
+      { line: group.typeLine, value: detail?.type ?? "" },
+    ];
+
+    for (const { line, value } of rows) {
+      if (line === undefined) continue;
+
+      const text = document.lineAt(line).text;
+      const fields = tokenizeLine(text);
+
+      if (fields.length === headingFieldCount - 1) {
+        // The heading is a new column: insert a matching field
+        if (columnIndex < fields.length) {
+          edits.push(vscode.TextEdit.insert(new vscode.Position(line, fields[columnIndex].start), `${quoteField(value)},`));
+        } else {
+          edits.push(vscode.TextEdit.insert(new vscode.Position(line, text.length), `,${quoteField(value)}`));
+        }
+      } else if (columnIndex < fields.length && !fields[columnIndex].value && value) {
+        // The column already exists but is blank: fill it in
+        const field = fields[columnIndex];
+        edits.push(vscode.TextEdit.replace(new vscode.Range(line, field.start, line, field.end), quoteField(value)));
+      }
+    }
+
+    return edits;
+  }
+}
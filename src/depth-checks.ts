@@ -0,0 +1,196 @@
+import { ParsedDocument, ParsedGroup } from "./document-model";
+
+// Depths are given to a few decimal places, so smaller differences are rounding
+const DEPTH_TOLERANCE = 0.0005;
+
+// Headings holding a depth below ground level, e.g. SAMP_TOP, SAMP_BASE and WSTG_DPTH
+const DEPTH_HEADING_PATTERN = /^[A-Z0-9]{4}_(TOP|BASE|DPTH)$/;
+
+/**
+ * A GEOL layer or depth-referenced record that does not fit its location's hole
+ */
+export interface DepthProblem {
+  locationId: string;
+  group: string;
+  heading: string;
+  message: string;
+  line: number;
+  /** Field index on that line (0 = row descriptor) */
+  fieldIndex: number;
+}
+
+/**
+ * A depth as written in the file, with where it was written
+ */
+export interface DepthValue {
+  text: string;
+  depth: number;
+  line: number;
+  fieldIndex: number;
+}
+
+interface Layer {
+  top: DepthValue;
+  base?: DepthValue;
+}
+
+/**
+ * Check each location's GEOL layers and depth-referenced records. Layers must start
+ * at 0, have their top above their base, follow on without gaps or overlaps and end
+ * within the final depth (LOCA_FDEP). Depths in other groups (headings ending in
+ * _TOP, _BASE or _DPTH) must be between 0 and the final depth.
+ */
+export function findDepthProblems(parsed: ParsedDocument): DepthProblem[] {
+  const finalDepths = getFinalDepths(parsed.groups.get("LOCA"));
+  const geol = parsed.groups.get("GEOL");
+  const problems = geol ? findGroupDepthProblems(geol, finalDepths) : [];
+
+  for (const group of parsed.groupList) {
+    if (group.name === "LOCA" || group.name === "GEOL") continue;
+    problems.push(...findGroupDepthProblems(group, finalDepths));
+  }
+
+  return problems;
+}
+
+/**
+ * Depth problems of a single group: the layers of a GEOL group, or the depths of the
+ * records of any other group that has a LOCA_ID
+ */
+export function findGroupDepthProblems(group: ParsedGroup, finalDepths: Map<string, DepthValue>): DepthProblem[] {
+  const problems: DepthProblem[] = [];
+
+  if (group.name === "GEOL") {
+    for (const [locationId, layers] of getLayers(group)) {
+      problems.push(...checkLayers(locationId, layers, finalDepths.get(locationId)));
+    }
+    return problems;
+  }
+
+  const idIndex = group.headings.indexOf("LOCA_ID");
+  if (group.name === "LOCA" || idIndex < 0) return problems;
+
+  const depthColumns = group.headings
+    .map((heading, index) => ({ heading, index }))
+    .filter(({ heading }) => DEPTH_HEADING_PATTERN.test(heading));
+  if (depthColumns.length === 0) return problems;
+
+  group.data.forEach((row, rowIndex) => {
+    const locationId = row[idIndex] ?? "";
+    const finalDepth = finalDepths.get(locationId);
+
+    for (const { heading, index } of depthColumns) {
+      const value = getDepthValue(group, rowIndex, index);
+      if (!value) continue;
+
+      const problem = (message: string) =>
+        problems.push({ locationId, group: group.name, heading, message, line: value.line, fieldIndex: value.fieldIndex });
+
+      if (value.depth < -DEPTH_TOLERANCE) {
+        problem(`${heading} ${value.text} m of ${locationId} is above ground level`);
+      } else if (finalDepth && value.depth > finalDepth.depth + DEPTH_TOLERANCE) {
+        problem(`${heading} ${value.text} m of ${locationId} is below the final depth of ${finalDepth.text} m (LOCA_FDEP)`);
+      }
+    }
+  });
+
+  return problems;
+}
+
+function checkLayers(locationId: string, layers: Layer[], finalDepth: DepthValue | undefined): DepthProblem[] {
+  const problems: DepthProblem[] = [];
+  const problem = (heading: string, value: DepthValue, message: string) =>
+    problems.push({ locationId, group: "GEOL", heading, message, line: value.line, fieldIndex: value.fieldIndex });
+
+  const first = layers[0];
+  if (first && Math.abs(first.top.depth) > DEPTH_TOLERANCE) {
+    problem("GEOL_TOP", first.top, `First GEOL layer of ${locationId} starts at ${first.top.text} m instead of 0`);
+  }
+
+  layers.forEach((layer, index) => {
+    const { top, base } = layer;
+    if (base && base.depth <= top.depth + DEPTH_TOLERANCE) {
+      problem("GEOL_BASE", base, `GEOL base ${base.text} m of ${locationId} is not below its top ${top.text} m`);
+    }
+    if (base && finalDepth && base.depth > finalDepth.depth + DEPTH_TOLERANCE) {
+      problem(
+        "GEOL_BASE",
+        base,
+        `GEOL base ${base.text} m of ${locationId} is below the final depth of ${finalDepth.text} m (LOCA_FDEP)`
+      );
+    }
+
+    const above = layers[index - 1]?.base;
+    if (!above) return;
+    if (top.depth < above.depth - DEPTH_TOLERANCE) {
+      problem(
+        "GEOL_TOP",
+        top,
+        `GEOL layer at ${top.text} m of ${locationId} overlaps the layer above, which ends at ${above.text} m`
+      );
+    } else if (top.depth > above.depth + DEPTH_TOLERANCE) {
+      problem("GEOL_TOP", top, `Gap in GEOL of ${locationId} between ${above.text} m and ${top.text} m`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * GEOL layers of each location, ordered by top depth
+ */
+function getLayers(geol: ParsedGroup): Map<string, Layer[]> {
+  const layers = new Map<string, Layer[]>();
+  const idIndex = geol.headings.indexOf("LOCA_ID");
+  const topIndex = geol.headings.indexOf("GEOL_TOP");
+  const baseIndex = geol.headings.indexOf("GEOL_BASE");
+  if (idIndex < 0 || topIndex < 0) return layers;
+
+  geol.data.forEach((row, rowIndex) => {
+    const locationId = row[idIndex] ?? "";
+    const top = getDepthValue(geol, rowIndex, topIndex);
+    if (!locationId || !top) return;
+
+    const base = baseIndex >= 0 ? getDepthValue(geol, rowIndex, baseIndex) : undefined;
+    const locationLayers = layers.get(locationId) ?? [];
+    locationLayers.push({ top, base });
+    layers.set(locationId, locationLayers);
+  });
+
+  for (const locationLayers of layers.values()) {
+    locationLayers.sort((a, b) => a.top.depth - b.top.depth);
+  }
+  return layers;
+}
+
+/**
+ * Final depth (LOCA_FDEP) of each location; a location listed twice keeps its first
+ */
+export function getFinalDepths(loca: ParsedGroup | undefined): Map<string, DepthValue> {
+  const finalDepths = new Map<string, DepthValue>();
+  const idIndex = loca ? loca.headings.indexOf("LOCA_ID") : -1;
+  const depthIndex = loca ? loca.headings.indexOf("LOCA_FDEP") : -1;
+  if (!loca || idIndex < 0 || depthIndex < 0) return finalDepths;
+
+  loca.data.forEach((row, rowIndex) => {
+    const value = getDepthValue(loca, rowIndex, depthIndex);
+    const locationId = row[idIndex];
+    if (locationId && value && !finalDepths.has(locationId)) {
+      finalDepths.set(locationId, value);
+    }
+  });
+  return finalDepths;
+}
+
+function getDepthValue(group: ParsedGroup, rowIndex: number, columnIndex: number): DepthValue | undefined {
+  const text = (group.data[rowIndex]?.[columnIndex] ?? "").trim();
+  const depth = parseDepth(text);
+  if (depth === undefined) return undefined;
+  return { text, depth, line: group.dataLines[rowIndex], fieldIndex: columnIndex + 1 };
+}
+
+export function parseDepth(value: string): number | undefined {
+  if (!value) return undefined;
+  const depth = Number(value);
+  return isFinite(depth) ? depth : undefined;
+}
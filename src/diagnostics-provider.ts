@@ -0,0 +1,139 @@
+import * as vscode from "vscode";
+import { LoadedDictionary } from "./dictionary-loader";
+import { ParsedDocument } from "./document-model";
+import { AGSRuleChecker, ProblemSeverity, RuleProblem } from "./rule-checks";
+
+const VALIDATION_DELAY_MS = 500;
+
+const SEVERITIES: Record<ProblemSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+};
+
+export class AGSDiagnosticsProvider {
+  private collection: vscode.DiagnosticCollection;
+  private parseDocument: (doc: vscode.TextDocument) => ParsedDocument;
+  private getDictionary: (doc: vscode.TextDocument) => LoadedDictionary;
+  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+  private checkers = new Map<string, AGSRuleChecker>();
+
+  constructor(
+    parseDocument: (doc: vscode.TextDocument) => ParsedDocument,
+    getDictionary: (doc: vscode.TextDocument) => LoadedDictionary
+  ) {
+    this.parseDocument = parseDocument;
+    this.getDictionary = getDictionary;
+    this.collection = vscode.languages.createDiagnosticCollection("ags");
+  }
+
+  /**
+   * Validate a document after a short delay, coalescing rapid edits
+   */
+  public scheduleValidation(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const existing = this.pending.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.pending.set(
+      key,
+      setTimeout(() => {
+        this.pending.delete(key);
+        this.validate(document);
+      }, VALIDATION_DELAY_MS)
+    );
+  }
+
+  /**
+   * Validate a document immediately and publish its diagnostics
+   */
+  public validate(document: vscode.TextDocument): void {
+    if (document.languageId !== "ags" || document.isClosed) return;
+
+    if (!this.isEnabled()) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const key = document.uri.toString();
+    let checker = this.checkers.get(key);
+    if (!checker) {
+      checker = new AGSRuleChecker();
+      this.checkers.set(key, checker);
+    }
+
+    const problems = checker.check(document, this.parseDocument(document), this.getDictionary(document));
+    const diagnostics = problems.map((problem) => this.createDiagnostic(document, problem));
+
+    if (document.eol !== vscode.EndOfLine.CRLF) {
+      diagnostics.unshift(
+        this.createDiagnostic(document, {
+          line: 0,
+          start: 0,
+          end: 0,
+          message: "Lines should end with CR+LF (carriage return and line feed)",
+          severity: "information",
+          rule: "Rule 2a",
+        })
+      );
+    }
+
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  public clear(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const existing = this.pending.get(key);
+    if (existing) {
+      clearTimeout(existing);
+      this.pending.delete(key);
+    }
+    this.checkers.delete(key);
+    this.collection.delete(document.uri);
+  }
+
+  /**
+   * Re-validate all open AGS documents, e.g. after a settings change
+   */
+  public validateAll(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.validate(document);
+    }
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace.getConfiguration("ags").get("validation.enabled", true);
+  }
+
+  private createDiagnostic(document: vscode.TextDocument, problem: RuleProblem): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(problem.line, problem.start, problem.line, problem.end),
+      problem.message,
+      SEVERITIES[problem.severity]
+    );
+    diagnostic.source = "AGS";
+    if (problem.rule) {
+      diagnostic.code = problem.rule;
+    }
+    if (problem.related) {
+      diagnostic.relatedInformation = [
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(document.uri, new vscode.Position(problem.related.line, 0)),
+          problem.related.message
+        ),
+      ];
+    }
+    return diagnostic;
+  }
+
+  public dispose(): void {
+    for (const timer of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+    this.checkers.clear();
+    this.collection.dispose();
+  }
+}
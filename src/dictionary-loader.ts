@@ -1,14 +1,68 @@
 import * as fs from "fs";
 import * as path from "path";
 
-interface LoadedDictionary {
+export interface GroupHeading {
+  code: string;
+  status: string;
+}
+
+export interface LoadedDictionary {
   groups: Record<string, string>;
   headings: Record<string, string>;
   headingDetails: Record<string, { description: string; type?: string; unit?: string; status?: string; example?: string }>;
+  groupHeadings: Record<string, GroupHeading[]>;
+  /** Parent group of each child group, e.g. parentGroups["SAMP"] = "LOCA" */
+  parentGroups: Record<string, string>;
+  /** Pick-list codes by heading, e.g. abbreviations["LOCA_TYPE"]["BH"] */
+  abbreviations: Record<string, Record<string, string>>;
+  /** Standard units and their descriptions */
+  units: Record<string, string>;
+  /** Data types and their descriptions */
+  types: Record<string, string>;
+}
+
+/**
+ * A group in the JSON shape of the bundled dictionaries, also used for JSON export and import
+ */
+export interface GroupJson {
+  GROUP: string;
+  HEADING: string[];
+  UNIT: string[];
+  TYPE: string[];
+  DATA: string[][];
 }
 
 const dictionaryCache = new Map<string, LoadedDictionary>();
 
+/**
+ * Dictionary versions bundled in the data folder
+ */
+export const SUPPORTED_VERSIONS = ["4.0.3", "4.0.4", "4.1", "4.1.1"];
+
+export const DEFAULT_VERSION = "4.1.1";
+
+/**
+ * Map a version declared in TRAN_AGS to the closest bundled dictionary version
+ */
+export function resolveDictionaryVersion(declared: string | undefined): string {
+  if (!declared) {
+    return DEFAULT_VERSION;
+  }
+
+  // Tolerate values like "v4.0.4", "AGS 4.1" or "4.1.0"
+  const version = declared.trim().replace(/^(ags\s*)?v?/i, "").replace(/\.0$/, "");
+
+  if (SUPPORTED_VERSIONS.includes(version)) {
+    return version;
+  }
+
+  if (version === "4" || version.startsWith("4.0")) {
+    return "4.0.4";
+  }
+
+  return DEFAULT_VERSION;
+}
+
 /**
  * Load an AGS dictionary from the bundled JSON files
  */
@@ -23,9 +77,9 @@ export function loadDictionary(version: string, extensionPath: string): LoadedDi
   const filePath = path.join(extensionPath, "data", fileName);
 
   if (!fs.existsSync(filePath)) {
-    const fallbackPath = path.join(extensionPath, "data", "ags-dictionary-v4.1.1.min.json");
+    const fallbackPath = path.join(extensionPath, "data", `ags-dictionary-v${DEFAULT_VERSION}.min.json`);
     if (!fs.existsSync(fallbackPath)) {
-      return { groups: {}, headings: {}, headingDetails: {} };
+      return createEmptyDictionary();
     }
     return loadDictionaryFromFile(fallbackPath, cacheKey);
   }
@@ -36,17 +90,13 @@ export function loadDictionary(version: string, extensionPath: string): LoadedDi
 function loadDictionaryFromFile(filePath: string, cacheKey: string): LoadedDictionary {
   try {
     const content = fs.readFileSync(filePath, "utf-8");
-    const data = JSON.parse(content) as Array<{
-      GROUP: string;
-      HEADING: string[];
-      UNIT: string[];
-      TYPE: string[];
-      DATA: string[][];
-    }>;
+    const data = JSON.parse(content) as GroupJson[];
 
     const groups: Record<string, string> = {};
     const headings: Record<string, string> = {};
     const headingDetails: Record<string, { description: string; type?: string; unit?: string; status?: string; example?: string }> = {};
+    const groupHeadings: Record<string, GroupHeading[]> = {};
+    const parentGroups: Record<string, string> = {};
 
     // Find the DICT group which contains all definitions
     const dictGroup = data.find((g) => g.GROUP === "DICT");
@@ -62,6 +112,7 @@ function loadDictionaryFromFile(filePath: string, cacheKey: string): LoadedDicti
       const dtypIdx = headingRow.indexOf("DICT_DTYP");
       const unitIdx = headingRow.indexOf("DICT_UNIT");
       const exmpIdx = headingRow.indexOf("DICT_EXMP");
+      const pgrpIdx = headingRow.indexOf("DICT_PGRP");
 
       for (const row of dictGroup.DATA) {
         const dictType = row[typeIdx];
@@ -75,6 +126,12 @@ function loadDictionaryFromFile(filePath: string, cacheKey: string): LoadedDicti
 
         if (dictType === "GROUP") {
           groups[groupCode] = description;
+
+          // Groups without a parent are marked "-"
+          const parent = pgrpIdx >= 0 ? row[pgrpIdx] : "";
+          if (parent && parent !== "-") {
+            parentGroups[groupCode] = parent;
+          }
         } else if (dictType === "HEADING" && headingCode) {
           headings[headingCode] = description;
           headingDetails[headingCode] = {
@@ -84,20 +141,105 @@ function loadDictionaryFromFile(filePath: string, cacheKey: string): LoadedDicti
             status,
             example,
           };
+
+          // Headings are listed per group in dictionary order; status can differ between groups
+          if (!groupHeadings[groupCode]) {
+            groupHeadings[groupCode] = [];
+          }
+          groupHeadings[groupCode].push({ code: headingCode, status });
         }
       }
     }
 
-    const result = { groups, headings, headingDetails };
+    // Pick-list codes from the ABBR group
+    const abbreviations: Record<string, Record<string, string>> = {};
+    const abbrGroup = data.find((g) => g.GROUP === "ABBR");
+
+    if (abbrGroup) {
+      const hdngIdx = abbrGroup.HEADING.indexOf("ABBR_HDNG");
+      const codeIdx = abbrGroup.HEADING.indexOf("ABBR_CODE");
+      const descIdx = abbrGroup.HEADING.indexOf("ABBR_DESC");
+
+      for (const row of abbrGroup.DATA) {
+        const headingCode = row[hdngIdx];
+        const code = row[codeIdx];
+        if (!headingCode || !code) continue;
+
+        if (!abbreviations[headingCode]) {
+          abbreviations[headingCode] = {};
+        }
+        abbreviations[headingCode][code] = row[descIdx] || "";
+      }
+    }
+
+    const units = readReferenceGroup(data, "UNIT", "UNIT_UNIT", "UNIT_DESC");
+    const types = readReferenceGroup(data, "TYPE", "TYPE_TYPE", "TYPE_DESC");
+
+    const result = {
+      groups,
+      headings,
+      headingDetails,
+      groupHeadings,
+      parentGroups,
+      abbreviations,
+      units,
+      types,
+    };
     dictionaryCache.set(cacheKey, result);
     return result;
   } catch (error) {
-    return { groups: {}, headings: {}, headingDetails: {} };
+    return createEmptyDictionary();
   }
 }
 
 /**
- * Type descriptions (these don't change between versions)
+ * Read a code/description reference group such as UNIT or TYPE
+ */
+function readReferenceGroup(
+  data: GroupJson[],
+  groupName: string,
+  codeHeading: string,
+  descHeading: string
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  const group = data.find((g) => g.GROUP === groupName);
+  if (!group) return result;
+
+  const codeIdx = group.HEADING.indexOf(codeHeading);
+  const descIdx = group.HEADING.indexOf(descHeading);
+
+  for (const row of group.DATA) {
+    const code = row[codeIdx];
+    if (code) {
+      result[code] = row[descIdx] || "";
+    }
+  }
+
+  return result;
+}
+
+function createEmptyDictionary(): LoadedDictionary {
+  return {
+    groups: {},
+    headings: {},
+    headingDetails: {},
+    groupHeadings: {},
+    parentGroups: {},
+    abbreviations: {},
+    units: {},
+    types: {},
+  };
+}
+
+/**
+ * Describe a data type, preferring the dictionary's TYPE group
+ */
+export function describeType(dict: LoadedDictionary, type: string): string | undefined {
+  return dict.types[type] || typeDescriptions[type];
+}
+
+/**
+ * Fallback type descriptions for types not listed in a dictionary's TYPE group
  */
 export const typeDescriptions: Record<string, string> = {
   ID: "Identifier - unique key field",
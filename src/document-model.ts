@@ -0,0 +1,363 @@
+import * as vscode from "vscode";
+import { parseFields } from "./ags-tokenizer";
+
+export interface ParsedGroup {
+  name: string;
+  line: number;
+  headings: string[];
+  headingLine: number;
+  dataCount: number;
+  units: string[];
+  types: string[];
+  data: string[][];
+  dataLines: number[];
+  unitLine?: number;
+  typeLine?: number;
+  /** Last line belonging to the group, before the next GROUP row */
+  endLine: number;
+}
+
+export interface ParsedDocument {
+  groups: Map<string, ParsedGroup>;
+  /** All groups in file order, including repeated group names */
+  groupList: ParsedGroup[];
+  version?: string;
+}
+
+export type RowType = "GROUP" | "HEADING" | "UNIT" | "TYPE" | "DATA";
+
+export interface RowLocation {
+  group: ParsedGroup;
+  rowType: RowType;
+  /** Index into group.data for DATA rows, otherwise 0 */
+  rowIndex: number;
+}
+
+interface CacheEntry {
+  documentVersion: number;
+  parsed: ParsedDocument;
+}
+
+/**
+ * Versioned cache of parsed AGS documents.
+ *
+ * A document is parsed in full once; after that, single edits reported by
+ * onDidChangeTextDocument only reparse the groups they touch (or just the
+ * edited DATA row) and shift the line numbers of the groups after them.
+ */
+export class AGSDocumentModel {
+  private cache = new Map<string, CacheEntry>();
+
+  /**
+   * Get the parsed document, reusing the cached result for an unchanged version
+   */
+  public get(document: vscode.TextDocument): ParsedDocument {
+    const key = document.uri.toString();
+    const entry = this.cache.get(key);
+
+    if (entry && entry.documentVersion === document.version) {
+      return entry.parsed;
+    }
+
+    const groupList = parseLines(document, 0, document.lineCount - 1);
+    const parsed: ParsedDocument = { groups: new Map(), groupList };
+    finalize(parsed, document.lineCount);
+
+    this.cache.set(key, { documentVersion: document.version, parsed });
+    return parsed;
+  }
+
+  /**
+   * Bring a cached document up to date with an edit
+   */
+  public update(event: vscode.TextDocumentChangeEvent): void {
+    const document = event.document;
+    const key = document.uri.toString();
+    const entry = this.cache.get(key);
+    if (!entry || entry.documentVersion === document.version) return;
+
+    // Reparse in full if events were missed, or for several changes in one event
+    // (multi-cursor, bulk edits), which are rare enough not to need the fast path
+    if (entry.documentVersion !== document.version - 1 || event.contentChanges.length !== 1) {
+      this.cache.delete(key);
+      return;
+    }
+
+    const change = event.contentChanges[0];
+    if (!this.applyToDataRow(document, entry.parsed, change)) {
+      this.applyToGroups(document, entry.parsed, change);
+    }
+
+    entry.documentVersion = document.version;
+  }
+
+  public delete(uri: vscode.Uri): void {
+    this.cache.delete(uri.toString());
+  }
+
+  public clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Fast path: an edit within a single DATA row that leaves it a DATA row
+   */
+  private applyToDataRow(
+    document: vscode.TextDocument,
+    parsed: ParsedDocument,
+    change: vscode.TextDocumentContentChangeEvent
+  ): boolean {
+    const line = change.range.start.line;
+    if (change.range.end.line !== line || change.text.includes("\n") || change.text.includes("\r")) {
+      return false;
+    }
+
+    const location = findRowForLine(parsed, line);
+    if (!location || location.rowType !== "DATA") return false;
+
+    const text = document.lineAt(line).text.trim();
+    if (!text.match(/^"DATA"/i)) return false;
+
+    location.group.data[location.rowIndex] = parseFields(text).slice(1);
+    if (location.group.name === "TRAN") {
+      parsed.version = getVersion(parsed.groups);
+    }
+    return true;
+  }
+
+  /**
+   * Reparse the groups touched by an edit and shift the groups after it
+   */
+  private applyToGroups(
+    document: vscode.TextDocument,
+    parsed: ParsedDocument,
+    change: vscode.TextDocumentContentChangeEvent
+  ): void {
+    const list = parsed.groupList;
+    const startLine = change.range.start.line;
+    const oldEndLine = change.range.end.line;
+    const addedLines = (change.text.match(/\r\n|\r|\n/g) || []).length;
+    const delta = addedLines - (oldEndLine - startLine);
+
+    let first = findGroupIndex(list, startLine);
+    const last = findGroupIndex(list, oldEndLine);
+
+    // Editing a GROUP row can merge its rows into the previous group
+    if (first >= 0 && list[first].line === startLine && first > 0) {
+      first--;
+    }
+
+    const regionStart = first >= 0 ? list[first].line : 0;
+    const next = list[last + 1];
+    const regionEnd = next ? next.line + delta - 1 : document.lineCount - 1;
+
+    if (delta !== 0) {
+      for (let i = last + 1; i < list.length; i++) {
+        shiftGroup(list[i], delta);
+      }
+    }
+
+    const reparsed = parseLines(document, regionStart, regionEnd);
+    const spliceStart = Math.max(first, 0);
+    list.splice(spliceStart, last - spliceStart + 1, ...reparsed);
+
+    finalize(parsed, document.lineCount);
+  }
+}
+
+/**
+ * Parse a range of lines (inclusive) into groups; rows before the first GROUP row are ignored
+ */
+function parseLines(document: vscode.TextDocument, startLine: number, endLine: number): ParsedGroup[] {
+  const groups: ParsedGroup[] = [];
+  let currentGroup: ParsedGroup | null = null;
+
+  for (let i = startLine; i <= endLine && i < document.lineCount; i++) {
+    const trimmed = document.lineAt(i).text.trim();
+
+    if (!trimmed) continue;
+
+    // Parse GROUP line
+    const groupMatch = trimmed.match(/^"GROUP"\s*,\s*"([A-Z0-9_]+)"/i);
+    if (groupMatch) {
+      currentGroup = {
+        name: groupMatch[1],
+        line: i,
+        headings: [],
+        headingLine: -1,
+        dataCount: 0,
+        units: [],
+        types: [],
+        data: [],
+        dataLines: [],
+        endLine: i,
+      };
+      groups.push(currentGroup);
+      continue;
+    }
+
+    if (!currentGroup) continue;
+
+    // Parse HEADING line
+    if (trimmed.match(/^"HEADING"/i)) {
+      currentGroup.headingLine = i;
+      currentGroup.headings = parseFields(trimmed).slice(1);
+      continue;
+    }
+
+    // Parse UNIT line
+    if (trimmed.match(/^"UNIT"/i)) {
+      currentGroup.unitLine = i;
+      currentGroup.units = parseFields(trimmed).slice(1);
+      continue;
+    }
+
+    // Parse TYPE line
+    if (trimmed.match(/^"TYPE"/i)) {
+      currentGroup.typeLine = i;
+      currentGroup.types = parseFields(trimmed).slice(1);
+      continue;
+    }
+
+    // Parse DATA rows
+    if (trimmed.match(/^"DATA"/i)) {
+      currentGroup.data.push(parseFields(trimmed).slice(1));
+      currentGroup.dataLines.push(i);
+      currentGroup.dataCount++;
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Rebuild the derived parts of a parsed document after its group list changed
+ */
+function finalize(parsed: ParsedDocument, lineCount: number): void {
+  const list = parsed.groupList;
+  parsed.groups = new Map();
+
+  for (let i = 0; i < list.length; i++) {
+    list[i].endLine = i < list.length - 1 ? list[i + 1].line - 1 : lineCount - 1;
+    list[i].dataCount = list[i].data.length;
+    parsed.groups.set(list[i].name, list[i]);
+  }
+
+  parsed.version = getVersion(parsed.groups);
+}
+
+/**
+ * Extract the AGS version from the TRAN group
+ */
+function getVersion(groups: Map<string, ParsedGroup>): string | undefined {
+  const tran = groups.get("TRAN");
+  if (!tran) return undefined;
+
+  const agsIndex = tran.headings.indexOf("TRAN_AGS");
+  if (agsIndex < 0) return undefined;
+
+  let version: string | undefined;
+  for (const row of tran.data) {
+    if (row[agsIndex]) {
+      version = row[agsIndex];
+    }
+  }
+  return version;
+}
+
+function shiftGroup(group: ParsedGroup, delta: number): void {
+  group.line += delta;
+  group.endLine += delta;
+  if (group.headingLine >= 0) {
+    group.headingLine += delta;
+  }
+  if (group.unitLine !== undefined) {
+    group.unitLine += delta;
+  }
+  if (group.typeLine !== undefined) {
+    group.typeLine += delta;
+  }
+  for (let i = 0; i < group.dataLines.length; i++) {
+    group.dataLines[i] += delta;
+  }
+}
+
+/**
+ * Binary search for the index of the last group starting at or before a line (-1 if none)
+ */
+function findGroupIndex(list: ParsedGroup[], lineNumber: number): number {
+  let low = 0;
+  let high = list.length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].line <= lineNumber) {
+      result = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find the group that contains a given line number
+ */
+export function findGroupForLine(
+  parsed: ParsedDocument,
+  lineNumber: number
+): ParsedGroup | null {
+  const index = findGroupIndex(parsed.groupList, lineNumber);
+  return index >= 0 ? parsed.groupList[index] : null;
+}
+
+/**
+ * Find the group and row (type and DATA index) at a given line number
+ */
+export function findRowForLine(
+  parsed: ParsedDocument,
+  lineNumber: number
+): RowLocation | null {
+  const group = findGroupForLine(parsed, lineNumber);
+  if (!group) return null;
+
+  if (lineNumber === group.line) return { group, rowType: "GROUP", rowIndex: 0 };
+  if (lineNumber === group.headingLine) return { group, rowType: "HEADING", rowIndex: 0 };
+  if (lineNumber === group.unitLine) return { group, rowType: "UNIT", rowIndex: 0 };
+  if (lineNumber === group.typeLine) return { group, rowType: "TYPE", rowIndex: 0 };
+
+  // DATA lines are in ascending order
+  const lines = group.dataLines;
+  let low = 0;
+  let high = lines.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid] === lineNumber) {
+      return { group, rowType: "DATA", rowIndex: mid };
+    }
+    if (lines[mid] < lineNumber) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Last of the GROUP, HEADING, UNIT and TYPE rows of a group, after which the first DATA row goes
+ */
+export function getLastHeaderLine(group: ParsedGroup): number {
+  return group.typeLine ?? group.unitLine ?? (group.headingLine >= 0 ? group.headingLine : group.line);
+}
+
+/**
+ * Last header or DATA row of a group, after which new DATA rows are inserted
+ */
+export function getLastRowLine(group: ParsedGroup): number {
+  return group.dataLines.length > 0 ? group.dataLines[group.dataLines.length - 1] : getLastHeaderLine(group);
+}
@@ -0,0 +1,115 @@
+import { GroupJson } from "./dictionary-loader";
+import { ParsedGroup } from "./document-model";
+import { createWorkbook, XlsxCell, XlsxSheet } from "./xlsx";
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+const PRECISION_PATTERN = /^(\d+)(DP|SF|SCI)$/;
+
+// Types whose values are written to spreadsheets as numbers
+const NUMERIC_TYPES = new Set(["MC", "U"]);
+
+/**
+ * Groups in the JSON shape of the bundled dictionaries
+ */
+export function toJson(groups: ParsedGroup[]): GroupJson[] {
+  return groups.map((group) => ({
+    GROUP: group.name,
+    HEADING: [...group.headings],
+    UNIT: group.headings.map((_, i) => group.units[i] ?? ""),
+    TYPE: group.headings.map((_, i) => group.types[i] ?? ""),
+    DATA: group.data.map((row) => group.headings.map((_, i) => row[i] ?? "")),
+  }));
+}
+
+/**
+ * A group as CSV: the headings, then the UNIT and TYPE rows, then the data.
+ * Starts with a byte order mark so Excel reads the file as UTF-8.
+ */
+export function toCsv(group: ParsedGroup): string {
+  const json = toJson([group])[0];
+  const rows = [json.HEADING, json.UNIT, json.TYPE, ...json.DATA];
+  return "\uFEFF" + rows.map((row) => row.map(quoteCsv).join(",")).join("\r\n") + "\r\n";
+}
+
+function quoteCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A workbook with one sheet per group, headed by its HEADING, UNIT and TYPE rows.
+ * Values of numeric types are written as numbers formatted to their precision.
+ */
+export function toXlsx(groups: ParsedGroup[]): Uint8Array {
+  const names = uniqueNames(groups, (name, n) => `${name} (${n})`);
+  const sheets: XlsxSheet[] = toJson(groups).map((group, i) => {
+    const bold = (row: string[]) => row.map((value): XlsxCell => ({ value, bold: true }));
+
+    return {
+      name: names[i],
+      frozenRows: 3,
+      rows: [
+        bold(group.HEADING),
+        bold(group.UNIT),
+        bold(group.TYPE),
+        ...group.DATA.map((row) =>
+          row.map((value, col): XlsxCell | string => {
+            const trimmed = value.trim();
+            if (!NUMBER_PATTERN.test(trimmed)) return value;
+            const format = getNumberFormat(group.TYPE[col] ?? "", trimmed);
+            return format !== undefined ? { value: Number(trimmed), format } : value;
+          })
+        ),
+      ],
+    };
+  });
+
+  return createWorkbook(sheets);
+}
+
+/**
+ * Spreadsheet number format for a value of a TYPE, or undefined for types kept as text
+ */
+function getNumberFormat(type: string, value: string): string | undefined {
+  const match = type.match(PRECISION_PATTERN);
+  if (!match) {
+    return NUMERIC_TYPES.has(type) ? "General" : undefined;
+  }
+
+  switch (match[2]) {
+    case "DP":
+      return "0" + formatDecimals(parseInt(match[1], 10));
+    case "SCI":
+      return `0${formatDecimals(parseInt(match[1], 10))}E+00`;
+    default: {
+      // Significant figures depend on the value, so show the decimals it is written with
+      if (/e/i.test(value)) return "General";
+      const point = value.indexOf(".");
+      return "0" + formatDecimals(point < 0 ? 0 : value.length - point - 1);
+    }
+  }
+}
+
+function formatDecimals(decimals: number): string {
+  return decimals > 0 ? "." + "0".repeat(decimals) : "";
+}
+
+/**
+ * File names for exporting each group to its own CSV, e.g. site_LOCA.csv.
+ * Repeated groups are numbered (site_GEOL_2.csv).
+ */
+export function getCsvFileNames(baseName: string, groups: ParsedGroup[]): string[] {
+  return uniqueNames(groups, (name, n) => `${name}_${n}`).map((name) => `${baseName}_${name}.csv`);
+}
+
+/**
+ * Group names, numbering second and later occurrences of a repeated group
+ */
+function uniqueNames(groups: ParsedGroup[], number: (name: string, n: number) => string): string[] {
+  const counts = new Map<string, number>();
+  return groups.map((group) => {
+    const n = (counts.get(group.name) ?? 0) + 1;
+    counts.set(group.name, n);
+    return n === 1 ? group.name : number(group.name, n);
+  });
+}
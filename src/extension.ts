@@ -1,6 +1,31 @@
 import * as vscode from "vscode";
-import { loadDictionary, typeDescriptions } from "./dictionary-loader";
-import { AGSTableViewProvider, ParsedDocument, ParsedGroup } from "./table-view-provider";
+import {
+  GroupJson,
+  LoadedDictionary,
+  SUPPORTED_VERSIONS,
+  describeType,
+  loadDictionary,
+  resolveDictionaryVersion,
+} from "./dictionary-loader";
+import { AGSTableViewProvider } from "./table-view-provider";
+import { AGSDocumentModel, ParsedDocument, findGroupForLine, findRowForLine, getLastRowLine } from "./document-model";
+import { AGSDiagnosticsProvider } from "./diagnostics-provider";
+import { getFileDefinitions, getKeyHeadings } from "./rule-checks";
+import { AGSCompletionProvider } from "./completion-provider";
+import { AGSCodeActionProvider } from "./code-action-provider";
+import { AGSFormattingProvider } from "./formatting-provider";
+import { getFieldIndexAtPosition, parseFields, quoteField, tokenizeLine } from "./ags-tokenizer";
+import { formatValue, isPrecisionType } from "./type-formats";
+import { getCsvFileNames, toCsv, toJson, toXlsx } from "./export";
+import { generateSummary } from "./summary";
+import { findDepthProblems } from "./depth-checks";
+import { getFileAbbreviations } from "./reference-records";
+import { AGSSitePlanProvider } from "./site-plan";
+import { AGSStripLogProvider, buildStripLog } from "./strip-log";
+import { compareDocuments } from "./compare";
+import { AGSCompareProvider } from "./compare-provider";
+import { getImportedRows, hasUnitAndTypeRows, matchHeading, rankGroups, readJsonGroups } from "./import";
+import { parseCsv } from "./tsv";
 
 // Status bar item for showing current column heading
 let columnStatusBarItem: vscode.StatusBarItem;
@@ -8,47 +33,72 @@ let columnStatusBarItem: vscode.StatusBarItem;
 // Status bar item for Diggy branding
 let diggyStatusBarItem: vscode.StatusBarItem;
 
+// Status bar item for the dictionary version used by the active file
+let dictionaryStatusBarItem: vscode.StatusBarItem;
+
 // Extension path for loading dictionaries
 let extensionPath: string;
 
-// Loaded dictionary (cached)
-let dictionary: ReturnType<typeof loadDictionary>;
+// Workspace state for persisting per-file settings
+let workspaceState: vscode.Memento;
+
+// Per-file dictionary version overrides, keyed by document URI
+const DICTIONARY_OVERRIDES_KEY = "ags.dictionaryOverrides";
+
+// Depth problems listed in the file summary; all of them are shown as diagnostics
+const MAX_SUMMARY_DEPTH_PROBLEMS = 50;
 
 // Table view provider instance
 let tableViewProvider: AGSTableViewProvider;
 
-interface LocationInfo {
-  id: string;
-  type?: string;
-  easting?: string;
-  northing?: string;
-  finalDepth?: string;
-  depthMin?: number;
-  depthMax?: number;
-}
+// Diagnostics provider instance
+let diagnosticsProvider: AGSDiagnosticsProvider;
 
-interface LocationTypeInfo {
-  count: number;
-  depthMin?: number;
-  depthMax?: number;
-}
+// Site plan panels, one per file
+let sitePlanProvider: AGSSitePlanProvider;
+
+// Strip log panels, one per file
+let stripLogProvider: AGSStripLogProvider;
+
+// File comparison panels, one per pair of files
+let compareProvider: AGSCompareProvider;
+
+// Parsed documents, updated incrementally as they are edited
+const documentModel = new AGSDocumentModel();
+
+/**
+ * Get the dictionary version for a document: a manual override, else its TRAN_AGS version
+ */
+function getDictionaryVersion(document: vscode.TextDocument): { version: string; overridden: boolean } {
+  const overrides = workspaceState.get<Record<string, string>>(DICTIONARY_OVERRIDES_KEY, {});
+  const override = overrides[document.uri.toString()];
+  if (override) {
+    return { version: override, overridden: true };
+  }
 
-interface AGSSummary {
-  totalGroups: number;
-  totalRecords: number;
-  groupCounts: Array<{ name: string; count: number; description?: string }>;
-  locations: LocationInfo[];
-  locationsByType: Map<string, LocationTypeInfo>;
-  recordsByLocation: Map<string, Map<string, number>>;
+  const parsed = parseDocument(document);
+  return { version: resolveDictionaryVersion(parsed.version), overridden: false };
 }
 
-const documentCache = new Map<string, ParsedDocument>();
+/**
+ * Get the dictionary matching a document's AGS version
+ */
+function getDictionary(document: vscode.TextDocument): LoadedDictionary {
+  return loadDictionary(getDictionaryVersion(document).version, extensionPath);
+}
 
 /**
- * Get the current dictionary
+ * Update status bar with the dictionary version used for a document
  */
-function getDictionary() {
-  return dictionary;
+function updateDictionaryStatusBar(editor: vscode.TextEditor) {
+  const { version, overridden } = getDictionaryVersion(editor.document);
+  const declared = parseDocument(editor.document).version;
+
+  dictionaryStatusBarItem.text = `$(book) AGS ${version}${overridden ? "*" : ""}`;
+  dictionaryStatusBarItem.tooltip = overridden
+    ? `AGS dictionary ${version} (manually selected). Click to change.`
+    : `AGS dictionary ${version} (${declared ? `TRAN_AGS is ${declared}` : "no TRAN_AGS, using default"}). Click to change.`;
+  dictionaryStatusBarItem.show();
 }
 
 /**
@@ -92,9 +142,7 @@ function updateColumnStatusBar(editor: vscode.TextEditor) {
 export function activate(context: vscode.ExtensionContext) {
   // Store extension path for loading dictionaries
   extensionPath = context.extensionPath;
-
-  // Load dictionary (always use 4.1.1 for now)
-  dictionary = loadDictionary("4.1.1", extensionPath);
+  workspaceState = context.workspaceState;
 
   // Create status bar item for column heading
   columnStatusBarItem = vscode.window.createStatusBarItem(
@@ -114,6 +162,14 @@ export function activate(context: vscode.ExtensionContext) {
   diggyStatusBarItem.command = "ags.openDiggy";
   context.subscriptions.push(diggyStatusBarItem);
 
+  // Create status bar item for the dictionary version
+  dictionaryStatusBarItem = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    99
+  );
+  dictionaryStatusBarItem.command = "ags.selectDictionaryVersion";
+  context.subscriptions.push(dictionaryStatusBarItem);
+
   // Update status bar on cursor move
   context.subscriptions.push(
     vscode.window.onDidChangeTextEditorSelection((event) => {
@@ -122,6 +178,7 @@ export function activate(context: vscode.ExtensionContext) {
         diggyStatusBarItem.show();
       } else {
         columnStatusBarItem.hide();
+        dictionaryStatusBarItem.hide();
         diggyStatusBarItem.hide();
       }
     })
@@ -132,9 +189,11 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.window.onDidChangeActiveTextEditor((editor) => {
       if (editor && editor.document.languageId === "ags") {
         updateColumnStatusBar(editor);
+        updateDictionaryStatusBar(editor);
         diggyStatusBarItem.show();
       } else {
         columnStatusBarItem.hide();
+        dictionaryStatusBarItem.hide();
         diggyStatusBarItem.hide();
       }
     })
@@ -158,6 +217,34 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.languages.registerDefinitionProvider("ags", new AGSDefinitionProvider())
   );
 
+  // Register completion provider (headings on HEADING rows)
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      "ags",
+      new AGSCompletionProvider(parseDocument, findGroupForLine, getDictionary),
+      '"',
+      ","
+    )
+  );
+
+  // Register code action provider (quick fixes for validation errors)
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(
+      "ags",
+      new AGSCodeActionProvider(parseDocument, findGroupForLine, getDictionary),
+      { providedCodeActionKinds: AGSCodeActionProvider.providedCodeActionKinds }
+    )
+  );
+
+  // Register formatting providers
+  const formattingProvider = new AGSFormattingProvider(getDictionary);
+  context.subscriptions.push(
+    vscode.languages.registerDocumentFormattingEditProvider("ags", formattingProvider)
+  );
+  context.subscriptions.push(
+    vscode.languages.registerDocumentRangeFormattingEditProvider("ags", formattingProvider)
+  );
+
   // Register folding range provider
   context.subscriptions.push(
     vscode.languages.registerFoldingRangeProvider(
@@ -179,8 +266,24 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("ags.openDiggy", openDiggyTools)
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ags.selectDictionaryVersion", selectDictionaryVersion)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ags.formatColumn", formatColumn)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ags.exportGroups", exportGroups)
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ags.importGroups", importGroups)
+  );
+
   // Create table view provider
-  tableViewProvider = new AGSTableViewProvider(parseDocument, findGroupForLine, getDictionary);
+  tableViewProvider = new AGSTableViewProvider(parseDocument, findGroupForLine, getDictionary, context.workspaceState);
   context.subscriptions.push({
     dispose: () => tableViewProvider.dispose(),
   });
@@ -197,300 +300,211 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Sync table view with editor selection
+  // Register the table as a custom editor, available from "Reopen Editor With..."
   context.subscriptions.push(
-    vscode.window.onDidChangeTextEditorSelection((event) => {
-      if (event.textEditor.document.languageId === "ags") {
-        tableViewProvider.syncWithEditor(event.textEditor);
-      }
+    vscode.window.registerCustomEditorProvider(AGSTableViewProvider.viewType, tableViewProvider, {
+      webviewOptions: { retainContextWhenHidden: true },
+      supportsMultipleEditorsPerDocument: true,
     })
   );
 
-  // Parse documents on change for caching and update table view
   context.subscriptions.push(
-    vscode.workspace.onDidChangeTextDocument((event) => {
-      if (event.document.languageId === "ags") {
-        parseDocument(event.document);
-        tableViewProvider.updateForDocumentChange();
+    vscode.commands.registerCommand("ags.openTableEditor", () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && editor.document.languageId === "ags") {
+        tableViewProvider.openEditor(editor.document);
+      } else {
+        vscode.window.showWarningMessage("No AGS file is currently open");
       }
     })
   );
-}
 
-/**
- * Parse an AGS document into structured data
- */
-function parseDocument(document: vscode.TextDocument): ParsedDocument {
-  const groups = new Map<string, ParsedGroup>();
-  let currentGroup: ParsedGroup | null = null;
-  let version: string | undefined;
-
-  for (let i = 0; i < document.lineCount; i++) {
-    const line = document.lineAt(i).text;
-    const trimmed = line.trim();
-
-    if (!trimmed) continue;
-
-    // Parse GROUP line
-    const groupMatch = trimmed.match(/^"GROUP"\s*,\s*"([A-Z0-9_]+)"/i);
-    if (groupMatch) {
-      currentGroup = {
-        name: groupMatch[1],
-        line: i,
-        headings: [],
-        headingLine: -1,
-        dataCount: 0,
-        units: [],
-        types: [],
-        data: [],
-      };
-      groups.set(groupMatch[1], currentGroup);
-      continue;
-    }
+  // Create site plan provider
+  sitePlanProvider = new AGSSitePlanProvider(
+    (document) => generateSummary(parseDocument(document), getDictionary(document)).locations
+  );
+  context.subscriptions.push({
+    dispose: () => sitePlanProvider.dispose(),
+  });
 
-    // Parse HEADING line
-    const headingMatch = trimmed.match(/^"HEADING"/i);
-    if (headingMatch && currentGroup) {
-      currentGroup.headingLine = i;
-      const headings = extractQuotedFields(trimmed);
-      currentGroup.headings = headings.slice(1);
-      continue;
-    }
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ags.showSitePlan", () => {
+      const editor = vscode.window.activeTextEditor;
+      if (editor && editor.document.languageId === "ags") {
+        sitePlanProvider.show(editor.document);
+      } else {
+        vscode.window.showWarningMessage("No AGS file is currently open");
+      }
+    })
+  );
 
-    // Parse UNIT line
-    const unitMatch = trimmed.match(/^"UNIT"/i);
-    if (unitMatch && currentGroup) {
-      const units = extractQuotedFields(trimmed);
-      currentGroup.units = units.slice(1);
-      continue;
-    }
-
-    // Parse TYPE line
-    const typeMatch = trimmed.match(/^"TYPE"/i);
-    if (typeMatch && currentGroup) {
-      const types = extractQuotedFields(trimmed);
-      currentGroup.types = types.slice(1);
-      continue;
+  // Create strip log provider
+  stripLogProvider = new AGSStripLogProvider(
+    (document) => generateSummary(parseDocument(document), getDictionary(document)).locations,
+    (document, locationId) => {
+      const parsed = parseDocument(document);
+      const dict = getDictionary(document);
+      return buildStripLog(parsed, locationId, (heading, code) => describeAbbreviation(parsed, dict, heading, code));
     }
+  );
+  context.subscriptions.push({
+    dispose: () => stripLogProvider.dispose(),
+  });
 
-    // Parse DATA rows
-    const dataMatch = trimmed.match(/^"DATA"/i);
-    if (dataMatch && currentGroup) {
-      const dataFields = extractQuotedFields(trimmed);
-      currentGroup.data.push(dataFields.slice(1));
-      currentGroup.dataCount++;
-    }
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ags.showStripLog", showStripLog)
+  );
 
-    // Extract version from TRAN group
-    if (currentGroup?.name === "TRAN" && trimmed.match(/^"DATA"/i)) {
-      const fields = extractQuotedFields(trimmed);
-      const agsIndex = currentGroup.headings.indexOf("TRAN_AGS");
-      if (agsIndex >= 0 && fields[agsIndex + 1]) {
-        version = fields[agsIndex + 1];
-      }
-    }
-  }
+  // Create file comparison provider; keys come from the newer file's dictionary
+  compareProvider = new AGSCompareProvider((oldDocument, newDocument) => {
+    const oldParsed = parseDocument(oldDocument);
+    const newParsed = parseDocument(newDocument);
+    const dict = getDictionary(newDocument);
+    const oldDefinitions = getFileDefinitions(oldParsed);
+    const newDefinitions = getFileDefinitions(newParsed);
+    const fileName = (document: vscode.TextDocument) => document.fileName.split(/[\\/]/).pop() || "AGS File";
+    return compareDocuments(
+      oldParsed,
+      newParsed,
+      (groupName) => {
+        const keys = getKeyHeadings(groupName, dict, newDefinitions);
+        return keys.length > 0 ? keys : getKeyHeadings(groupName, dict, oldDefinitions);
+      },
+      fileName(oldDocument),
+      fileName(newDocument)
+    );
+  });
+  context.subscriptions.push({
+    dispose: () => compareProvider.dispose(),
+  });
 
-  const parsed = { groups, version };
-  documentCache.set(document.uri.toString(), parsed);
-  return parsed;
-}
+  context.subscriptions.push(
+    vscode.commands.registerCommand("ags.compareFiles", compareFiles)
+  );
 
-/**
- * Generate comprehensive summary from parsed document
- */
-function generateSummary(parsed: ParsedDocument): AGSSummary {
-  const dict = getDictionary();
-  const groupCounts: AGSSummary["groupCounts"] = [];
-  const locations: LocationInfo[] = [];
-  const locationsByType = new Map<string, LocationTypeInfo>();
-  const recordsByLocation = new Map<string, Map<string, number>>();
-  let totalRecords = 0;
-
-  // Count records in each group and by location
-  for (const [groupName, group] of parsed.groups) {
-    groupCounts.push({
-      name: groupName,
-      count: group.dataCount,
-      description: dict.groups[groupName],
-    });
-    totalRecords += group.dataCount;
-
-    // Find LOCA_ID column to count records per location
-    const locaIdIndex = group.headings.indexOf("LOCA_ID");
-    if (locaIdIndex >= 0) {
-      for (const row of group.data) {
-        const locaId = row[locaIdIndex];
-        if (locaId) {
-          let locationGroups = recordsByLocation.get(locaId);
-          if (!locationGroups) {
-            locationGroups = new Map<string, number>();
-            recordsByLocation.set(locaId, locationGroups);
-          }
-          locationGroups.set(groupName, (locationGroups.get(groupName) || 0) + 1);
-        }
+  // Sync table view with editor selection
+  context.subscriptions.push(
+    vscode.window.onDidChangeTextEditorSelection((event) => {
+      if (event.textEditor.document.languageId === "ags") {
+        tableViewProvider.syncWithEditor(event.textEditor);
       }
-    }
-  }
-
-  // Sort by count descending
-  groupCounts.sort((a, b) => b.count - a.count);
-
-  // Extract depth ranges from GEOL group
-  const depthRangesByLocation = new Map<string, { min: number; max: number }>();
-  const geolGroup = parsed.groups.get("GEOL");
-  if (geolGroup) {
-    const locaIdIndex = geolGroup.headings.indexOf("LOCA_ID");
-    const topIndex = geolGroup.headings.indexOf("GEOL_TOP");
-    const baseIndex = geolGroup.headings.indexOf("GEOL_BASE");
+    })
+  );
 
-    if (locaIdIndex >= 0 && (topIndex >= 0 || baseIndex >= 0)) {
-      for (const row of geolGroup.data) {
-        const locaId = row[locaIdIndex];
-        const top = topIndex >= 0 ? parseFloat(row[topIndex]) : NaN;
-        const base = baseIndex >= 0 ? parseFloat(row[baseIndex]) : NaN;
+  // Create diagnostics provider and validate already open documents
+  diagnosticsProvider = new AGSDiagnosticsProvider(parseDocument, getDictionary);
+  context.subscriptions.push(diagnosticsProvider);
+  diagnosticsProvider.validateAll();
 
-        if (locaId) {
-          const existing = depthRangesByLocation.get(locaId);
-          let min = existing?.min ?? Infinity;
-          let max = existing?.max ?? -Infinity;
+  context.subscriptions.push(
+    vscode.workspace.onDidOpenTextDocument((document) => {
+      diagnosticsProvider.validate(document);
+    })
+  );
 
-          if (!isNaN(top)) {
-            min = Math.min(min, top);
-            max = Math.max(max, top);
-          }
-          if (!isNaN(base)) {
-            min = Math.min(min, base);
-            max = Math.max(max, base);
-          }
+  context.subscriptions.push(
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      documentModel.delete(document.uri);
+      diagnosticsProvider.clear(document);
+    })
+  );
 
-          if (min !== Infinity || max !== -Infinity) {
-            depthRangesByLocation.set(locaId, {
-              min: min === Infinity ? 0 : min,
-              max: max === -Infinity ? 0 : max,
-            });
-          }
-        }
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("ags.validation")) {
+        diagnosticsProvider.validateAll();
       }
-    }
-  }
+    })
+  );
 
-  // Extract location information from LOCA group
-  const locaGroup = parsed.groups.get("LOCA");
-  if (locaGroup) {
-    const idIndex = locaGroup.headings.indexOf("LOCA_ID");
-    const eastingIndex = locaGroup.headings.indexOf("LOCA_NATE");
-    const northingIndex = locaGroup.headings.indexOf("LOCA_NATN");
-    const typeIndex = locaGroup.headings.indexOf("LOCA_TYPE");
-    const finalDepthIndex = locaGroup.headings.indexOf("LOCA_FDEP");
-
-    for (const row of locaGroup.data) {
-      const id = idIndex >= 0 ? row[idIndex] : "";
-      const easting = eastingIndex >= 0 ? row[eastingIndex] : undefined;
-      const northing = northingIndex >= 0 ? row[northingIndex] : undefined;
-      const type = typeIndex >= 0 ? row[typeIndex] : undefined;
-      const finalDepth = finalDepthIndex >= 0 ? row[finalDepthIndex] : undefined;
-      const depthRange = depthRangesByLocation.get(id);
-
-      if (id) {
-        locations.push({
-          id,
-          easting,
-          northing,
-          type,
-          finalDepth,
-          depthMin: depthRange?.min,
-          depthMax: depthRange?.max,
-        });
-
-        // Aggregate by type
-        if (type) {
-          const existing = locationsByType.get(type);
-          if (existing) {
-            existing.count++;
-            if (depthRange) {
-              if (depthRange.min !== undefined) {
-                existing.depthMin = existing.depthMin !== undefined
-                  ? Math.min(existing.depthMin, depthRange.min)
-                  : depthRange.min;
-              }
-              if (depthRange.max !== undefined) {
-                existing.depthMax = existing.depthMax !== undefined
-                  ? Math.max(existing.depthMax, depthRange.max)
-                  : depthRange.max;
-              }
-            }
-          } else {
-            locationsByType.set(type, {
-              count: 1,
-              depthMin: depthRange?.min,
-              depthMax: depthRange?.max,
-            });
-          }
+  // Update the document model on change and refresh the table view
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument((event) => {
+      if (event.document.languageId === "ags") {
+        documentModel.update(event);
+        tableViewProvider.updateForDocumentChange(event.document);
+        sitePlanProvider.updateForDocumentChange(event.document);
+        stripLogProvider.updateForDocumentChange(event.document);
+        compareProvider.updateForDocumentChange(event.document);
+        diagnosticsProvider.scheduleValidation(event.document);
+
+        const editor = vscode.window.activeTextEditor;
+        if (editor && editor.document === event.document) {
+          updateDictionaryStatusBar(editor);
         }
       }
-    }
-  }
+    })
+  );
 
-  return {
-    totalGroups: parsed.groups.size,
-    totalRecords,
-    groupCounts,
-    locations,
-    locationsByType,
-    recordsByLocation,
-  };
+  // Show the dictionary version for a file that is already open
+  if (vscode.window.activeTextEditor?.document.languageId === "ags") {
+    updateDictionaryStatusBar(vscode.window.activeTextEditor);
+  }
 }
 
 /**
- * Extract quoted fields from a line
+ * Parse an AGS document into structured data (cached per document version)
  */
-function extractQuotedFields(line: string): string[] {
-  const fields: string[] = [];
-  const regex = /"([^"]*?)"/g;
-  let match;
-  while ((match = regex.exec(line)) !== null) {
-    fields.push(match[1]);
-  }
-  return fields;
+function parseDocument(document: vscode.TextDocument): ParsedDocument {
+  return documentModel.get(document);
 }
 
 /**
  * Get the column index at a given position in a line
  */
 function getColumnAtPosition(line: string, charPosition: number): number {
-  let column = 0;
-  let inQuotes = false;
-
-  for (let i = 0; i < charPosition && i < line.length; i++) {
-    if (line[i] === '"') {
-      inQuotes = !inQuotes;
-    } else if (line[i] === ',' && !inQuotes) {
-      column++;
-    }
+  return getFieldIndexAtPosition(tokenizeLine(line), charPosition);
+}
+
+/**
+ * Look up a pick-list code in the dictionary, then in the file's own ABBR group
+ */
+function describeAbbreviation(
+  parsed: ParsedDocument,
+  dict: LoadedDictionary,
+  heading: string,
+  code: string
+): string | undefined {
+  const standard = dict.abbreviations[heading]?.[code];
+  if (standard !== undefined) {
+    return standard;
   }
 
-  return column;
+  return getFileAbbreviations(parsed).get(heading)?.get(code);
 }
 
 /**
- * Find the group that contains a given line number
+ * Describe a cell value: pick-list codes on DATA rows, units on UNIT rows, types on TYPE rows
  */
-function findGroupForLine(
+function describeValue(
   parsed: ParsedDocument,
-  lineNumber: number
-): ParsedGroup | null {
-  let currentGroup: ParsedGroup | null = null;
-
-  for (const [, group] of parsed.groups) {
-    if (group.line <= lineNumber) {
-      if (!currentGroup || group.line > currentGroup.line) {
-        currentGroup = group;
-      }
-    }
+  dict: LoadedDictionary,
+  rowType: string,
+  heading: string,
+  value: string
+): string | undefined {
+  if (!value) return undefined;
+
+  if (rowType === "UNIT") {
+    const description = dict.units[value];
+    return description ? `Unit \`${value}\` - ${description}` : undefined;
+  }
+
+  if (rowType === "TYPE") {
+    const description = describeType(dict, value);
+    return description ? `Type \`${value}\` - ${description}` : undefined;
+  }
+
+  // Pick-list values may combine several codes with "+", e.g. "CP+RC"
+  const codes = value.split("+");
+  const descriptions = codes.map((code) => describeAbbreviation(parsed, dict, heading, code));
+  if (descriptions.every((d) => d === undefined)) {
+    return undefined;
   }
 
-  return currentGroup;
+  return codes
+    .map((code, i) => `\`${code}\` - ${descriptions[i] ?? "Unknown code"}`)
+    .join("  \n");
 }
 
 /**
@@ -506,7 +520,7 @@ class AGSHoverProvider implements vscode.HoverProvider {
       return null;
     }
 
-    const dict = getDictionary();
+    const dict = getDictionary(document);
     const line = document.lineAt(position.line).text;
     const parsed = parseDocument(document);
 
@@ -541,7 +555,20 @@ class AGSHoverProvider implements vscode.HoverProvider {
 
           // Line 3: Example value if available
           if (headingDetail?.example) {
-            markdown.appendMarkdown(`Example: ${headingDetail.example}`);
+            markdown.appendMarkdown(`Example: ${headingDetail.example}\n\n`);
+          }
+
+          // Line 4: Meaning of the value under the cursor (pick-list code, unit or type)
+          const fields = parseFields(line);
+          const valueDescription = describeValue(
+            parsed,
+            dict,
+            fields[0].toUpperCase(),
+            headingName,
+            fields[columnIndex] ?? ""
+          );
+          if (valueDescription) {
+            markdown.appendMarkdown(valueDescription);
           }
 
           return new vscode.Hover(markdown);
@@ -597,10 +624,11 @@ class AGSHoverProvider implements vscode.HoverProvider {
     }
 
     // Check if it's a type
-    if (typeDescriptions[word]) {
+    const typeDescription = describeType(dict, word);
+    if (typeDescription) {
       const markdown = new vscode.MarkdownString();
       markdown.appendMarkdown(`**Type: ${word}**\n\n`);
-      markdown.appendMarkdown(`${typeDescriptions[word]}`);
+      markdown.appendMarkdown(`${typeDescription}`);
       return new vscode.Hover(markdown, wordRange);
     }
 
@@ -632,7 +660,7 @@ class AGSDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
     document: vscode.TextDocument
   ): vscode.DocumentSymbol[] {
     const parsed = parseDocument(document);
-    const dict = getDictionary();
+    const dict = getDictionary(document);
     const symbols: vscode.DocumentSymbol[] = [];
 
     for (const [name, group] of parsed.groups) {
@@ -752,7 +780,7 @@ async function showFileSummary() {
   }
 
   const parsed = parseDocument(editor.document);
-  const summary = generateSummary(parsed);
+  const summary = generateSummary(parsed, getDictionary(editor.document));
   const fileName = editor.document.fileName.split(/[\\/]/).pop() || "AGS File";
 
   const lines: string[] = [];
@@ -762,6 +790,7 @@ async function showFileSummary() {
   lines.push(``);
   lines.push(`**File:** ${fileName}`);
   lines.push(`**Version:** ${parsed.version || "Unknown"}`);
+  lines.push(`**Dictionary:** ${getDictionaryVersion(editor.document).version}`);
   lines.push(`**Generated:** ${new Date().toLocaleString()}`);
   lines.push(``);
 
@@ -868,6 +897,27 @@ async function showFileSummary() {
     lines.push(``);
   }
 
+  // Depth Checks (if there are locations or layers to check)
+  if (summary.locations.length > 0 || parsed.groups.has("GEOL")) {
+    const problems = findDepthProblems(parsed);
+    lines.push(`## Depth Checks`);
+    lines.push(``);
+    if (problems.length === 0) {
+      lines.push(`No depth problems found.`);
+    } else {
+      lines.push(`| Location ID | Group | Line | Problem |`);
+      lines.push(`|-------------|-------|------|---------|`);
+      for (const problem of problems.slice(0, MAX_SUMMARY_DEPTH_PROBLEMS)) {
+        lines.push(`| ${problem.locationId} | ${problem.group} | ${problem.line + 1} | ${problem.message} |`);
+      }
+      if (problems.length > MAX_SUMMARY_DEPTH_PROBLEMS) {
+        lines.push(``);
+        lines.push(`*${problems.length - MAX_SUMMARY_DEPTH_PROBLEMS} more problems - see the Problems panel*`);
+      }
+    }
+    lines.push(``);
+  }
+
   // Footer
   lines.push(`---`);
   lines.push(`*Generated by [Diggy AGS for VS Code](https://diggy.tools/tools/ags-vscode-extension)*`);
@@ -880,6 +930,84 @@ async function showFileSummary() {
   await vscode.window.showTextDocument(doc, { preview: true });
 }
 
+/**
+ * Command: Show the strip log of the location on the cursor's row, or of one picked
+ * from the file's locations
+ */
+async function showStripLog() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "ags") {
+    vscode.window.showWarningMessage("No AGS file is currently open");
+    return;
+  }
+
+  const document = editor.document;
+  const parsed = parseDocument(document);
+
+  // A DATA row with a LOCA_ID, e.g. in LOCA, GEOL or SAMP
+  const row = findRowForLine(parsed, editor.selection.active.line);
+  const idIndex = row ? row.group.headings.indexOf("LOCA_ID") : -1;
+  let locationId = row && row.rowType === "DATA" && idIndex >= 0 ? row.group.data[row.rowIndex][idIndex] : undefined;
+
+  if (!locationId) {
+    const summary = generateSummary(parsed, getDictionary(document));
+    if (summary.locations.length === 0) {
+      vscode.window.showInformationMessage("The file has no LOCA records to show a strip log for");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      summary.locations.map((location) => ({
+        label: location.id,
+        description: location.type,
+        detail: `Depth range ${formatDepthRange(location.depthMin, location.depthMax)} m${location.finalDepth ? `, final depth ${location.finalDepth} m` : ""}`,
+      })),
+      { placeHolder: "Select a location to show its strip log", matchOnDescription: true }
+    );
+    if (!selected) return;
+    locationId = selected.label;
+  }
+
+  stripLogProvider.show(document, locationId);
+}
+
+/**
+ * Command: Compare the current file with an earlier revision, matching records by
+ * their key fields rather than by line
+ */
+async function compareFiles() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "ags") {
+    vscode.window.showWarningMessage("No AGS file is currently open");
+    return;
+  }
+
+  const document = editor.document;
+  const files = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    defaultUri: document.isUntitled ? undefined : vscode.Uri.joinPath(document.uri, ".."),
+    filters: { "AGS Files": ["ags"], "All Files": ["*"] },
+    openLabel: "Compare",
+    title: "Select the earlier revision to compare the current file with",
+  });
+  if (!files) return;
+
+  if (files[0].toString() === document.uri.toString()) {
+    vscode.window.showWarningMessage("Select a different file to compare the current file with");
+    return;
+  }
+
+  let oldDocument: vscode.TextDocument;
+  try {
+    oldDocument = await vscode.workspace.openTextDocument(files[0]);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Could not open ${files[0].fsPath}: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  compareProvider.show(oldDocument, document);
+}
+
 /**
  * Command: Go to group
  */
@@ -891,7 +1019,7 @@ async function goToGroup() {
   }
 
   const parsed = parseDocument(editor.document);
-  const dict = getDictionary();
+  const dict = getDictionary(editor.document);
 
   const items = Array.from(parsed.groups.entries()).map(([name, group]) => ({
     label: `$(symbol-class) ${name}`,
@@ -916,6 +1044,380 @@ async function goToGroup() {
   }
 }
 
+/**
+ * Command: Select the dictionary version for the current file
+ */
+async function selectDictionaryVersion() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "ags") {
+    vscode.window.showWarningMessage("No AGS file is currently open");
+    return;
+  }
+
+  const document = editor.document;
+  const key = document.uri.toString();
+  const declared = parseDocument(document).version;
+  const current = getDictionaryVersion(document);
+
+  const items: Array<vscode.QuickPickItem & { version?: string }> = [
+    {
+      label: "Automatic",
+      description: `Use TRAN_AGS (${resolveDictionaryVersion(declared)})`,
+      detail: declared ? `File declares AGS ${declared}` : "File does not declare TRAN_AGS",
+      picked: !current.overridden,
+    },
+    ...SUPPORTED_VERSIONS.map((version) => ({
+      label: `AGS ${version}`,
+      description: current.overridden && current.version === version ? "Current" : undefined,
+      version,
+    })),
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select the AGS dictionary version for this file",
+  });
+
+  if (!selected) return;
+
+  const overrides = { ...workspaceState.get<Record<string, string>>(DICTIONARY_OVERRIDES_KEY, {}) };
+  if (selected.version) {
+    overrides[key] = selected.version;
+  } else {
+    delete overrides[key];
+  }
+  await workspaceState.update(DICTIONARY_OVERRIDES_KEY, overrides);
+
+  updateDictionaryStatusBar(editor);
+  tableViewProvider.refresh(document);
+  diagnosticsProvider.validate(document);
+}
+
+/**
+ * Command: Reformat a column's DATA values to the precision declared in its TYPE
+ */
+async function formatColumn() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "ags") {
+    vscode.window.showWarningMessage("No AGS file is currently open");
+    return;
+  }
+
+  const document = editor.document;
+  const parsed = parseDocument(document);
+  const position = editor.selection.active;
+  const group = findGroupForLine(parsed, position.line);
+
+  if (!group) {
+    vscode.window.showWarningMessage("Place the cursor in a group to reformat one of its columns");
+    return;
+  }
+
+  // Use the column under the cursor, otherwise ask for one
+  let columnIndex = getColumnAtPosition(document.lineAt(position.line).text, position.character) - 1;
+
+  if (!isPrecisionType(group.types[columnIndex] ?? "")) {
+    const items = group.headings
+      .map((heading, index) => ({ label: heading, description: group.types[index] ?? "", index }))
+      .filter((item) => isPrecisionType(item.description));
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage(
+        `Group ${group.name} has no columns with a numeric precision (nDP, nSF or nSCI)`
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select a column of ${group.name} to reformat`,
+    });
+    if (!selected) return;
+    columnIndex = selected.index;
+  }
+
+  const type = group.types[columnIndex];
+  const heading = group.headings[columnIndex] ?? `column ${columnIndex + 1}`;
+  const edit = new vscode.WorkspaceEdit();
+  let changed = 0;
+
+  group.data.forEach((row, rowIndex) => {
+    const value = row[columnIndex] ?? "";
+    const formatted = formatValue(type, value);
+    if (formatted === undefined || formatted === value) return;
+
+    const lineNumber = group.dataLines[rowIndex];
+    const field = tokenizeLine(document.lineAt(lineNumber).text)[columnIndex + 1];
+    if (!field) return;
+
+    edit.replace(document.uri, new vscode.Range(lineNumber, field.start, lineNumber, field.end), quoteField(formatted));
+    changed++;
+  });
+
+  if (changed === 0) {
+    vscode.window.showInformationMessage(`All values in ${heading} already match ${type}`);
+    return;
+  }
+
+  await vscode.workspace.applyEdit(edit);
+  vscode.window.showInformationMessage(`Reformatted ${changed} values in ${heading} to ${type}`);
+}
+
+/**
+ * Command: Export groups of the current file to CSV, XLSX or JSON
+ */
+async function exportGroups() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "ags") {
+    vscode.window.showWarningMessage("No AGS file is currently open");
+    return;
+  }
+
+  const document = editor.document;
+  const parsed = parseDocument(document);
+  if (parsed.groupList.length === 0) {
+    vscode.window.showInformationMessage("The file has no groups to export");
+    return;
+  }
+
+  const format = await vscode.window.showQuickPick(
+    [
+      { label: "CSV", description: "One .csv file per group", extension: "csv" },
+      { label: "Excel Workbook", description: "One sheet per group", extension: "xlsx" },
+      { label: "JSON", description: "GROUP, HEADING, UNIT, TYPE and DATA per group", extension: "json" },
+    ],
+    { placeHolder: "Select the export format" }
+  );
+  if (!format) return;
+
+  const dict = getDictionary(document);
+  const selectedGroups = await vscode.window.showQuickPick(
+    parsed.groupList.map((group) => ({
+      label: group.name,
+      description: `${group.dataCount} rows`,
+      detail: dict.groups[group.name] || "User-defined group",
+      picked: true,
+      group,
+    })),
+    { placeHolder: "Select the groups to export", canPickMany: true, matchOnDetail: true }
+  );
+  if (!selectedGroups || selectedGroups.length === 0) return;
+
+  const groups = selectedGroups.map((item) => item.group);
+  const baseName = document.uri.path.split("/").pop()!.replace(/\.ags$/i, "");
+  const documentFolder = vscode.Uri.joinPath(document.uri, "..");
+
+  try {
+    if (format.extension === "csv") {
+      const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        defaultUri: document.isUntitled ? undefined : documentFolder,
+        openLabel: "Export Here",
+      });
+      if (!folders) return;
+
+      const fileNames = getCsvFileNames(baseName, groups);
+      for (let i = 0; i < groups.length; i++) {
+        await vscode.workspace.fs.writeFile(
+          vscode.Uri.joinPath(folders[0], fileNames[i]),
+          Buffer.from(toCsv(groups[i]), "utf8")
+        );
+      }
+      vscode.window.showInformationMessage(`Exported ${groups.length} groups to CSV in ${folders[0].fsPath}`);
+      return;
+    }
+
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: document.isUntitled ? undefined : vscode.Uri.joinPath(documentFolder, `${baseName}.${format.extension}`),
+      filters: { [format.label]: [format.extension] },
+    });
+    if (!target) return;
+
+    const content =
+      format.extension === "xlsx" ? toXlsx(groups) : Buffer.from(JSON.stringify(toJson(groups), null, 2), "utf8");
+    await vscode.workspace.fs.writeFile(target, content);
+    vscode.window.showInformationMessage(`Exported ${groups.length} groups to ${target.fsPath}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Command: Import a group from CSV (mapping its columns to dictionary headings) or
+ * groups from JSON into the current file
+ */
+async function importGroups() {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.languageId !== "ags") {
+    vscode.window.showWarningMessage("No AGS file is currently open");
+    return;
+  }
+
+  const document = editor.document;
+  const files = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    defaultUri: document.isUntitled ? undefined : vscode.Uri.joinPath(document.uri, ".."),
+    filters: { "CSV or JSON": ["csv", "json"] },
+    openLabel: "Import",
+  });
+  if (!files) return;
+
+  const dict = getDictionary(document);
+  let groups: GroupJson[] | undefined;
+  try {
+    const text = Buffer.from(await vscode.workspace.fs.readFile(files[0])).toString("utf8");
+    groups = /\.json$/i.test(files[0].path) ? await pickJsonGroups(readJsonGroups(text)) : await mapCsvColumns(parseCsv(text), dict);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+  if (!groups || groups.length === 0) return;
+
+  const { appended, newGroups, skipped } = getImportedRows(parseDocument(document), dict, groups);
+  const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+  const edit = new vscode.WorkspaceEdit();
+  for (const { group, rows } of appended) {
+    const end = document.lineAt(getLastRowLine(group)).range.end;
+    edit.insert(document.uri, end, rows.map((row) => `${eol}${row}`).join(""));
+  }
+  if (newGroups.length > 0) {
+    const lastLine = document.lineAt(document.lineCount - 1);
+    const separator = lastLine.text.trim() ? `${eol}${eol}` : document.lineCount > 1 ? eol : "";
+    const text = newGroups.map((rows) => rows.join(eol)).join(`${eol}${eol}`);
+    edit.insert(document.uri, lastLine.range.end, `${separator}${text}${eol}`);
+  }
+  await vscode.workspace.applyEdit(edit);
+
+  const records = groups.reduce((count, group) => count + group.DATA.length, 0);
+  const names = [...new Set(groups.map((group) => group.GROUP))].join(", ");
+  if (skipped.length > 0) {
+    vscode.window.showWarningMessage(
+      `Imported ${records} records into ${names}. Values of ${skipped.join(", ")} were left out because the existing group has no such heading`
+    );
+  } else {
+    vscode.window.showInformationMessage(`Imported ${records} records into ${names}`);
+  }
+}
+
+/**
+ * Choose which groups of a JSON file to import
+ */
+async function pickJsonGroups(groups: GroupJson[]): Promise<GroupJson[] | undefined> {
+  if (groups.length <= 1) return groups;
+
+  const selected = await vscode.window.showQuickPick(
+    groups.map((group) => ({
+      label: group.GROUP,
+      description: `${group.HEADING.length} headings, ${group.DATA.length} rows`,
+      picked: true,
+      group,
+    })),
+    { placeHolder: "Select the groups to import", canPickMany: true }
+  );
+  return selected?.map((item) => item.group);
+}
+
+/**
+ * Choose the group for a CSV file's records and map its columns to the group's headings.
+ * The first row holds the column names; UNIT and TYPE rows below it (as written by the
+ * CSV export) are used for the new group's UNIT and TYPE rows.
+ */
+async function mapCsvColumns(rows: string[][], dict: LoadedDictionary): Promise<GroupJson[] | undefined> {
+  while (rows.length > 0 && rows[rows.length - 1].every((value) => !value.trim())) {
+    rows.pop();
+  }
+  if (rows.length === 0) {
+    throw new Error("The CSV file is empty");
+  }
+
+  const columns = rows[0].map((column) => column.trim());
+  const withUnitAndType = hasUnitAndTypeRows(rows, dict);
+  const dataRows = rows.slice(withUnitAndType ? 3 : 1);
+
+  const selectedGroup = await vscode.window.showQuickPick(
+    rankGroups(columns, dict).map(({ name, matches }) => ({
+      label: name,
+      description: matches > 0 ? `${matches} of ${columns.length} columns match` : undefined,
+      detail: dict.groups[name],
+    })),
+    { placeHolder: "Select the group to import the CSV records into", matchOnDetail: true }
+  );
+  if (!selectedGroup) return undefined;
+
+  const groupName = selectedGroup.label;
+  const groupHeadings = dict.groupHeadings[groupName] ?? [];
+  let mapping = columns.map((column) => matchHeading(column, groupName, dict));
+
+  // Review the mapping until the user chooses to import
+  for (;;) {
+    const mapped = mapping.filter((heading) => heading !== undefined).length;
+    const items = [
+      {
+        label: `$(check) Import ${dataRows.length} records`,
+        description: `${mapped} of ${columns.length} columns mapped to ${groupName} headings`,
+        column: -1,
+      },
+      ...columns.map((column, index) => ({
+        label: column || `Column ${index + 1}`,
+        description: mapping[index] ? `→ ${mapping[index]}` : "Not imported",
+        detail: dataRows
+          .slice(0, 3)
+          .map((row) => row[index] ?? "")
+          .join(", "),
+        column: index,
+      })),
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select a column to change its ${groupName} heading, or Import`,
+      matchOnDescription: true,
+    });
+    if (!selected) return undefined;
+
+    if (selected.column < 0) {
+      if (mapped > 0) break;
+      vscode.window.showWarningMessage("Map at least one column to a heading to import");
+      continue;
+    }
+
+    const heading = await vscode.window.showQuickPick(
+      [
+        { label: "$(close) Do not import", heading: undefined },
+        ...groupHeadings.map((definition) => ({
+          label: definition.code,
+          description: definition.status || undefined,
+          detail: dict.headingDetails[definition.code]?.description,
+          heading: definition.code,
+        })),
+      ],
+      { placeHolder: `Heading for the "${selected.label}" column`, matchOnDetail: true }
+    );
+    if (!heading) continue;
+
+    // Each heading takes one column
+    mapping = mapping.map((current, index) =>
+      index === selected.column ? heading.heading : current === heading.heading ? undefined : current
+    );
+  }
+
+  // Write the columns in dictionary heading order
+  const order = groupHeadings.map((definition) => definition.code);
+  const rank = (heading: string) => (order.includes(heading) ? order.indexOf(heading) : order.length);
+  const imported = columns
+    .map((_, index) => index)
+    .filter((index) => mapping[index] !== undefined)
+    .sort((a, b) => rank(mapping[a]!) - rank(mapping[b]!));
+
+  return [
+    {
+      GROUP: groupName,
+      HEADING: imported.map((index) => mapping[index]!),
+      UNIT: imported.map((index) => (withUnitAndType ? rows[1][index] ?? "" : "")),
+      TYPE: imported.map((index) => (withUnitAndType ? rows[2][index] ?? "" : "")),
+      DATA: dataRows.map((row) => imported.map((index) => row[index] ?? "")),
+    },
+  ];
+}
+
 /**
  * Command: Open Diggy tools website
  */
@@ -927,5 +1429,5 @@ function openDiggyTools() {
  * Deactivate the extension
  */
 export function deactivate() {
-  documentCache.clear();
+  documentModel.clear();
 }
@@ -0,0 +1,67 @@
+import * as vscode from "vscode";
+import { LoadedDictionary } from "./dictionary-loader";
+import { formatRows } from "./ags-formatter";
+
+/**
+ * Formatting provider - normalises AGS files to the layout the standard expects:
+ * every field quoted, no whitespace around separators, CRLF line endings and a
+ * single blank line between groups. Headings and groups can optionally be sorted
+ * into dictionary order.
+ */
+export class AGSFormattingProvider
+  implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider
+{
+  private getDictionary: (doc: vscode.TextDocument) => LoadedDictionary;
+
+  constructor(getDictionary: (doc: vscode.TextDocument) => LoadedDictionary) {
+    this.getDictionary = getDictionary;
+  }
+
+  provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    const config = vscode.workspace.getConfiguration("ags");
+    const dict = this.getDictionary(document);
+    const output = formatRows(this.getLines(document, 0, document.lineCount - 1), {
+      headings: config.get("format.sortHeadings", false)
+        ? (groupName) => (dict.groupHeadings[groupName] ?? []).map((h) => h.code)
+        : undefined,
+      groups: config.get("format.sortGroups", false) ? Object.keys(dict.groups) : undefined,
+    });
+    const fullRange = new vscode.Range(0, 0, document.lineCount - 1, document.lineAt(document.lineCount - 1).text.length);
+
+    // Every row, including the last, ends with CR+LF
+    return [
+      vscode.TextEdit.replace(fullRange, output.join("\r\n") + "\r\n"),
+      vscode.TextEdit.setEndOfLine(vscode.EndOfLine.CRLF),
+    ];
+  }
+
+  provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range): vscode.TextEdit[] {
+    // Rows are only reordered when formatting the whole document
+    const startLine = range.start.line;
+    const endLine = range.end.character === 0 && range.end.line > startLine ? range.end.line - 1 : range.end.line;
+    const output = formatRows(this.getLines(document, startLine, endLine));
+
+    // Keep the blank lines between the range and groups just outside it
+    if (output[0]?.startsWith('"GROUP"') && startLine > 0 && document.lineAt(startLine - 1).text.trim()) {
+      output.unshift("");
+    }
+    if (endLine + 1 < document.lineCount && /^"?GROUP"?\s*,/i.test(document.lineAt(endLine + 1).text.trim())) {
+      output.push("");
+    }
+
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+    const formatRange = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    return [vscode.TextEdit.replace(formatRange, output.join(eol))];
+  }
+
+  /**
+   * Text of the lines in a range, inclusive
+   */
+  private getLines(document: vscode.TextDocument, startLine: number, endLine: number): string[] {
+    const lines: string[] = [];
+    for (let i = startLine; i <= endLine; i++) {
+      lines.push(document.lineAt(i).text);
+    }
+    return lines;
+  }
+}
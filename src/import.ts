@@ -0,0 +1,178 @@
+import { GroupJson, LoadedDictionary } from "./dictionary-loader";
+import { ParsedDocument, ParsedGroup } from "./document-model";
+import { formatLine, toFieldValue } from "./ags-tokenizer";
+
+const PRECISION_TYPE_PATTERN = /^\d+(DP|SF|SCI)$/;
+
+const HEADING_PATTERN = /^[A-Z0-9]{4}_[A-Z0-9_]+$/;
+
+/**
+ * Read groups from JSON in the `{GROUP, HEADING, UNIT, TYPE, DATA}` shape, either an
+ * array of groups or a single group. Numbers and nulls in DATA are converted to text.
+ * Throws an Error describing the first problem found.
+ */
+export function readJsonGroups(text: string): GroupJson[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const items = Array.isArray(json) ? json : [json];
+  return items.map((item, index) => {
+    const group = item as Partial<Record<keyof GroupJson, unknown>> | null;
+    const label = `Group ${index + 1}`;
+    if (!group || typeof group !== "object") {
+      throw new Error(`${label} is not an object with GROUP, HEADING and DATA`);
+    }
+    if (typeof group.GROUP !== "string" || !group.GROUP) {
+      throw new Error(`${label} has no GROUP name`);
+    }
+    if (!Array.isArray(group.HEADING) || group.HEADING.length === 0) {
+      throw new Error(`Group ${group.GROUP} has no HEADING list`);
+    }
+
+    const headings = group.HEADING.map(toText);
+    const row = (value: unknown) => headings.map((_, i) => (Array.isArray(value) ? toText(value[i]) : ""));
+    if (group.DATA !== undefined && !Array.isArray(group.DATA)) {
+      throw new Error(`Group ${group.GROUP} has a DATA value that is not a list of rows`);
+    }
+
+    return {
+      GROUP: group.GROUP,
+      HEADING: headings,
+      UNIT: row(group.UNIT),
+      TYPE: row(group.TYPE),
+      DATA: ((group.DATA as unknown[]) ?? []).map(row),
+    };
+  });
+}
+
+function toText(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Whether the second and third rows of a CSV file are UNIT and TYPE rows, as written by
+ * the CSV export: every value in the third row is empty or a known data type.
+ */
+export function hasUnitAndTypeRows(rows: string[][], dict: LoadedDictionary): boolean {
+  const types = rows[2];
+  if (!types || types.every((type) => !type)) return false;
+  return types.every((type) => !type || type in dict.types || PRECISION_TYPE_PATTERN.test(type));
+}
+
+/**
+ * Guess the heading for a CSV column: a dictionary heading's code (in any case), its code
+ * without the group prefix (TOP for GEOL_TOP) or its description, or else a user-defined
+ * heading of the group written as a heading code (GEOL_XYZ).
+ */
+export function matchHeading(column: string, groupName: string, dict: LoadedDictionary): string | undefined {
+  const normalize = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const wanted = normalize(column);
+  if (!wanted) return undefined;
+
+  const codes = (dict.groupHeadings[groupName] ?? []).map((heading) => heading.code);
+  return (
+    codes.find((code) => normalize(code) === wanted) ??
+    codes.find((code) => normalize(code.replace(`${groupName}_`, "")) === wanted) ??
+    codes.find((code) => normalize(dict.headingDetails[code]?.description ?? "") === wanted) ??
+    (HEADING_PATTERN.test(column) && column.startsWith(`${groupName}_`) ? column : undefined)
+  );
+}
+
+/**
+ * Dictionary groups ordered by how many CSV columns match their headings, best first
+ */
+export function rankGroups(columns: string[], dict: LoadedDictionary): Array<{ name: string; matches: number }> {
+  return Object.keys(dict.groups)
+    .map((name) => ({
+      name,
+      matches: columns.filter((column) => matchHeading(column, name, dict) !== undefined).length,
+    }))
+    .sort((a, b) => b.matches - a.matches || a.name.localeCompare(b.name));
+}
+
+/**
+ * Rows to add to a document for imported groups
+ */
+export interface ImportedRows {
+  /** DATA rows to append to groups the file already has */
+  appended: Array<{ group: ParsedGroup; rows: string[] }>;
+  /** Groups the file does not have, as their GROUP, HEADING, UNIT, TYPE and DATA rows */
+  newGroups: string[][];
+  /** Imported headings that existing groups do not have, whose values were left out */
+  skipped: string[];
+}
+
+/**
+ * Rows for adding imported groups to a document. Records of a group the file already
+ * has go under its existing headings; other groups are added at the end of the file,
+ * with UNIT and TYPE rows from the dictionary where the import leaves them blank. A
+ * group imported more than once is merged into one, as a file may not repeat a group
+ * (Rule 13).
+ */
+export function getImportedRows(parsed: ParsedDocument, dict: LoadedDictionary, groups: GroupJson[]): ImportedRows {
+  const imported: ImportedRows = { appended: [], newGroups: [], skipped: [] };
+
+  for (const group of mergeGroups(groups)) {
+    const existing = parsed.groups.get(group.GROUP);
+    const headings = existing ? existing.headings : group.HEADING;
+    const columns = headings.map((heading) => group.HEADING.indexOf(heading));
+    const rows = group.DATA.map((row) =>
+      formatLine(["DATA", ...columns.map((column) => (column >= 0 ? toFieldValue(row[column]) : ""))])
+    );
+
+    if (existing) {
+      imported.appended.push({ group: existing, rows });
+      imported.skipped.push(...group.HEADING.filter((heading) => !existing.headings.includes(heading)));
+      continue;
+    }
+
+    const details = (heading: string) => dict.headingDetails[heading];
+    imported.newGroups.push([
+      formatLine(["GROUP", group.GROUP]),
+      formatLine(["HEADING", ...headings]),
+      formatLine(["UNIT", ...headings.map((heading, i) => group.UNIT[i] || details(heading)?.unit || "")]),
+      formatLine(["TYPE", ...headings.map((heading, i) => group.TYPE[i] || details(heading)?.type || "")]),
+      ...rows,
+    ]);
+  }
+
+  return imported;
+}
+
+/**
+ * Combine groups with the same name, in order of first appearance. The merged group has
+ * every heading of its parts, and each row is blank under the headings its part lacks.
+ */
+function mergeGroups(groups: GroupJson[]): GroupJson[] {
+  const merged = new Map<string, GroupJson>();
+
+  for (const group of groups) {
+    const target = merged.get(group.GROUP);
+    if (!target) {
+      merged.set(group.GROUP, { ...group, HEADING: [...group.HEADING], UNIT: [...group.UNIT], TYPE: [...group.TYPE] });
+      continue;
+    }
+
+    group.HEADING.forEach((heading, i) => {
+      const index = target.HEADING.indexOf(heading);
+      if (index < 0) {
+        target.HEADING.push(heading);
+        target.UNIT.push(group.UNIT[i] ?? "");
+        target.TYPE.push(group.TYPE[i] ?? "");
+      } else {
+        target.UNIT[index] = target.UNIT[index] || (group.UNIT[i] ?? "");
+        target.TYPE[index] = target.TYPE[index] || (group.TYPE[i] ?? "");
+      }
+    });
+    target.DATA = [
+      ...target.DATA,
+      ...group.DATA.map((row) => target.HEADING.map((heading) => row[group.HEADING.indexOf(heading)] ?? "")),
+    ];
+  }
+
+  return Array.from(merged.values());
+}
@@ -0,0 +1,252 @@
+import { LoadedDictionary, describeType } from "./dictionary-loader";
+import { ParsedDocument, ParsedGroup } from "./document-model";
+import { formatLine } from "./ags-tokenizer";
+
+export type ReferenceGroup = "ABBR" | "UNIT" | "TYPE";
+
+// Rule requiring each unit, type and pick-list code to have a record in its reference group
+export const REFERENCE_RULES: Record<ReferenceGroup, string> = {
+  UNIT: "Rule 15",
+  ABBR: "Rule 16",
+  TYPE: "Rule 17",
+};
+
+/**
+ * A unit, type or pick-list code used in the file without a record in its reference group
+ */
+export interface MissingReference {
+  group: ReferenceGroup;
+  code: string;
+  /** Heading the code is used under (ABBR only) */
+  heading?: string;
+  /** First line the code is used on */
+  line: number;
+  /** Field index on that line (0 = row descriptor) */
+  fieldIndex: number;
+}
+
+/**
+ * Codes a file's UNIT, TYPE and ABBR groups define
+ */
+export interface ReferenceCodes {
+  units: Set<string>;
+  types: Set<string>;
+  /** Pick-list codes with their descriptions, by heading */
+  abbreviations: Map<string, Map<string, string>>;
+}
+
+/**
+ * Find units (Rule 15), pick-list codes (Rule 16) and types (Rule 17) used in the
+ * file that have no record in its UNIT, ABBR or TYPE group. Units and types count
+ * both in UNIT and TYPE rows and as DATA values of PU and PT columns. Each code is
+ * reported once.
+ */
+export function findMissingReferences(parsed: ParsedDocument): MissingReference[] {
+  const codes = getReferenceCodes(parsed);
+  const missing: MissingReference[] = [];
+  const reported = new Set<string>();
+
+  for (const group of parsed.groupList) {
+    for (const reference of findGroupMissingReferences(group, codes)) {
+      const key = getReferenceKey(reference);
+      if (reported.has(key)) continue;
+      reported.add(key);
+      missing.push(reference);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Units, types and pick-list codes used in one group without a record in the file's
+ * reference groups, each code at its first use in the group
+ */
+export function findGroupMissingReferences(group: ParsedGroup, codes: ReferenceCodes): MissingReference[] {
+  const missing: MissingReference[] = [];
+  const reported = new Set<string>();
+
+  const report = (reference: MissingReference) => {
+    const key = getReferenceKey(reference);
+    if (reported.has(key)) return;
+    reported.add(key);
+    missing.push(reference);
+  };
+
+  group.units.forEach((unit, index) => {
+    if (unit && !codes.units.has(unit) && group.unitLine !== undefined) {
+      report({ group: "UNIT", code: unit, line: group.unitLine, fieldIndex: index + 1 });
+    }
+  });
+
+  group.types.forEach((type, index) => {
+    if (type && !codes.types.has(type) && group.typeLine !== undefined) {
+      report({ group: "TYPE", code: type, line: group.typeLine, fieldIndex: index + 1 });
+    }
+  });
+
+  group.types.forEach((type, index) => {
+    // Pick units and pick types name a UNIT or TYPE record in each DATA row
+    const pickGroup = type === "PU" ? "UNIT" : type === "PT" ? "TYPE" : undefined;
+    if (!pickGroup) return;
+    const defined = pickGroup === "UNIT" ? codes.units : codes.types;
+
+    group.data.forEach((row, rowIndex) => {
+      const code = row[index] ?? "";
+      if (code && !defined.has(code)) {
+        report({ group: pickGroup, code, line: group.dataLines[rowIndex], fieldIndex: index + 1 });
+      }
+    });
+  });
+
+  group.types.forEach((type, index) => {
+    if (type !== "PA") return;
+    const heading = group.headings[index];
+    if (!heading) return;
+
+    group.data.forEach((row, rowIndex) => {
+      // Several codes can be combined with "+"
+      for (const code of (row[index] ?? "").split("+")) {
+        if (code && !codes.abbreviations.get(heading)?.has(code)) {
+          report({ group: "ABBR", code, heading, line: group.dataLines[rowIndex], fieldIndex: index + 1 });
+        }
+      }
+    });
+  });
+
+  return missing;
+}
+
+/**
+ * Units, types and pick-list codes defined in a file's UNIT, TYPE and ABBR groups
+ */
+export function getReferenceCodes(parsed: ParsedDocument): ReferenceCodes {
+  return {
+    units: getColumnValues(parsed.groups.get("UNIT"), "UNIT_UNIT"),
+    types: getColumnValues(parsed.groups.get("TYPE"), "TYPE_TYPE"),
+    abbreviations: getFileAbbreviations(parsed),
+  };
+}
+
+/**
+ * Rows to add to a document for missing references
+ */
+export interface ReferenceRows {
+  /** DATA rows to append to reference groups the file already has */
+  appended: Array<{ group: ParsedGroup; rows: string[] }>;
+  /** Reference groups the file does not have, as their GROUP, HEADING, UNIT, TYPE and DATA rows */
+  newGroups: string[][];
+}
+
+/**
+ * Records for missing references in their UNIT, TYPE and ABBR groups, including any
+ * group the file does not have yet. Descriptions come from the dictionary.
+ */
+export function getReferenceRows(
+  parsed: ParsedDocument,
+  dict: LoadedDictionary,
+  references: MissingReference[]
+): ReferenceRows {
+  const referenceRows: ReferenceRows = { appended: [], newGroups: [] };
+
+  for (const groupName of ["UNIT", "TYPE", "ABBR"] as ReferenceGroup[]) {
+    const seen = new Set<string>();
+    const records = references.filter((reference) => {
+      const key = getReferenceKey(reference);
+      if (reference.group !== groupName || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (records.length === 0) continue;
+
+    const group = parsed.groups.get(groupName);
+    const headings = group ? group.headings : (dict.groupHeadings[groupName] ?? []).map((h) => h.code);
+    const rows = records.map((record) =>
+      formatLine(["DATA", ...headings.map((heading) => getRecordValue(dict, record, heading))])
+    );
+
+    if (group) {
+      referenceRows.appended.push({ group, rows });
+    } else {
+      referenceRows.newGroups.push([
+        formatLine(["GROUP", groupName]),
+        formatLine(["HEADING", ...headings]),
+        formatLine(["UNIT", ...headings.map((heading) => dict.headingDetails[heading]?.unit ?? "")]),
+        formatLine(["TYPE", ...headings.map((heading) => dict.headingDetails[heading]?.type ?? "")]),
+        ...rows,
+      ]);
+    }
+  }
+
+  return referenceRows;
+}
+
+/**
+ * What a missing reference is reported once for: a code in its reference group, and
+ * for pick-list codes the heading it is used under
+ */
+export function getReferenceKey(reference: MissingReference): string {
+  return `${reference.group}\u0000${reference.heading ?? ""}\u0000${reference.code}`;
+}
+
+function getRecordValue(dict: LoadedDictionary, record: MissingReference, heading: string): string {
+  switch (heading) {
+    case "UNIT_UNIT":
+    case "TYPE_TYPE":
+    case "ABBR_CODE":
+      return record.code;
+    case "ABBR_HDNG":
+      return record.heading ?? "";
+    case "UNIT_DESC":
+      return dict.units[record.code] ?? "";
+    case "TYPE_DESC":
+      return describeType(dict, record.code) ?? "";
+    case "ABBR_DESC":
+      return dict.abbreviations[record.heading ?? ""]?.[record.code] ?? "";
+  }
+  return "";
+}
+
+function getColumnValues(group: ParsedGroup | undefined, heading: string): Set<string> {
+  const values = new Set<string>();
+  const index = group ? group.headings.indexOf(heading) : -1;
+  if (!group || index < 0) return values;
+
+  for (const row of group.data) {
+    if (row[index]) {
+      values.add(row[index]);
+    }
+  }
+  return values;
+}
+
+/**
+ * Pick-list codes defined in a file's ABBR group, with their descriptions, by heading.
+ * A code listed twice keeps its first description.
+ */
+export function getFileAbbreviations(parsed: ParsedDocument): Map<string, Map<string, string>> {
+  const abbreviations = new Map<string, Map<string, string>>();
+  const group = parsed.groups.get("ABBR");
+  if (!group) return abbreviations;
+
+  const headingIndex = group.headings.indexOf("ABBR_HDNG");
+  const codeIndex = group.headings.indexOf("ABBR_CODE");
+  const descIndex = group.headings.indexOf("ABBR_DESC");
+  if (headingIndex < 0 || codeIndex < 0) return abbreviations;
+
+  for (const row of group.data) {
+    const heading = row[headingIndex];
+    const code = row[codeIndex];
+    if (!heading || !code) continue;
+
+    let codes = abbreviations.get(heading);
+    if (!codes) {
+      codes = new Map<string, string>();
+      abbreviations.set(heading, codes);
+    }
+    if (!codes.has(code)) {
+      codes.set(code, descIndex >= 0 ? row[descIndex] ?? "" : "");
+    }
+  }
+  return abbreviations;
+}
@@ -0,0 +1,839 @@
+import { AGSField, tokenizeLine } from "./ags-tokenizer";
+import { LoadedDictionary } from "./dictionary-loader";
+import { ParsedDocument, ParsedGroup } from "./document-model";
+import { checkValue } from "./type-formats";
+import { DepthValue, findGroupDepthProblems, getFinalDepths } from "./depth-checks";
+import {
+  MissingReference,
+  REFERENCE_RULES,
+  ReferenceCodes,
+  findGroupMissingReferences,
+  getReferenceCodes,
+  getReferenceKey,
+} from "./reference-records";
+
+type RowDescriptor = "GROUP" | "HEADING" | "UNIT" | "TYPE" | "DATA";
+
+const ROW_DESCRIPTORS: RowDescriptor[] = ["GROUP", "HEADING", "UNIT", "TYPE", "DATA"];
+
+// Groups every AGS4 file must contain, with the rule that requires them
+const REQUIRED_GROUPS: Array<{ name: string; rule: string }> = [
+  { name: "PROJ", rule: "Rule 13" },
+  { name: "TRAN", rule: "Rule 14" },
+  { name: "UNIT", rule: "Rule 15" },
+  { name: "TYPE", rule: "Rule 17" },
+];
+
+// Row descriptors allowed directly before each row type within a group
+const ALLOWED_PREVIOUS: Record<RowDescriptor, Array<RowDescriptor | undefined>> = {
+  GROUP: [undefined, "GROUP", "TYPE", "DATA"],
+  HEADING: ["GROUP"],
+  UNIT: ["HEADING"],
+  TYPE: ["UNIT"],
+  DATA: ["TYPE", "DATA"],
+};
+
+// Report at most this many badly formatted or empty required values per column, then summarise the rest
+const MAX_VALUE_DIAGNOSTICS_PER_COLUMN = 100;
+
+// Separator for joining key field values; cannot occur in an AGS field
+const KEY_SEPARATOR = "\u0000";
+
+export type ProblemSeverity = "error" | "warning" | "information";
+
+/**
+ * A row or field that breaks an AGS rule
+ */
+export interface RuleProblem {
+  line: number;
+  /** Character range on the line */
+  start: number;
+  end: number;
+  message: string;
+  severity: ProblemSeverity;
+  /** Rule broken, e.g. "Rule 4" */
+  rule?: string;
+  /** Another row the problem refers to, e.g. the first row with a duplicated key */
+  related?: { line: number; message: string };
+}
+
+/**
+ * The lines of a document, as a vscode.TextDocument gives them
+ */
+export interface DocumentLines {
+  lineCount: number;
+  lineAt(line: number): { text: string };
+}
+
+/**
+ * User-defined groups and headings declared in a file's own DICT group
+ */
+export interface FileDefinitions {
+  groups: Set<string>;
+  headings: Map<string, Set<string>>;
+  keys: Map<string, string[]>;
+  parents: Map<string, string>;
+}
+
+/**
+ * Collect user-defined groups and headings declared in the file's own DICT group
+ */
+export function getFileDefinitions(parsed: ParsedDocument): FileDefinitions {
+  const groups = new Set<string>();
+  const headings = new Map<string, Set<string>>();
+  const keys = new Map<string, string[]>();
+  const parents = new Map<string, string>();
+  const dictGroup = parsed.groups.get("DICT");
+
+  if (dictGroup) {
+    const typeIdx = dictGroup.headings.indexOf("DICT_TYPE");
+    const grpIdx = dictGroup.headings.indexOf("DICT_GRP");
+    const hdngIdx = dictGroup.headings.indexOf("DICT_HDNG");
+    const statIdx = dictGroup.headings.indexOf("DICT_STAT");
+    const pgrpIdx = dictGroup.headings.indexOf("DICT_PGRP");
+
+    for (const row of dictGroup.data) {
+      const groupCode = row[grpIdx];
+      if (!groupCode) continue;
+
+      if (row[typeIdx] === "GROUP") {
+        groups.add(groupCode);
+        if (pgrpIdx >= 0 && row[pgrpIdx]) {
+          parents.set(groupCode, row[pgrpIdx]);
+        }
+      } else if (row[typeIdx] === "HEADING" && row[hdngIdx]) {
+        let groupHeadings = headings.get(groupCode);
+        if (!groupHeadings) {
+          groupHeadings = new Set<string>();
+          headings.set(groupCode, groupHeadings);
+        }
+        groupHeadings.add(row[hdngIdx]);
+
+        if (statIdx >= 0 && (row[statIdx] || "").includes("KEY")) {
+          keys.set(groupCode, [...(keys.get(groupCode) ?? []), row[hdngIdx]]);
+        }
+      }
+    }
+  }
+
+  return { groups, headings, keys, parents };
+}
+
+/**
+ * Key headings of a group from the dictionary, or from the file's DICT group for user-defined groups
+ */
+export function getKeyHeadings(
+  groupName: string,
+  dict: { groupHeadings: Record<string, Array<{ code: string; status: string }>> },
+  fileDefinitions: FileDefinitions
+): string[] {
+  const standard = dict.groupHeadings[groupName];
+  if (standard) {
+    return standard.filter((h) => h.status.includes("KEY")).map((h) => h.code);
+  }
+  return fileDefinitions.keys.get(groupName) ?? [];
+}
+
+/**
+ * Parent group of a standard group from the dictionary, or of a user-defined group from
+ * the file's DICT group; undefined when the group has none
+ */
+export function getParentGroup(
+  groupName: string,
+  dict: { parentGroups: Record<string, string> },
+  fileDefinitions: FileDefinitions
+): string | undefined {
+  const parentName = dict.parentGroups[groupName] ?? fileDefinitions.parents.get(groupName);
+  return parentName && parentName !== "-" ? parentName : undefined;
+}
+
+/**
+ * Key headings a group shares with its parent group, e.g. LOCA_ID in GEOL. These tie a
+ * record to its parent record, while the group's other keys tell its records apart.
+ */
+export function getParentKeyHeadings(
+  groupName: string,
+  headings: string[],
+  dict: { groupHeadings: Record<string, Array<{ code: string; status: string }>>; parentGroups: Record<string, string> },
+  fileDefinitions: FileDefinitions
+): string[] {
+  const parentName = getParentGroup(groupName, dict, fileDefinitions);
+  if (!parentName) return [];
+  return getKeyHeadings(parentName, dict, fileDefinitions).filter((key) => headings.includes(key));
+}
+
+/**
+ * Where the row checks stand at a line: the last row descriptor, the group it is in
+ * and the field count of its HEADING row (-1 before one)
+ */
+interface RowState {
+  previous: RowDescriptor | undefined;
+  group: string | undefined;
+  headingCount: number;
+}
+
+const START_STATE: RowState = { previous: undefined, group: undefined, headingCount: -1 };
+
+/**
+ * Results of the row checks over a range of lines
+ */
+interface LineChecks {
+  /** State the checks started from, which they depend on */
+  start: RowState;
+  end: RowState;
+  problems: RuleProblem[];
+  /** GROUP rows and their group names, for finding repeated groups */
+  groupRows: Array<{ line: number; end: number; name: string }>;
+}
+
+/**
+ * Checks of one group, with the lines relative to its GROUP row so that they stay
+ * valid when edits above the group move it
+ */
+interface GroupEntry {
+  /** DATA rows checked; the document model replaces a row when it is edited */
+  rows: string[][];
+  /** Lines from the GROUP row to the last line of the group */
+  size: number;
+  lines?: LineChecks;
+  /** Checks of the group's headings and values against the dictionary */
+  rules?: RuleProblem[];
+  references?: { codes: ReferenceCodes; missing: Array<{ reference: MissingReference; problem: RuleProblem }> };
+  depths?: { source: GroupSnapshot; problems: RuleProblem[] };
+  /** Child records checked against the parent group, which edits may move separately */
+  parent?: { source: GroupSnapshot; problems: RuleProblem[] };
+}
+
+/**
+ * A group as it was when checks that depend on it ran
+ */
+interface GroupSnapshot {
+  group: ParsedGroup | undefined;
+  rows: string[][];
+}
+
+/**
+ * Checks of a document against the AGS rules and the dictionary. The results of each
+ * group are kept, so after an edit only the groups the document model reparsed or
+ * whose DATA rows changed are checked again, along with the checks across groups
+ * that depend on them.
+ */
+export class AGSRuleChecker {
+  private entries = new WeakMap<ParsedGroup, GroupEntry>();
+  private dict: LoadedDictionary | undefined;
+  private dictGroup: GroupSnapshot = { group: undefined, rows: [] };
+  private fileDefinitions: FileDefinitions | undefined;
+  private referenceGroups: GroupSnapshot[] = [];
+  private referenceCodes: ReferenceCodes | undefined;
+
+  /**
+   * Check a document, given its parsed model and dictionary
+   */
+  public check(document: DocumentLines, parsed: ParsedDocument, dict: LoadedDictionary): RuleProblem[] {
+    const lines = new TokenizedLines(document);
+    const fileDefinitions = this.getFileDefinitions(parsed, dict);
+    const referenceCodes = this.getReferenceCodes(parsed);
+    const loca = snapshot(parsed.groups.get("LOCA"));
+    let finalDepths: Map<string, DepthValue> | undefined;
+
+    const problems: RuleProblem[] = [];
+    const groupRows: LineChecks["groupRows"] = [];
+    const missing: MissingReference[] = [];
+    const missingProblems: RuleProblem[] = [];
+
+    // Rows before the first GROUP row
+    const list = parsed.groupList;
+    const preamble = checkLines(lines, 0, list.length > 0 ? list[0].line - 1 : document.lineCount - 1, START_STATE);
+    problems.push(...preamble.problems);
+    groupRows.push(...preamble.groupRows);
+    let state = preamble.end;
+
+    for (const group of list) {
+      const entry = this.getEntry(group);
+      const offset = group.line;
+
+      if (!entry.lines || !sameState(entry.lines.start, state)) {
+        entry.lines = moveLineChecks(checkLines(lines, group.line, group.endLine, state), -offset);
+      }
+      problems.push(...moveProblems(entry.lines.problems, offset));
+      groupRows.push(...entry.lines.groupRows.map((row) => ({ ...row, line: row.line + offset })));
+      state = entry.lines.end;
+
+      if (!entry.references || entry.references.codes !== referenceCodes) {
+        entry.references = {
+          codes: referenceCodes,
+          missing: findGroupMissingReferences(group, referenceCodes).map((reference) => ({
+            reference: { ...reference, line: reference.line - offset },
+            problem: moveProblem(getReferenceProblem(lines, reference), -offset),
+          })),
+        };
+      }
+      for (const { reference, problem } of entry.references.missing) {
+        missing.push({ ...reference, line: reference.line + offset });
+        missingProblems.push(moveProblem(problem, offset));
+      }
+
+      // Only the last of a repeated group is checked as the group, as for lookups by name
+      const isNamed = parsed.groups.get(group.name) === group;
+
+      if (group.name !== "GEOL" || isNamed) {
+        if (!entry.depths || !sameSnapshot(entry.depths.source, loca)) {
+          finalDepths = finalDepths ?? getFinalDepths(loca.group);
+          entry.depths = {
+            source: loca,
+            problems: findGroupDepthProblems(group, finalDepths).map((problem) =>
+              moveProblem(lines.fieldProblem(problem.line, problem.fieldIndex, problem.message, "warning"), -offset)
+            ),
+          };
+        }
+        problems.push(...moveProblems(entry.depths.problems, offset));
+      }
+
+      if (!isNamed) continue;
+
+      if (!entry.rules) {
+        entry.rules = moveProblems(checkGroup(lines, group, dict, fileDefinitions), -offset);
+      }
+      problems.push(...moveProblems(entry.rules, offset));
+
+      const parentName = getParentGroup(group.name, dict, fileDefinitions);
+      if (parentName) {
+        const parent = snapshot(parsed.groups.get(parentName));
+        if (!entry.parent || !sameSnapshot(entry.parent.source, parent)) {
+          entry.parent = {
+            source: parent,
+            problems: moveProblems(checkParent(lines, group, parentName, parent.group, dict, fileDefinitions), -offset),
+          };
+        }
+        problems.push(...moveProblems(entry.parent.problems, offset, parent.group?.line));
+      }
+    }
+
+    problems.push(...findRepeatedGroups(groupRows));
+
+    for (const { name, rule } of REQUIRED_GROUPS) {
+      if (!parsed.groups.has(name)) {
+        problems.push({ line: 0, start: 0, end: 0, message: `Required group ${name} is missing`, severity: "error", rule });
+      }
+    }
+
+    // Each code once, at its first use in the file
+    const reported = new Set<string>();
+    missing.forEach((reference, i) => {
+      const key = getReferenceKey(reference);
+      if (reported.has(key)) return;
+      reported.add(key);
+
+      // A missing UNIT or TYPE group is already reported as a required group
+      if (reference.group !== "ABBR" && !parsed.groups.has(reference.group)) return;
+      problems.push(missingProblems[i]);
+    });
+
+    return problems;
+  }
+
+  /**
+   * Checks kept for a group, starting afresh for a group the model reparsed or whose rows changed
+   */
+  private getEntry(group: ParsedGroup): GroupEntry {
+    const size = group.endLine - group.line;
+    let entry = this.entries.get(group);
+
+    if (!entry || entry.size !== size || !sameRows(entry.rows, group.data)) {
+      entry = { rows: group.data.slice(), size };
+      this.entries.set(group, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * The file's own definitions, checking every group again when the dictionary or the
+   * DICT group they are checked against changes
+   */
+  private getFileDefinitions(parsed: ParsedDocument, dict: LoadedDictionary): FileDefinitions {
+    const dictGroup = snapshot(parsed.groups.get("DICT"));
+    if (!this.fileDefinitions || this.dict !== dict || !sameSnapshot(this.dictGroup, dictGroup)) {
+      this.entries = new WeakMap();
+      this.dict = dict;
+      this.dictGroup = dictGroup;
+      this.fileDefinitions = getFileDefinitions(parsed);
+    }
+    return this.fileDefinitions;
+  }
+
+  /**
+   * Codes of the UNIT, TYPE and ABBR groups, rebuilt when one of them changes
+   */
+  private getReferenceCodes(parsed: ParsedDocument): ReferenceCodes {
+    const groups = ["UNIT", "TYPE", "ABBR"].map((name) => snapshot(parsed.groups.get(name)));
+    if (!this.referenceCodes || !groups.every((group, i) => sameSnapshot(group, this.referenceGroups[i]))) {
+      this.referenceGroups = groups;
+      this.referenceCodes = getReferenceCodes(parsed);
+    }
+    return this.referenceCodes;
+  }
+}
+
+/**
+ * Line-by-line checks: descriptors, row order, quoting and field counts
+ */
+function checkLines(lines: TokenizedLines, startLine: number, endLine: number, start: RowState): LineChecks {
+  const problems: RuleProblem[] = [];
+  const groupRows: LineChecks["groupRows"] = [];
+  let { previous, group: currentGroup, headingCount } = start;
+
+  for (let i = startLine; i <= endLine; i++) {
+    const line = lines.text(i);
+    if (!line.trim()) continue;
+
+    const lineProblem = (message: string, rule: string) =>
+      problems.push({ line: i, start: 0, end: line.length, message, severity: "error", rule });
+
+    const nonAscii = line.search(/[^\x00-\x7F]/);
+    if (nonAscii >= 0) {
+      problems.push({
+        line: i,
+        start: nonAscii,
+        end: nonAscii + 1,
+        message: "Non-ASCII character; AGS files may only contain ASCII characters",
+        severity: "warning",
+        rule: "Rule 1",
+      });
+    }
+
+    const tokens = lines.tokens(i);
+    for (const token of tokens) {
+      const unterminated = token.quoted && token.contentEnd === line.length;
+      const padded = token.contentStart !== token.start + 1 || token.end !== token.contentEnd + 1;
+      if (!token.quoted || unterminated || padded) {
+        problems.push({
+          line: i,
+          start: token.start,
+          end: Math.max(token.end, token.start + 1),
+          message: "All fields must be enclosed in double quotes",
+          severity: "error",
+          rule: "Rule 5",
+        });
+      }
+    }
+
+    const fields = tokens.map((token) => token.value);
+    const descriptor = fields[0] as RowDescriptor | undefined;
+
+    if (!descriptor || !ROW_DESCRIPTORS.includes(descriptor)) {
+      lineProblem(`Unknown data descriptor "${fields[0] ?? ""}"; expected GROUP, HEADING, UNIT, TYPE or DATA`, "Rule 3");
+      continue;
+    }
+
+    if (!ALLOWED_PREVIOUS[descriptor].includes(previous)) {
+      const { message, rule } = describeOrderProblem(descriptor, previous, currentGroup);
+      lineProblem(message, rule);
+    }
+    previous = descriptor;
+
+    if (descriptor === "GROUP") {
+      currentGroup = fields[1];
+      headingCount = -1;
+
+      if (fields.length !== 2) {
+        lineProblem("GROUP row must contain exactly one group name", "Rule 4");
+      }
+      if (currentGroup) {
+        groupRows.push({ line: i, end: line.length, name: currentGroup });
+      }
+      continue;
+    }
+
+    if (descriptor === "HEADING") {
+      headingCount = fields.length;
+      continue;
+    }
+
+    if (headingCount >= 0 && fields.length !== headingCount) {
+      lineProblem(`${descriptor} row has ${fields.length - 1} fields but the HEADING row has ${headingCount - 1}`, "Rule 4");
+    }
+  }
+
+  return { start, end: { previous, group: currentGroup, headingCount }, problems, groupRows };
+}
+
+function describeOrderProblem(
+  descriptor: RowDescriptor,
+  previous: RowDescriptor | undefined,
+  groupName: string | undefined
+): { message: string; rule: string } {
+  const group = groupName ? ` in group ${groupName}` : "";
+
+  // Name the missing header row where the sequence makes it obvious
+  if (descriptor === "TYPE" && previous === "HEADING") {
+    return { message: `Missing UNIT row${group}`, rule: "Rule 2b" };
+  }
+  if ((descriptor === "DATA" || descriptor === "GROUP") && previous === "UNIT") {
+    return { message: `Missing TYPE row${group}`, rule: "Rule 2b" };
+  }
+  if ((descriptor === "DATA" || descriptor === "GROUP") && previous === "HEADING") {
+    return { message: `Missing UNIT and TYPE rows${group}`, rule: "Rule 2b" };
+  }
+  if (previous === undefined) {
+    return { message: `${descriptor} row found before any GROUP row`, rule: "Rule 2" };
+  }
+
+  const expected = ROW_DESCRIPTORS.filter((d) => ALLOWED_PREVIOUS[d].includes(previous) && d !== "GROUP");
+  return {
+    message: `${descriptor} row cannot follow a ${previous} row${group}; expected ${expected.join(" or ") || "GROUP"}`,
+    rule: "Rule 2",
+  };
+}
+
+/**
+ * A group may appear only once in a file
+ */
+function findRepeatedGroups(groupRows: LineChecks["groupRows"]): RuleProblem[] {
+  const problems: RuleProblem[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, end, name } of groupRows) {
+    if (seen.has(name)) {
+      problems.push({ line, start: 0, end, message: `Group ${name} appears more than once in the file`, severity: "error" });
+    }
+    seen.add(name);
+  }
+  return problems;
+}
+
+/**
+ * Checks of a group's name, headings and values against the dictionary, and of the
+ * uniqueness of its keys
+ */
+function checkGroup(
+  lines: TokenizedLines,
+  group: ParsedGroup,
+  dict: LoadedDictionary,
+  fileDefinitions: FileDefinitions
+): RuleProblem[] {
+  const problems: RuleProblem[] = [];
+  const name = group.name;
+  const groupProblem = (message: string, severity: ProblemSeverity, rule: string) =>
+    problems.push(lines.fieldProblem(group.line, 1, message, severity, rule));
+
+  if (!/^[A-Z0-9]{4}$/.test(name)) {
+    groupProblem(`Group name ${name} must be 4 uppercase letters or digits`, "error", "Rule 19");
+  }
+
+  if (dict.groups[name] === undefined && !fileDefinitions.groups.has(name)) {
+    groupProblem(`Group ${name} is not in the AGS dictionary and is not defined in the DICT group`, "warning", "Rule 9");
+  }
+
+  if (group.headingLine < 0) {
+    groupProblem(`Group ${name} has no HEADING row`, "error", "Rule 2");
+    return problems;
+  }
+
+  problems.push(...checkHeadings(lines, group, dict.groupHeadings[name] ?? [], fileDefinitions.headings.get(name)));
+  problems.push(...checkValues(lines, group));
+  problems.push(...checkKeys(lines, group, getKeyHeadings(name, dict, fileDefinitions)));
+  return problems;
+}
+
+function checkHeadings(
+  lines: TokenizedLines,
+  group: ParsedGroup,
+  standardHeadings: Array<{ code: string; status: string }>,
+  fileHeadings: Set<string> | undefined
+): RuleProblem[] {
+  const problems: RuleProblem[] = [];
+  const standardCodes = new Set(standardHeadings.map((h) => h.code));
+  const seen = new Set<string>();
+
+  group.headings.forEach((heading, index) => {
+    const headingProblem = (message: string, severity: ProblemSeverity, rule: string) =>
+      problems.push(lines.fieldProblem(group.headingLine, index + 1, message, severity, rule));
+
+    if (seen.has(heading)) {
+      headingProblem(`Heading ${heading} is repeated in group ${group.name}`, "error", "Rule 2c");
+    }
+    seen.add(heading);
+
+    if (!/^[A-Z0-9]{4}_[A-Z0-9]{1,4}$/.test(heading)) {
+      headingProblem(
+        `Heading ${heading} must be a 4 character group prefix, an underscore and up to 4 uppercase letters or digits`,
+        "error",
+        "Rule 19a"
+      );
+    }
+
+    if (!standardCodes.has(heading) && !fileHeadings?.has(heading)) {
+      headingProblem(
+        `Heading ${heading} is not in the AGS dictionary for group ${group.name} and is not defined in the DICT group`,
+        "warning",
+        "Rule 9"
+      );
+    }
+  });
+
+  // Key and required headings must be present, and required values must not be empty
+  for (const { code, status } of standardHeadings) {
+    const isKey = status.includes("KEY");
+    const isRequired = status.includes("REQUIRED");
+    if (!isKey && !isRequired) continue;
+
+    const columnIndex = group.headings.indexOf(code);
+    if (columnIndex < 0) {
+      problems.push({
+        line: group.headingLine,
+        start: 0,
+        end: lines.text(group.headingLine).length,
+        message: `${isKey ? "Key" : "Required"} heading ${code} is missing from group ${group.name}`,
+        severity: "error",
+        rule: isKey ? "Rule 10a" : "Rule 10b",
+      });
+      continue;
+    }
+
+    if (!isRequired) continue;
+
+    let count = 0;
+    group.data.forEach((row, rowIndex) => {
+      if (row[columnIndex]) return;
+
+      count++;
+      if (count > MAX_VALUE_DIAGNOSTICS_PER_COLUMN) return;
+      problems.push(
+        lines.fieldProblem(group.dataLines[rowIndex], columnIndex + 1, `Required field ${code} is empty`, "error", "Rule 10b")
+      );
+    });
+
+    if (count > MAX_VALUE_DIAGNOSTICS_PER_COLUMN) {
+      problems.push(
+        lines.fieldProblem(
+          group.headingLine,
+          columnIndex + 1,
+          `${count - MAX_VALUE_DIAGNOSTICS_PER_COLUMN} more rows have an empty ${code}`,
+          "error",
+          "Rule 10b"
+        )
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * DATA values must match the format declared in the column's TYPE (and UNIT for dates)
+ */
+function checkValues(lines: TokenizedLines, group: ParsedGroup): RuleProblem[] {
+  const problems: RuleProblem[] = [];
+
+  group.types.forEach((type, columnIndex) => {
+    const unit = group.units[columnIndex] ?? "";
+    let count = 0;
+
+    group.data.forEach((row, rowIndex) => {
+      const problem = checkValue(type, unit, row[columnIndex] ?? "");
+      if (!problem) return;
+
+      count++;
+      if (count > MAX_VALUE_DIAGNOSTICS_PER_COLUMN) return;
+      problems.push(lines.fieldProblem(group.dataLines[rowIndex], columnIndex + 1, problem, "error", "Rule 8"));
+    });
+
+    if (count > MAX_VALUE_DIAGNOSTICS_PER_COLUMN && group.typeLine !== undefined) {
+      problems.push(
+        lines.fieldProblem(
+          group.typeLine,
+          columnIndex + 1,
+          `${count - MAX_VALUE_DIAGNOSTICS_PER_COLUMN} more values in ${group.headings[columnIndex] ?? `column ${columnIndex + 1}`} do not match type ${type}`,
+          "error",
+          "Rule 8"
+        )
+      );
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Key fields must be unique within a group
+ */
+function checkKeys(lines: TokenizedLines, group: ParsedGroup, keyHeadings: string[]): RuleProblem[] {
+  const problems: RuleProblem[] = [];
+  const keyIndices = keyHeadings.map((heading) => group.headings.indexOf(heading)).filter((index) => index >= 0);
+  if (keyIndices.length === 0) return problems;
+
+  const seen = new Map<string, number>();
+  group.data.forEach((row, rowIndex) => {
+    const values = keyIndices.map((index) => row[index] ?? "");
+    if (values.every((value) => !value)) return;
+
+    const key = values.join(KEY_SEPARATOR);
+    const firstIndex = seen.get(key);
+    if (firstIndex === undefined) {
+      seen.set(key, rowIndex);
+      return;
+    }
+
+    const problem = lines.fieldProblem(
+      group.dataLines[rowIndex],
+      keyIndices[0] + 1,
+      `Duplicate key in group ${group.name}: ${describeKey(group, keyIndices, values)}`,
+      "error",
+      "Rule 10a"
+    );
+    problem.related = { line: group.dataLines[firstIndex], message: "First row with this key" };
+    problems.push(problem);
+  });
+
+  return problems;
+}
+
+/**
+ * Every child row must have a parent row
+ */
+function checkParent(
+  lines: TokenizedLines,
+  group: ParsedGroup,
+  parentName: string,
+  parent: ParsedGroup | undefined,
+  dict: LoadedDictionary,
+  fileDefinitions: FileDefinitions
+): RuleProblem[] {
+  const problems: RuleProblem[] = [];
+  if (group.data.length === 0) return problems;
+
+  if (!parent) {
+    // Missing required groups such as PROJ are already reported
+    if (!REQUIRED_GROUPS.some((required) => required.name === parentName)) {
+      problems.push(
+        lines.fieldProblem(group.line, 1, `Group ${group.name} has data but its parent group ${parentName} is missing`, "error", "Rule 10c")
+      );
+    }
+    return problems;
+  }
+
+  // Match on the parent's key fields that the child group also has
+  const parentKeys = getKeyHeadings(parentName, dict, fileDefinitions).filter(
+    (heading) => group.headings.includes(heading) && parent.headings.includes(heading)
+  );
+  if (parentKeys.length === 0) return problems;
+
+  const parentIndices = parentKeys.map((heading) => parent.headings.indexOf(heading));
+  const childIndices = parentKeys.map((heading) => group.headings.indexOf(heading));
+  const parentRecords = new Set(parent.data.map((row) => parentIndices.map((index) => row[index] ?? "").join(KEY_SEPARATOR)));
+
+  group.data.forEach((row, rowIndex) => {
+    const values = childIndices.map((index) => row[index] ?? "");
+    if (values.every((value) => !value)) return;
+    if (parentRecords.has(values.join(KEY_SEPARATOR))) return;
+
+    const problem = lines.fieldProblem(
+      group.dataLines[rowIndex],
+      childIndices[0] + 1,
+      `No ${parentName} record for ${describeKey(group, childIndices, values)}`,
+      "error",
+      "Rule 10c"
+    );
+    problem.related = { line: parent.line, message: `Parent group ${parentName}` };
+    problems.push(problem);
+  });
+
+  return problems;
+}
+
+function describeKey(group: ParsedGroup, indices: number[], values: string[]): string {
+  return indices.map((index, i) => `${group.headings[index]}=${values[i]}`).join(", ");
+}
+
+/**
+ * Units, types and pick-list codes must be listed in the file's UNIT, TYPE and ABBR groups
+ */
+function getReferenceProblem(lines: TokenizedLines, reference: MissingReference): RuleProblem {
+  const message =
+    reference.group === "ABBR"
+      ? `Code ${reference.code} used in ${reference.heading} is not defined in the ABBR group`
+      : `${reference.group === "UNIT" ? "Unit" : "Type"} ${reference.code} is not defined in the ${reference.group} group`;
+  return lines.fieldProblem(reference.line, reference.fieldIndex, message, "error", REFERENCE_RULES[reference.group]);
+}
+
+/**
+ * Lines of the document being checked, each tokenized at most once per check
+ */
+class TokenizedLines {
+  private document: DocumentLines;
+  private fields = new Map<number, AGSField[]>();
+
+  constructor(document: DocumentLines) {
+    this.document = document;
+  }
+
+  public text(line: number): string {
+    return this.document.lineAt(line).text;
+  }
+
+  public tokens(line: number): AGSField[] {
+    let fields = this.fields.get(line);
+    if (!fields) {
+      fields = tokenizeLine(this.text(line));
+      this.fields.set(line, fields);
+    }
+    return fields;
+  }
+
+  /**
+   * A problem on a field's content (0 = row descriptor), or on the whole line if the row has no such field
+   */
+  public fieldProblem(
+    line: number,
+    fieldIndex: number,
+    message: string,
+    severity: ProblemSeverity,
+    rule?: string
+  ): RuleProblem {
+    const field = this.tokens(line)[fieldIndex];
+    const start = field ? field.contentStart : 0;
+    const end = field ? field.contentEnd : this.text(line).length;
+    return { line, start, end, message, severity, rule };
+  }
+}
+
+/**
+ * Move problems by a number of lines; related lines move by their own offset if given
+ */
+function moveProblems(problems: RuleProblem[], delta: number, relatedLine?: number): RuleProblem[] {
+  return problems.map((problem) => moveProblem(problem, delta, relatedLine));
+}
+
+function moveProblem(problem: RuleProblem, delta: number, relatedLine?: number): RuleProblem {
+  if (delta === 0 && relatedLine === undefined) return problem;
+
+  const moved = { ...problem, line: problem.line + delta };
+  if (problem.related) {
+    moved.related = { ...problem.related, line: relatedLine ?? problem.related.line + delta };
+  }
+  return moved;
+}
+
+function moveLineChecks(checks: LineChecks, delta: number): LineChecks {
+  return {
+    ...checks,
+    problems: moveProblems(checks.problems, delta),
+    groupRows: checks.groupRows.map((row) => ({ ...row, line: row.line + delta })),
+  };
+}
+
+function snapshot(group: ParsedGroup | undefined): GroupSnapshot {
+  return { group, rows: group ? group.data.slice() : [] };
+}
+
+function sameSnapshot(a: GroupSnapshot, b: GroupSnapshot): boolean {
+  return a.group === b.group && sameRows(a.rows, b.rows);
+}
+
+function sameRows(a: string[][], b: string[][]): boolean {
+  return a.length === b.length && a.every((row, i) => row === b[i]);
+}
+
+function sameState(a: RowState, b: RowState): boolean {
+  return a.previous === b.previous && a.group === b.group && a.headingCount === b.headingCount;
+}
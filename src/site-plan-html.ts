@@ -0,0 +1,446 @@
+/**
+ * Static markup and script for the site plan webview.
+ *
+ * Locations arrive as "locations" messages in file coordinates (easting, northing)
+ * and are drawn to screen positions on every pan and zoom, so points and labels
+ * keep their size. No map tiles or other network resources are used.
+ */
+export function getSitePlanHtml(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      background: var(--vscode-editor-background);
+      color: var(--vscode-foreground);
+      padding: 0;
+      margin: 0;
+      overflow: hidden;
+    }
+
+    .toolbar {
+      padding: 8px 12px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 12px;
+    }
+
+    .toolbar button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      padding: 3px 10px;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+
+    .toolbar button:hover {
+      background: var(--vscode-button-secondaryHoverBackground);
+    }
+
+    .summary {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.9em;
+    }
+
+    .legend {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 10px;
+      font-size: 0.9em;
+    }
+
+    .legend-item {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      cursor: pointer;
+      user-select: none;
+    }
+
+    .legend-item.off {
+      opacity: 0.4;
+    }
+
+    .swatch {
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+    }
+
+    #plan {
+      display: block;
+      width: 100vw;
+      cursor: grab;
+    }
+
+    #plan.panning {
+      cursor: grabbing;
+    }
+
+    .bounds {
+      fill: none;
+      stroke: var(--vscode-descriptionForeground);
+      stroke-dasharray: 4 4;
+      opacity: 0.6;
+    }
+
+    .bounds-label, .scale-label, .north {
+      fill: var(--vscode-descriptionForeground);
+      font-size: 11px;
+    }
+
+    .scale-bar {
+      stroke: var(--vscode-foreground);
+      stroke-width: 2;
+    }
+
+    .point {
+      stroke: var(--vscode-editor-background);
+      stroke-width: 1.5;
+      cursor: pointer;
+    }
+
+    .point.selected {
+      stroke: var(--vscode-focusBorder);
+      stroke-width: 3;
+    }
+
+    .label {
+      fill: var(--vscode-foreground);
+      font-size: 11px;
+      pointer-events: none;
+      paint-order: stroke;
+      stroke: var(--vscode-editor-background);
+      stroke-width: 3px;
+    }
+
+    .empty {
+      padding: 20px;
+      color: var(--vscode-descriptionForeground);
+    }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <button id="fit" title="Show all locations">Fit</button>
+    <button id="zoomIn" title="Zoom in">+</button>
+    <button id="zoomOut" title="Zoom out">&minus;</button>
+    <label><input type="checkbox" id="labels" checked> Labels</label>
+    <span class="summary" id="summary"></span>
+    <div class="legend" id="legend"></div>
+  </div>
+  <div class="empty" id="empty" hidden></div>
+  <svg id="plan"></svg>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    const SVG_NS = "http://www.w3.org/2000/svg";
+
+    // Colours for location types, assigned in alphabetical order of type
+    const PALETTE = ["#1f77b4", "#ff7f0e", "#2ca02c", "#d62728", "#9467bd", "#8c564b", "#e377c2", "#17becf", "#bcbd22", "#7f7f7f"];
+    const NO_TYPE_COLOUR = "#999999";
+
+    const POINT_RADIUS = 5;
+    const FIT_MARGIN = 40;
+    const SCALE_BAR_MAX_WIDTH = 150;
+
+    const state = vscode.getState() || {};
+    let locations = [];
+    let colours = {};
+    let hiddenTypes = new Set(state.hiddenTypes || []);
+    let selectedId = null;
+    // Screen position of file coordinates: x = (e - originE) * scale + offsetX, y = (originN - n) * scale + offsetY
+    let view = state.view || null;
+    let origin = { e: 0, n: 0 };
+    let bounds = null;
+
+    const plan = document.getElementById("plan");
+    const labelsBox = document.getElementById("labels");
+    labelsBox.checked = state.labels !== false;
+
+    function saveState() {
+      vscode.setState({ view, labels: labelsBox.checked, hiddenTypes: Array.from(hiddenTypes) });
+    }
+
+    function typeKey(location) {
+      return location.type || "";
+    }
+
+    function setLocations(message) {
+      locations = message.locations;
+      // Locations without a type are listed last
+      const types = Array.from(new Set(locations.map(typeKey))).sort((a, b) => (!a) - (!b) || a.localeCompare(b));
+      colours = {};
+      types.filter((type) => type).forEach((type, index) => {
+        colours[type] = PALETTE[index % PALETTE.length];
+      });
+      colours[""] = NO_TYPE_COLOUR;
+
+      bounds = null;
+      for (const location of locations) {
+        if (!bounds) {
+          bounds = { minE: location.easting, maxE: location.easting, minN: location.northing, maxN: location.northing };
+        } else {
+          bounds.minE = Math.min(bounds.minE, location.easting);
+          bounds.maxE = Math.max(bounds.maxE, location.easting);
+          bounds.minN = Math.min(bounds.minN, location.northing);
+          bounds.maxN = Math.max(bounds.maxN, location.northing);
+        }
+      }
+      if (bounds) {
+        origin = { e: bounds.minE, n: bounds.maxN };
+      }
+
+      let summary = locations.length + " location" + (locations.length === 1 ? "" : "s");
+      if (message.unplotted.length > 0) {
+        summary += "; no coordinates for " + message.unplotted.join(", ");
+      }
+      document.getElementById("summary").textContent = summary;
+
+      const empty = document.getElementById("empty");
+      empty.hidden = locations.length > 0;
+      empty.textContent = message.hasLocations
+        ? "No LOCA records have numeric LOCA_NATE and LOCA_NATN values to plot."
+        : "This file has no LOCA records.";
+
+      buildLegend(types);
+      updateHeight();
+      // Keep the current view while the file is edited; fit when there is none yet
+      if (!view || view.fileName !== message.fileName) {
+        fit(message.fileName);
+      } else {
+        render();
+      }
+    }
+
+    function buildLegend(types) {
+      const legend = document.getElementById("legend");
+      legend.innerHTML = "";
+      for (const type of types) {
+        const item = document.createElement("span");
+        item.className = "legend-item" + (hiddenTypes.has(type) ? " off" : "");
+        item.title = hiddenTypes.has(type) ? "Show these locations" : "Hide these locations";
+
+        const swatch = document.createElement("span");
+        swatch.className = "swatch";
+        swatch.style.background = colours[type];
+        item.appendChild(swatch);
+
+        const count = locations.filter((location) => typeKey(location) === type).length;
+        item.appendChild(document.createTextNode((type || "No type") + " (" + count + ")"));
+
+        item.addEventListener("click", () => {
+          if (hiddenTypes.has(type)) {
+            hiddenTypes.delete(type);
+          } else {
+            hiddenTypes.add(type);
+          }
+          saveState();
+          buildLegend(types);
+          render();
+        });
+        legend.appendChild(item);
+      }
+    }
+
+    // The plan fills the window below the toolbar, whose legend can wrap onto more lines
+    function updateHeight() {
+      const toolbarHeight = document.querySelector(".toolbar").offsetHeight;
+      plan.style.height = Math.max(window.innerHeight - toolbarHeight, 100) + "px";
+    }
+
+    function resize() {
+      updateHeight();
+      render();
+    }
+
+    function size() {
+      return { width: plan.clientWidth || window.innerWidth, height: plan.clientHeight || window.innerHeight };
+    }
+
+    /**
+     * Scale and centre the view so every location is shown
+     */
+    function fit(fileName) {
+      const { width, height } = size();
+      let scale = 1;
+      if (bounds && (bounds.maxE > bounds.minE || bounds.maxN > bounds.minN)) {
+        const scaleE = bounds.maxE > bounds.minE ? Math.max(width - 2 * FIT_MARGIN, 10) / (bounds.maxE - bounds.minE) : Infinity;
+        const scaleN = bounds.maxN > bounds.minN ? Math.max(height - 2 * FIT_MARGIN, 10) / (bounds.maxN - bounds.minN) : Infinity;
+        scale = Math.min(scaleE, scaleN);
+      }
+      // A single location is shown at 1 pixel per metre
+
+      const spanWidth = bounds ? (bounds.maxE - bounds.minE) * scale : 0;
+      const spanHeight = bounds ? (bounds.maxN - bounds.minN) * scale : 0;
+      view = {
+        fileName: fileName !== undefined ? fileName : view && view.fileName,
+        scale,
+        offsetX: (width - spanWidth) / 2,
+        offsetY: (height - spanHeight) / 2,
+      };
+      saveState();
+      render();
+    }
+
+    function toScreen(easting, northing) {
+      return {
+        x: (easting - origin.e) * view.scale + view.offsetX,
+        y: (origin.n - northing) * view.scale + view.offsetY,
+      };
+    }
+
+    /**
+     * Zoom by a factor, keeping the file position under a screen point in place
+     */
+    function zoom(factor, x, y) {
+      if (!view) return;
+      view.offsetX = x - (x - view.offsetX) * factor;
+      view.offsetY = y - (y - view.offsetY) * factor;
+      view.scale *= factor;
+      saveState();
+      render();
+    }
+
+    function svg(name, attributes, parent) {
+      const element = document.createElementNS(SVG_NS, name);
+      for (const key in attributes) {
+        element.setAttribute(key, attributes[key]);
+      }
+      parent.appendChild(element);
+      return element;
+    }
+
+    function formatCoordinate(value) {
+      return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+    }
+
+    function render() {
+      plan.innerHTML = "";
+      if (!view || !bounds) return;
+
+      // Bounding box of all locations, labelled with its extents
+      const topLeft = toScreen(bounds.minE, bounds.maxN);
+      const bottomRight = toScreen(bounds.maxE, bounds.minN);
+      svg("rect", {
+        class: "bounds",
+        x: topLeft.x - POINT_RADIUS * 2,
+        y: topLeft.y - POINT_RADIUS * 2,
+        width: bottomRight.x - topLeft.x + POINT_RADIUS * 4,
+        height: bottomRight.y - topLeft.y + POINT_RADIUS * 4,
+      }, plan);
+      svg("text", { class: "bounds-label", x: topLeft.x - POINT_RADIUS * 2, y: topLeft.y - POINT_RADIUS * 2 - 4 }, plan).textContent =
+        "E " + formatCoordinate(bounds.minE) + "  N " + formatCoordinate(bounds.maxN);
+      svg("text", { class: "bounds-label", x: bottomRight.x + POINT_RADIUS * 2, y: bottomRight.y + POINT_RADIUS * 2 + 14, "text-anchor": "end" }, plan).textContent =
+        "E " + formatCoordinate(bounds.maxE) + "  N " + formatCoordinate(bounds.minN) +
+        "  (" + formatCoordinate(bounds.maxE - bounds.minE) + " m × " + formatCoordinate(bounds.maxN - bounds.minN) + " m)";
+
+      // Selected location drawn last so it stays on top
+      const shown = locations.filter((location) => !hiddenTypes.has(typeKey(location)));
+      shown.sort((a, b) => (a.id === selectedId) - (b.id === selectedId));
+
+      for (const location of shown) {
+        const position = toScreen(location.easting, location.northing);
+        const point = svg("circle", {
+          class: "point" + (location.id === selectedId ? " selected" : ""),
+          cx: position.x,
+          cy: position.y,
+          r: POINT_RADIUS,
+          fill: colours[typeKey(location)],
+        }, plan);
+
+        const details = [location.id + (location.type ? " (" + location.type + ")" : ""), "E " + formatCoordinate(location.easting) + ", N " + formatCoordinate(location.northing)];
+        if (location.finalDepth) {
+          details.push("Final depth " + location.finalDepth + " m");
+        }
+        svg("title", {}, point).textContent = details.join("\\n");
+
+        point.addEventListener("mousedown", (event) => event.stopPropagation());
+        point.addEventListener("click", () => {
+          selectedId = location.id;
+          render();
+          vscode.postMessage({ type: "reveal", id: location.id });
+        });
+
+        if (labelsBox.checked) {
+          svg("text", { class: "label", x: position.x + POINT_RADIUS + 3, y: position.y + 4 }, plan).textContent = location.id;
+        }
+      }
+
+      renderScaleBar();
+    }
+
+    /**
+     * Scale bar of a round length (1, 2 or 5 times a power of ten metres) and a north arrow
+     */
+    function renderScaleBar() {
+      const { width, height } = size();
+      const maxLength = SCALE_BAR_MAX_WIDTH / view.scale;
+      const power = Math.pow(10, Math.floor(Math.log10(maxLength)));
+      const length = [5, 2, 1].map((step) => step * power).find((value) => value <= maxLength) || power;
+      const barWidth = length * view.scale;
+      const x = 16;
+      const y = height - 20;
+
+      svg("path", { class: "scale-bar", d: "M" + x + " " + (y - 5) + " V" + y + " H" + (x + barWidth) + " V" + (y - 5), fill: "none" }, plan);
+      svg("text", { class: "scale-label", x: x + barWidth / 2, y: y - 8, "text-anchor": "middle" }, plan).textContent =
+        length >= 1000 ? length / 1000 + " km" : formatCoordinate(length) + " m";
+
+      svg("path", { class: "scale-bar", d: "M" + (width - 24) + " 46 V22 M" + (width - 30) + " 30 L" + (width - 24) + " 22 L" + (width - 18) + " 30", fill: "none" }, plan);
+      svg("text", { class: "north", x: width - 24, y: 16, "text-anchor": "middle" }, plan).textContent = "N";
+    }
+
+    // Pan by dragging the background
+    let drag = null;
+    plan.addEventListener("mousedown", (event) => {
+      if (!view || event.button !== 0) return;
+      drag = { x: event.clientX, y: event.clientY, offsetX: view.offsetX, offsetY: view.offsetY };
+      plan.classList.add("panning");
+    });
+    window.addEventListener("mousemove", (event) => {
+      if (!drag) return;
+      view.offsetX = drag.offsetX + event.clientX - drag.x;
+      view.offsetY = drag.offsetY + event.clientY - drag.y;
+      render();
+    });
+    window.addEventListener("mouseup", () => {
+      if (!drag) return;
+      drag = null;
+      plan.classList.remove("panning");
+      saveState();
+    });
+
+    plan.addEventListener("wheel", (event) => {
+      event.preventDefault();
+      const rect = plan.getBoundingClientRect();
+      zoom(event.deltaY < 0 ? 1.2 : 1 / 1.2, event.clientX - rect.left, event.clientY - rect.top);
+    }, { passive: false });
+
+    document.getElementById("fit").addEventListener("click", () => fit());
+    document.getElementById("zoomIn").addEventListener("click", () => zoom(1.5, size().width / 2, size().height / 2));
+    document.getElementById("zoomOut").addEventListener("click", () => zoom(1 / 1.5, size().width / 2, size().height / 2));
+    labelsBox.addEventListener("change", () => {
+      saveState();
+      render();
+    });
+    window.addEventListener("resize", resize);
+
+    window.addEventListener("message", (event) => {
+      const message = event.data;
+      switch (message.type) {
+        case "locations":
+          setLocations(message);
+          break;
+      }
+    });
+
+    resize();
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,147 @@
+import * as vscode from "vscode";
+import { getSitePlanHtml } from "./site-plan-html";
+import { LocationInfo } from "./summary";
+
+// Wait after an edit before redrawing, so typing in a large file stays responsive
+const UPDATE_DELAY_MS = 300;
+
+interface ReadyMessage {
+  type: "ready";
+}
+
+interface RevealMessage {
+  type: "reveal";
+  id: string;
+}
+
+type WebviewMessage = ReadyMessage | RevealMessage;
+
+/**
+ * A location as plotted in the webview
+ */
+interface PlottedLocation {
+  id: string;
+  type?: string;
+  easting: number;
+  northing: number;
+  finalDepth?: string;
+}
+
+interface SitePlanPanel {
+  panel: vscode.WebviewPanel;
+  document: vscode.TextDocument;
+  pending?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Site plans plotting the LOCA positions (LOCA_NATE, LOCA_NATN) of AGS files.
+ * Each file gets one panel, redrawn as the file is edited; clicking a location
+ * selects its LOCA row in the editor.
+ */
+export class AGSSitePlanProvider {
+  private panels = new Map<string, SitePlanPanel>();
+  private getLocations: (doc: vscode.TextDocument) => LocationInfo[];
+
+  constructor(getLocations: (doc: vscode.TextDocument) => LocationInfo[]) {
+    this.getLocations = getLocations;
+  }
+
+  public show(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const existing = this.panels.get(key);
+    if (existing) {
+      existing.panel.reveal();
+      return;
+    }
+
+    const fileName = document.fileName.split(/[\\/]/).pop() || "AGS File";
+    const panel = vscode.window.createWebviewPanel("agsSitePlan", `Site Plan: ${fileName}`, vscode.ViewColumn.Beside, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+    });
+    const entry: SitePlanPanel = { panel, document };
+    this.panels.set(key, entry);
+
+    panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+      switch (message.type) {
+        case "ready":
+          this.sendLocations(entry);
+          break;
+        case "reveal":
+          this.revealLocation(document, message.id);
+          break;
+      }
+    });
+
+    panel.onDidDispose(() => {
+      if (entry.pending) clearTimeout(entry.pending);
+      this.panels.delete(key);
+    });
+
+    // Locations are sent once the webview reports that it is ready
+    panel.webview.html = getSitePlanHtml();
+  }
+
+  public updateForDocumentChange(document: vscode.TextDocument): void {
+    const entry = this.panels.get(document.uri.toString());
+    if (!entry) return;
+
+    if (entry.pending) clearTimeout(entry.pending);
+    entry.pending = setTimeout(() => {
+      entry.pending = undefined;
+      this.sendLocations(entry);
+    }, UPDATE_DELAY_MS);
+  }
+
+  private sendLocations(entry: SitePlanPanel): void {
+    const locations: PlottedLocation[] = [];
+    const unplotted: string[] = [];
+
+    for (const location of this.getLocations(entry.document)) {
+      const easting = parseCoordinate(location.easting);
+      const northing = parseCoordinate(location.northing);
+      if (easting === undefined || northing === undefined) {
+        unplotted.push(location.id);
+        continue;
+      }
+      locations.push({ id: location.id, type: location.type, easting, northing, finalDepth: location.finalDepth });
+    }
+
+    entry.panel.webview.postMessage({
+      type: "locations",
+      fileName: entry.document.uri.toString(),
+      hasLocations: locations.length > 0 || unplotted.length > 0,
+      locations,
+      unplotted,
+    });
+  }
+
+  /**
+   * Select a location's LOCA row in an editor showing the file, opening one if needed
+   */
+  private async revealLocation(document: vscode.TextDocument, id: string): Promise<void> {
+    const location = this.getLocations(document).find((candidate) => candidate.id === id);
+    if (!location) return;
+
+    const editor = vscode.window.visibleTextEditors.find((e) => e.document === document);
+    const position = new vscode.Position(location.line, 0);
+    await vscode.window.showTextDocument(document, {
+      viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+      selection: new vscode.Range(position, position),
+    });
+  }
+
+  public dispose(): void {
+    for (const entry of this.panels.values()) {
+      entry.panel.dispose();
+    }
+    this.panels.clear();
+  }
+}
+
+function parseCoordinate(value: string | undefined): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  const number = Number(trimmed);
+  return isFinite(number) ? number : undefined;
+}
@@ -0,0 +1,468 @@
+/**
+ * Static markup and script for the strip log webview.
+ *
+ * Each "log" message carries the file's locations and the log of the selected one.
+ * Columns are laid out side by side with every record placed at its depth, so the
+ * log redraws at any vertical scale.
+ */
+export function getStripLogHtml(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      background: var(--vscode-editor-background);
+      color: var(--vscode-foreground);
+      padding: 0;
+      margin: 0;
+    }
+
+    .toolbar {
+      padding: 8px 12px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 12px;
+      background: var(--vscode-editor-background);
+      position: sticky;
+      top: 0;
+      z-index: 10;
+    }
+
+    .toolbar label {
+      font-weight: 500;
+    }
+
+    select {
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border);
+      padding: 4px 8px;
+      border-radius: 2px;
+    }
+
+    .summary {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.9em;
+    }
+
+    .empty {
+      padding: 20px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .log {
+      position: relative;
+      display: flex;
+      padding: 0 12px 24px 12px;
+      font-size: 12px;
+    }
+
+    .column {
+      flex: none;
+      border-right: 1px solid var(--vscode-panel-border);
+    }
+
+    .column.description {
+      flex: 1;
+      min-width: 240px;
+    }
+
+    .column-title {
+      position: sticky;
+      z-index: 5;
+      height: 28px;
+      line-height: 28px;
+      padding: 0 4px;
+      font-weight: 600;
+      background: var(--vscode-editor-background);
+      border-bottom: 1px solid var(--vscode-panel-border);
+      white-space: nowrap;
+      overflow: hidden;
+    }
+
+    .column-body {
+      position: relative;
+      margin-top: 8px;
+    }
+
+    .item {
+      position: absolute;
+      left: 0;
+      right: 0;
+      box-sizing: border-box;
+      cursor: pointer;
+      overflow: hidden;
+    }
+
+    .item:hover {
+      outline: 1px solid var(--vscode-focusBorder);
+    }
+
+    .tick {
+      position: absolute;
+      right: 0;
+      width: 100%;
+      border-top: 1px solid var(--vscode-descriptionForeground);
+      color: var(--vscode-descriptionForeground);
+      font-size: 11px;
+      text-align: right;
+      padding-right: 10px;
+      box-sizing: border-box;
+      line-height: 1;
+    }
+
+    .tick.minor {
+      width: 6px;
+      padding: 0;
+    }
+
+    .legend-block {
+      border-bottom: 1px solid var(--vscode-editor-background);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: #000;
+      font-size: 11px;
+    }
+
+    .stratum {
+      border-bottom: 1px solid var(--vscode-panel-border);
+      padding: 2px 6px;
+      line-height: 1.35;
+    }
+
+    .stratum .legend-name {
+      color: var(--vscode-descriptionForeground);
+      font-style: italic;
+    }
+
+    .depth-label {
+      position: absolute;
+      left: 4px;
+      font-size: 11px;
+      line-height: 1;
+      transform: translateY(-50%);
+      cursor: pointer;
+    }
+
+    .sample-bar {
+      position: absolute;
+      left: 4px;
+      width: 6px;
+      min-height: 3px;
+      background: var(--vscode-charts-blue, #3794ff);
+      cursor: pointer;
+    }
+
+    .marker-label {
+      position: absolute;
+      left: 14px;
+      right: 2px;
+      font-size: 11px;
+      line-height: 12px;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      cursor: pointer;
+    }
+
+    .marker-label:hover, .depth-label:hover {
+      text-decoration: underline;
+    }
+
+    .water {
+      color: var(--vscode-charts-blue, #3794ff);
+    }
+
+    .final-depth {
+      position: absolute;
+      left: 0;
+      right: 0;
+      border-top: 2px solid var(--vscode-foreground);
+      cursor: pointer;
+    }
+
+    .final-depth span {
+      position: absolute;
+      top: 2px;
+      left: 6px;
+      font-weight: 600;
+      white-space: nowrap;
+    }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <label for="location">Location:</label>
+    <select id="location"></select>
+    <label for="scale">Scale:</label>
+    <select id="scale">
+      <option value="20">20 px/m</option>
+      <option value="40">40 px/m</option>
+      <option value="80">80 px/m</option>
+      <option value="160">160 px/m</option>
+    </select>
+    <span class="summary" id="summary"></span>
+  </div>
+  <div class="empty" id="empty" hidden></div>
+  <div class="log" id="log"></div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+
+    // Legend colours by the first digit of the GEOL_LEG code: made ground, clay, silt, sand, gravel, peat, cobbles, rock, other
+    const LEGEND_COLOURS = {
+      "1": "#a89a86",
+      "2": "#8fb08a",
+      "3": "#c4c08a",
+      "4": "#ecd382",
+      "5": "#dea46e",
+      "6": "#8a6f5c",
+      "7": "#b5b5b5",
+      "8": "#9fb1cc",
+      "9": "#d9d9d9",
+    };
+    const NO_LEGEND_COLOUR = "transparent";
+
+    const TICK_STEPS = [0.5, 1, 2, 5, 10, 20, 50];
+    const MIN_TICK_SPACING = 30;
+    const LABEL_HEIGHT = 12;
+    // Column title (28px and its 1px border) and the gap below it
+    const BODY_OFFSET = 37;
+
+    const state = vscode.getState() || {};
+    const scaleSelect = document.getElementById("scale");
+    scaleSelect.value = String(state.scale || 40);
+    let current = null;
+
+    function saveState() {
+      vscode.setState({ scale: Number(scaleSelect.value) });
+    }
+
+    function reveal(line) {
+      if (line !== undefined && line !== null) {
+        vscode.postMessage({ type: "reveal", line });
+      }
+    }
+
+    function formatDepth(depth) {
+      return depth.toFixed(2);
+    }
+
+    function element(tag, className, parent) {
+      const el = document.createElement(tag);
+      if (className) el.className = className;
+      if (parent) parent.appendChild(el);
+      return el;
+    }
+
+    function setLocations(locations, selectedId) {
+      const select = document.getElementById("location");
+      select.innerHTML = "";
+      for (const location of locations) {
+        const option = element("option", null, select);
+        option.value = location.id;
+        option.textContent = location.type ? location.id + " (" + location.type + ")" : location.id;
+      }
+      // A location with records but no LOCA row can still be shown
+      if (!locations.some((location) => location.id === selectedId)) {
+        const option = element("option", null, select);
+        option.value = selectedId;
+        option.textContent = selectedId;
+      }
+      select.value = selectedId;
+    }
+
+    function getMaxDepth(log) {
+      const depths = [log.finalDepth || 0];
+      for (const layer of log.layers) depths.push(layer.base, layer.top);
+      for (const sample of log.samples) depths.push(sample.base !== undefined ? sample.base : sample.top);
+      for (const test of log.tests) depths.push(test.top);
+      for (const strike of log.waterStrikes) depths.push(strike.depth);
+      return Math.max.apply(null, depths);
+    }
+
+    function render() {
+      const container = document.getElementById("log");
+      container.innerHTML = "";
+      const log = current;
+      if (!log) return;
+
+      const count = log.layers.length + log.samples.length + log.tests.length + log.waterStrikes.length;
+      const empty = document.getElementById("empty");
+      empty.hidden = count > 0 || log.finalDepth !== undefined;
+      empty.textContent = "No GEOL, SAMP, ISPT or WSTG records for " + log.id + ".";
+
+      const parts = [];
+      if (log.finalDepth !== undefined) parts.push("Final depth " + formatDepth(log.finalDepth) + " m");
+      parts.push(
+        countOf(log.layers.length, "stratum", "strata"),
+        countOf(log.samples.length, "sample", "samples"),
+        countOf(log.tests.length, "SPT", "SPTs"),
+        countOf(log.waterStrikes.length, "water strike", "water strikes")
+      );
+      document.getElementById("summary").textContent = parts.join(" · ");
+      if (!empty.hidden) return;
+
+      const scale = Number(scaleSelect.value);
+      const maxDepth = getMaxDepth(log);
+      const height = Math.ceil(maxDepth * scale) + 20;
+      const y = (depth) => depth * scale;
+      // Column titles stay in view below the toolbar, which can wrap onto more lines
+      const toolbarHeight = document.querySelector(".toolbar").offsetHeight;
+
+      function column(title, width, className) {
+        const col = element("div", "column" + (className ? " " + className : ""), container);
+        if (width) col.style.width = width + "px";
+        const heading = element("div", "column-title", col);
+        heading.textContent = title;
+        heading.style.top = toolbarHeight + "px";
+        const body = element("div", "column-body", col);
+        body.style.height = height + "px";
+        return body;
+      }
+
+      // Depth axis with labelled ticks at a round interval
+      const depthColumn = column("Depth (m)", 70);
+      const step = TICK_STEPS.find((candidate) => candidate * scale >= MIN_TICK_SPACING) || TICK_STEPS[TICK_STEPS.length - 1];
+      for (let depth = 0; depth <= maxDepth + 1e-9; depth += step / 5) {
+        const major = Math.abs(depth / step - Math.round(depth / step)) < 1e-6;
+        const tick = element("div", "tick" + (major ? "" : " minor"), depthColumn);
+        tick.style.top = y(depth) + "px";
+        if (major) tick.textContent = String(Math.round(depth * 100) / 100);
+      }
+
+      // Legend and strata
+      const legendColumn = column("Legend", 60);
+      const levelColumn = column("Strata (m)", 70);
+      const descriptionColumn = column("Description", null, "description");
+
+      for (const layer of log.layers) {
+        const top = y(layer.top);
+        const blockHeight = Math.max(y(layer.base) - top, 2);
+
+        const block = element("div", "item legend-block", legendColumn);
+        block.style.top = top + "px";
+        block.style.height = blockHeight + "px";
+        block.style.background = LEGEND_COLOURS[layer.legend.charAt(0)] || NO_LEGEND_COLOUR;
+        block.title = layer.legend ? layer.legend + (layer.legendDescription ? ": " + layer.legendDescription : "") : "No legend code";
+        if (blockHeight >= LABEL_HEIGHT) block.textContent = layer.legend;
+        block.addEventListener("click", () => reveal(layer.line));
+
+        const stratum = element("div", "item stratum", descriptionColumn);
+        stratum.style.top = top + "px";
+        stratum.style.height = blockHeight + "px";
+        stratum.title = layer.description;
+        element("span", null, stratum).textContent = layer.description || "(no description)";
+        const names = [layer.geology, layer.legendDescription].filter(
+          (name) => name && name.toUpperCase() !== layer.description.toUpperCase()
+        );
+        if (names.length > 0) {
+          element("span", "legend-name", stratum).textContent = " " + names.join(", ");
+        }
+        stratum.addEventListener("click", () => reveal(layer.line));
+      }
+
+      // Depth of each stratum boundary
+      const levels = new Map();
+      for (const layer of log.layers) {
+        if (!levels.has(layer.top)) levels.set(layer.top, layer.line);
+        levels.set(layer.base, layer.line);
+      }
+      placeLabels(levelColumn, Array.from(levels, ([depth, line]) => ({ depth, line, text: formatDepth(depth) })), "depth-label", y);
+
+      // Samples as bars over their depth range
+      const sampleColumn = column("Samples", 130);
+      for (const sample of log.samples) {
+        const bar = element("div", "sample-bar", sampleColumn);
+        bar.style.top = y(sample.top) + "px";
+        bar.style.height = (sample.base !== undefined && sample.base > sample.top ? y(sample.base) - y(sample.top) : 3) + "px";
+        bar.title = sampleText(sample);
+        bar.addEventListener("click", () => reveal(sample.line));
+      }
+      placeLabels(sampleColumn, log.samples.map((sample) => ({ depth: sample.top, line: sample.line, text: sampleText(sample) })), "marker-label", y);
+
+      // SPT N values at their test depth
+      const sptColumn = column("SPT", 120);
+      placeLabels(sptColumn, log.tests.map((test) => ({
+        depth: test.top,
+        line: test.line,
+        text: (test.nValue ? "N=" + test.nValue : "N/A") + (test.report ? " (" + test.report + ")" : ""),
+      })), "marker-label", y);
+
+      // Water strikes
+      const waterColumn = column("Water", 90);
+      placeLabels(waterColumn, log.waterStrikes.map((strike) => ({
+        depth: strike.depth,
+        line: strike.line,
+        text: "▼ " + formatDepth(strike.depth) + (strike.remark ? " " + strike.remark : ""),
+        className: "water",
+      })), "marker-label", y);
+
+      // Final depth across the whole log
+      if (log.finalDepth !== undefined) {
+        const line = element("div", "final-depth", container);
+        line.style.top = (y(log.finalDepth) + BODY_OFFSET) + "px";
+        line.style.left = "12px";
+        line.style.right = "12px";
+        element("span", null, line).textContent = "Final depth " + formatDepth(log.finalDepth) + " m";
+        line.title = "LOCA_FDEP";
+        line.addEventListener("click", () => reveal(log.line));
+      }
+    }
+
+    function countOf(number, singular, plural) {
+      return number + " " + (number === 1 ? singular : plural);
+    }
+
+    function sampleText(sample) {
+      const range = sample.base !== undefined && sample.base !== sample.top
+        ? formatDepth(sample.top) + "-" + formatDepth(sample.base)
+        : formatDepth(sample.top);
+      return [sample.type, sample.ref].filter((part) => part).join(" ") + " " + range;
+    }
+
+    /**
+     * Labels at their depths, pushed down where they would overlap the label above
+     */
+    function placeLabels(parent, labels, className, y) {
+      labels.sort((a, b) => a.depth - b.depth);
+      let nextFree = -Infinity;
+      for (const label of labels) {
+        const el = element("div", className + (label.className ? " " + label.className : ""), parent);
+        const centred = className === "depth-label";
+        const top = Math.max(y(label.depth) - (centred ? 0 : LABEL_HEIGHT / 2), nextFree);
+        el.style.top = top + "px";
+        el.textContent = label.text;
+        el.title = label.text;
+        el.addEventListener("click", () => reveal(label.line));
+        nextFree = top + LABEL_HEIGHT;
+      }
+    }
+
+    document.getElementById("location").addEventListener("change", (event) => {
+      vscode.postMessage({ type: "selectLocation", locationId: event.target.value });
+    });
+
+    scaleSelect.addEventListener("change", () => {
+      saveState();
+      render();
+    });
+
+    window.addEventListener("message", (event) => {
+      const message = event.data;
+      if (message.type === "log") {
+        current = message.log;
+        setLocations(message.locations, message.log.id);
+        render();
+      }
+    });
+
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,276 @@
+import * as vscode from "vscode";
+import { parseDepth } from "./depth-checks";
+import { ParsedDocument, ParsedGroup } from "./document-model";
+import { getStripLogHtml } from "./strip-log-html";
+import { LocationInfo } from "./summary";
+
+// Wait after an edit before redrawing, so typing in a large file stays responsive
+const UPDATE_DELAY_MS = 300;
+
+/**
+ * A stratum from GEOL
+ */
+export interface LogLayer {
+  top: number;
+  base: number;
+  description: string;
+  /** Legend code (GEOL_LEG) and its description from the ABBR pick list */
+  legend: string;
+  legendDescription?: string;
+  geology: string;
+  line: number;
+}
+
+export interface LogSample {
+  top: number;
+  base?: number;
+  ref: string;
+  type: string;
+  line: number;
+}
+
+export interface LogSpt {
+  top: number;
+  nValue: string;
+  report: string;
+  line: number;
+}
+
+export interface LogWaterStrike {
+  depth: number;
+  remark: string;
+  line: number;
+}
+
+/**
+ * Everything drawn on one location's strip log, with the lines of the records shown
+ */
+export interface StripLog {
+  id: string;
+  type?: string;
+  finalDepth?: number;
+  line?: number;
+  layers: LogLayer[];
+  samples: LogSample[];
+  tests: LogSpt[];
+  waterStrikes: LogWaterStrike[];
+}
+
+interface ReadyMessage {
+  type: "ready";
+}
+
+interface SelectLocationMessage {
+  type: "selectLocation";
+  locationId: string;
+}
+
+interface RevealMessage {
+  type: "reveal";
+  line: number;
+}
+
+type WebviewMessage = ReadyMessage | SelectLocationMessage | RevealMessage;
+
+interface StripLogPanel {
+  panel: vscode.WebviewPanel;
+  document: vscode.TextDocument;
+  locationId: string;
+  pending?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Build the strip log of a location from its GEOL, SAMP, ISPT and WSTG records and LOCA_FDEP
+ */
+export function buildStripLog(
+  parsed: ParsedDocument,
+  locationId: string,
+  describeCode: (heading: string, code: string) => string | undefined
+): StripLog {
+  const location = getRecords(parsed.groups.get("LOCA"), locationId)[0];
+
+  const layers = getRecords(parsed.groups.get("GEOL"), locationId)
+    .map((record): LogLayer | undefined => {
+      const top = parseDepth(record.get("GEOL_TOP"));
+      if (top === undefined) return undefined;
+      const legend = record.get("GEOL_LEG");
+      return {
+        top,
+        base: parseDepth(record.get("GEOL_BASE")) ?? top,
+        description: record.get("GEOL_DESC"),
+        legend,
+        legendDescription: legend ? describeCode("GEOL_LEG", legend) : undefined,
+        geology: record.get("GEOL_GEOL"),
+        line: record.line,
+      };
+    })
+    .filter((layer): layer is LogLayer => layer !== undefined)
+    .sort((a, b) => a.top - b.top);
+
+  const samples = getRecords(parsed.groups.get("SAMP"), locationId)
+    .map((record): LogSample | undefined => {
+      const top = parseDepth(record.get("SAMP_TOP"));
+      if (top === undefined) return undefined;
+      return {
+        top,
+        base: parseDepth(record.get("SAMP_BASE")),
+        ref: record.get("SAMP_REF"),
+        type: record.get("SAMP_TYPE"),
+        line: record.line,
+      };
+    })
+    .filter((sample): sample is LogSample => sample !== undefined);
+
+  const tests = getRecords(parsed.groups.get("ISPT"), locationId)
+    .map((record): LogSpt | undefined => {
+      const top = parseDepth(record.get("ISPT_TOP"));
+      if (top === undefined) return undefined;
+      return { top, nValue: record.get("ISPT_NVAL"), report: record.get("ISPT_REP"), line: record.line };
+    })
+    .filter((test): test is LogSpt => test !== undefined);
+
+  const waterStrikes = getRecords(parsed.groups.get("WSTG"), locationId)
+    .map((record): LogWaterStrike | undefined => {
+      const depth = parseDepth(record.get("WSTG_DPTH"));
+      if (depth === undefined) return undefined;
+      return { depth, remark: record.get("WSTG_REM"), line: record.line };
+    })
+    .filter((strike): strike is LogWaterStrike => strike !== undefined);
+
+  return {
+    id: locationId,
+    type: location?.get("LOCA_TYPE") || undefined,
+    finalDepth: location ? parseDepth(location.get("LOCA_FDEP")) : undefined,
+    line: location?.line,
+    layers,
+    samples,
+    tests,
+    waterStrikes,
+  };
+}
+
+/**
+ * Records of a group for one location, with a lookup of their values by heading
+ */
+function getRecords(
+  group: ParsedGroup | undefined,
+  locationId: string
+): Array<{ get: (heading: string) => string; line: number }> {
+  const idIndex = group ? group.headings.indexOf("LOCA_ID") : -1;
+  if (!group || idIndex < 0) return [];
+
+  const records: Array<{ get: (heading: string) => string; line: number }> = [];
+  group.data.forEach((row, rowIndex) => {
+    if (row[idIndex] !== locationId) return;
+    records.push({
+      get: (heading) => {
+        const index = group.headings.indexOf(heading);
+        return index >= 0 ? (row[index] ?? "").trim() : "";
+      },
+      line: group.dataLines[rowIndex],
+    });
+  });
+  return records;
+}
+
+/**
+ * Strip logs of boreholes and other locations. Each file gets one panel, which
+ * switches between the file's locations and is redrawn as the file is edited;
+ * clicking a layer, sample, test or water strike selects its row in the editor.
+ */
+export class AGSStripLogProvider {
+  private panels = new Map<string, StripLogPanel>();
+  private getLocations: (doc: vscode.TextDocument) => LocationInfo[];
+  private getStripLog: (doc: vscode.TextDocument, locationId: string) => StripLog;
+
+  constructor(
+    getLocations: (doc: vscode.TextDocument) => LocationInfo[],
+    getStripLog: (doc: vscode.TextDocument, locationId: string) => StripLog
+  ) {
+    this.getLocations = getLocations;
+    this.getStripLog = getStripLog;
+  }
+
+  public show(document: vscode.TextDocument, locationId: string): void {
+    const key = document.uri.toString();
+    const existing = this.panels.get(key);
+    if (existing) {
+      existing.locationId = locationId;
+      existing.panel.reveal();
+      this.sendLog(existing);
+      return;
+    }
+
+    const fileName = document.fileName.split(/[\\/]/).pop() || "AGS File";
+    const panel = vscode.window.createWebviewPanel("agsStripLog", `Strip Log: ${fileName}`, vscode.ViewColumn.Beside, {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+    });
+    const entry: StripLogPanel = { panel, document, locationId };
+    this.panels.set(key, entry);
+
+    panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+      switch (message.type) {
+        case "ready":
+          this.sendLog(entry);
+          break;
+        case "selectLocation":
+          entry.locationId = message.locationId;
+          this.sendLog(entry);
+          break;
+        case "reveal":
+          this.revealLine(document, message.line);
+          break;
+      }
+    });
+
+    panel.onDidDispose(() => {
+      if (entry.pending) clearTimeout(entry.pending);
+      this.panels.delete(key);
+    });
+
+    // The log is sent once the webview reports that it is ready
+    panel.webview.html = getStripLogHtml();
+  }
+
+  public updateForDocumentChange(document: vscode.TextDocument): void {
+    const entry = this.panels.get(document.uri.toString());
+    if (!entry) return;
+
+    if (entry.pending) clearTimeout(entry.pending);
+    entry.pending = setTimeout(() => {
+      entry.pending = undefined;
+      this.sendLog(entry);
+    }, UPDATE_DELAY_MS);
+  }
+
+  private sendLog(entry: StripLogPanel): void {
+    const locations = this.getLocations(entry.document).map((location) => ({ id: location.id, type: location.type }));
+    entry.panel.webview.postMessage({
+      type: "log",
+      locations,
+      log: this.getStripLog(entry.document, entry.locationId),
+    });
+  }
+
+  /**
+   * Select a row in an editor showing the file, opening one if needed
+   */
+  private async revealLine(document: vscode.TextDocument, line: number): Promise<void> {
+    if (line < 0 || line >= document.lineCount) return;
+
+    const editor = vscode.window.visibleTextEditors.find((e) => e.document === document);
+    const position = new vscode.Position(line, 0);
+    await vscode.window.showTextDocument(document, {
+      viewColumn: editor?.viewColumn ?? vscode.ViewColumn.One,
+      selection: new vscode.Range(position, position),
+    });
+  }
+
+  public dispose(): void {
+    for (const entry of this.panels.values()) {
+      entry.panel.dispose();
+    }
+    this.panels.clear();
+  }
+}
@@ -0,0 +1,175 @@
+import { LoadedDictionary } from "./dictionary-loader";
+import { ParsedDocument } from "./document-model";
+
+export interface LocationInfo {
+  id: string;
+  /** Line of the location's LOCA row */
+  line: number;
+  type?: string;
+  easting?: string;
+  northing?: string;
+  finalDepth?: string;
+  depthMin?: number;
+  depthMax?: number;
+}
+
+export interface LocationTypeInfo {
+  count: number;
+  depthMin?: number;
+  depthMax?: number;
+}
+
+export interface AGSSummary {
+  totalGroups: number;
+  totalRecords: number;
+  groupCounts: Array<{ name: string; count: number; description?: string }>;
+  locations: LocationInfo[];
+  locationsByType: Map<string, LocationTypeInfo>;
+  recordsByLocation: Map<string, Map<string, number>>;
+}
+
+/**
+ * Generate comprehensive summary from parsed document
+ */
+export function generateSummary(parsed: ParsedDocument, dict: LoadedDictionary): AGSSummary {
+  const groupCounts: AGSSummary["groupCounts"] = [];
+  const locations: LocationInfo[] = [];
+  const locationsByType = new Map<string, LocationTypeInfo>();
+  const recordsByLocation = new Map<string, Map<string, number>>();
+  let totalRecords = 0;
+
+  // Count records in each group and by location
+  for (const [groupName, group] of parsed.groups) {
+    groupCounts.push({
+      name: groupName,
+      count: group.dataCount,
+      description: dict.groups[groupName],
+    });
+    totalRecords += group.dataCount;
+
+    // Find LOCA_ID column to count records per location
+    const locaIdIndex = group.headings.indexOf("LOCA_ID");
+    if (locaIdIndex >= 0) {
+      for (const row of group.data) {
+        const locaId = row[locaIdIndex];
+        if (locaId) {
+          let locationGroups = recordsByLocation.get(locaId);
+          if (!locationGroups) {
+            locationGroups = new Map<string, number>();
+            recordsByLocation.set(locaId, locationGroups);
+          }
+          locationGroups.set(groupName, (locationGroups.get(groupName) || 0) + 1);
+        }
+      }
+    }
+  }
+
+  // Sort by count descending
+  groupCounts.sort((a, b) => b.count - a.count);
+
+  // Extract depth ranges from GEOL group
+  const depthRangesByLocation = new Map<string, { min: number; max: number }>();
+  const geolGroup = parsed.groups.get("GEOL");
+  if (geolGroup) {
+    const locaIdIndex = geolGroup.headings.indexOf("LOCA_ID");
+    const topIndex = geolGroup.headings.indexOf("GEOL_TOP");
+    const baseIndex = geolGroup.headings.indexOf("GEOL_BASE");
+
+    if (locaIdIndex >= 0 && (topIndex >= 0 || baseIndex >= 0)) {
+      for (const row of geolGroup.data) {
+        const locaId = row[locaIdIndex];
+        const top = topIndex >= 0 ? parseFloat(row[topIndex]) : NaN;
+        const base = baseIndex >= 0 ? parseFloat(row[baseIndex]) : NaN;
+
+        if (locaId) {
+          const existing = depthRangesByLocation.get(locaId);
+          let min = existing?.min ?? Infinity;
+          let max = existing?.max ?? -Infinity;
+
+          if (!isNaN(top)) {
+            min = Math.min(min, top);
+            max = Math.max(max, top);
+          }
+          if (!isNaN(base)) {
+            min = Math.min(min, base);
+            max = Math.max(max, base);
+          }
+
+          if (min !== Infinity || max !== -Infinity) {
+            depthRangesByLocation.set(locaId, {
+              min: min === Infinity ? 0 : min,
+              max: max === -Infinity ? 0 : max,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // Extract location information from LOCA group
+  const locaGroup = parsed.groups.get("LOCA");
+  if (locaGroup) {
+    const idIndex = locaGroup.headings.indexOf("LOCA_ID");
+    const eastingIndex = locaGroup.headings.indexOf("LOCA_NATE");
+    const northingIndex = locaGroup.headings.indexOf("LOCA_NATN");
+    const typeIndex = locaGroup.headings.indexOf("LOCA_TYPE");
+    const finalDepthIndex = locaGroup.headings.indexOf("LOCA_FDEP");
+
+    for (const [rowIndex, row] of locaGroup.data.entries()) {
+      const id = idIndex >= 0 ? row[idIndex] : "";
+      const easting = eastingIndex >= 0 ? row[eastingIndex] : undefined;
+      const northing = northingIndex >= 0 ? row[northingIndex] : undefined;
+      const type = typeIndex >= 0 ? row[typeIndex] : undefined;
+      const finalDepth = finalDepthIndex >= 0 ? row[finalDepthIndex] : undefined;
+      const depthRange = depthRangesByLocation.get(id);
+
+      if (id) {
+        locations.push({
+          id,
+          line: locaGroup.dataLines[rowIndex],
+          easting,
+          northing,
+          type,
+          finalDepth,
+          depthMin: depthRange?.min,
+          depthMax: depthRange?.max,
+        });
+
+        // Aggregate by type
+        if (type) {
+          const existing = locationsByType.get(type);
+          if (existing) {
+            existing.count++;
+            if (depthRange) {
+              if (depthRange.min !== undefined) {
+                existing.depthMin = existing.depthMin !== undefined
+                  ? Math.min(existing.depthMin, depthRange.min)
+                  : depthRange.min;
+              }
+              if (depthRange.max !== undefined) {
+                existing.depthMax = existing.depthMax !== undefined
+                  ? Math.max(existing.depthMax, depthRange.max)
+                  : depthRange.max;
+              }
+            }
+          } else {
+            locationsByType.set(type, {
+              count: 1,
+              depthMin: depthRange?.min,
+              depthMax: depthRange?.max,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    totalGroups: parsed.groups.size,
+    totalRecords,
+    groupCounts,
+    locations,
+    locationsByType,
+    recordsByLocation,
+  };
+}
@@ -0,0 +1,2472 @@
+/**
+ * Static markup and script for the table view webview.
+ *
+ * The page is loaded once per panel. Group data arrives over postMessage
+ * ("group", then "rows" in pages), edits arrive as "spliceRows", and only the
+ * DATA rows inside the scrolled viewport are rendered.
+ */
+export function getTableViewHtml(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body {
+      font-family: var(--vscode-font-family);
+      background: var(--vscode-editor-background);
+      color: var(--vscode-foreground);
+      padding: 0;
+      margin: 0;
+    }
+
+    .toolbar {
+      padding: 8px 12px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      background: var(--vscode-editor-background);
+      position: sticky;
+      top: 0;
+      z-index: 10;
+    }
+
+    .toolbar label {
+      font-weight: 500;
+    }
+
+    select {
+      background: var(--vscode-dropdown-background);
+      color: var(--vscode-dropdown-foreground);
+      border: 1px solid var(--vscode-dropdown-border);
+      padding: 4px 8px;
+      border-radius: 2px;
+    }
+
+    .record-count {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.9em;
+    }
+
+    .group-description {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.85em;
+      font-style: italic;
+      padding: 8px 12px 12px 12px;
+      background: var(--vscode-editor-background);
+      position: sticky;
+      top: 0;
+      left: 0;
+      z-index: 2;
+    }
+
+    .table-container {
+      overflow: auto;
+      height: calc(100vh - 46px);
+    }
+
+    .find-bar {
+      padding: 6px 12px;
+      border-bottom: 1px solid var(--vscode-panel-border);
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      flex-wrap: wrap;
+    }
+
+    .find-bar input[type="text"] {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      padding: 3px 6px;
+      width: 14em;
+    }
+
+    .find-bar button {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: none;
+      padding: 4px 10px;
+      cursor: pointer;
+    }
+
+    .find-bar button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
+    .find-bar button.secondary {
+      background: none;
+      color: var(--vscode-foreground);
+    }
+
+    body.finding .table-container {
+      height: calc(100vh - 86px);
+    }
+
+    .content {
+      display: flex;
+    }
+
+    .content .table-container {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .related-panel {
+      width: 320px;
+      flex-shrink: 0;
+      height: calc(100vh - 46px);
+      overflow: auto;
+      border-left: 1px solid var(--vscode-panel-border);
+      font-size: 0.9em;
+    }
+
+    body.finding .related-panel {
+      height: calc(100vh - 86px);
+    }
+
+    .related-title {
+      padding: 8px 12px;
+      font-weight: 600;
+    }
+
+    .related-group {
+      padding: 4px 12px 12px 12px;
+    }
+
+    .related-group-name {
+      font-weight: 600;
+      margin-bottom: 4px;
+    }
+
+    .related-group-name .record-count {
+      font-weight: normal;
+      margin-left: 6px;
+    }
+
+    .related-group table {
+      min-width: 0;
+    }
+
+    .related-group th,
+    .related-group td {
+      padding: 2px 6px;
+      font-size: 0.9em;
+    }
+
+    .related-group th {
+      position: static;
+      cursor: default;
+    }
+
+    .related-group tbody tr {
+      cursor: pointer;
+    }
+
+    .related-group tbody tr:hover {
+      background: var(--vscode-list-hoverBackground);
+    }
+
+    .empty-message {
+      padding: 20px;
+      text-align: center;
+    }
+
+    table {
+      border-collapse: collapse;
+      width: max-content;
+      min-width: 100%;
+    }
+
+    th, td {
+      padding: 4px 12px;
+      border: 1px solid var(--vscode-panel-border);
+      white-space: nowrap;
+      font-family: var(--vscode-editor-font-family);
+      font-size: var(--vscode-editor-font-size);
+      text-align: left;
+    }
+
+    th {
+      position: sticky;
+      top: 33px;
+      background: linear-gradient(rgba(156, 220, 254, 0.15), rgba(156, 220, 254, 0.15)), var(--vscode-editor-background);
+      font-weight: 600;
+      z-index: 2;
+      border-bottom: 2px solid var(--vscode-panel-border);
+    }
+
+    .row-unit {
+      background: rgba(253, 186, 116, 0.15);
+    }
+
+    .row-type {
+      background: rgba(220, 220, 170, 0.15);
+    }
+
+    .row-data:hover {
+      background: var(--vscode-list-hoverBackground);
+    }
+
+    .row-selected {
+      background: var(--vscode-list-activeSelectionBackground) !important;
+      color: var(--vscode-list-activeSelectionForeground);
+    }
+
+    tr {
+      cursor: pointer;
+    }
+
+    tbody {
+      user-select: none;
+    }
+
+    td.cell-selected {
+      background: var(--vscode-editor-selectionBackground);
+      color: var(--vscode-editor-selectionForeground, inherit);
+    }
+
+    tr.spacer {
+      cursor: default;
+    }
+
+    tr.spacer td {
+      padding: 0;
+      border: none;
+    }
+
+    td.editable {
+      cursor: text;
+    }
+
+    td.editing {
+      padding: 0;
+    }
+
+    td.editing input,
+    td.editing select,
+    td.editing button {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 4px 12px;
+      border: none;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      font-family: var(--vscode-editor-font-family);
+      font-size: var(--vscode-editor-font-size);
+      outline: 2px solid var(--vscode-focusBorder);
+      outline-offset: -2px;
+    }
+
+    td.editing select,
+    td.editing button {
+      min-width: 6em;
+      text-align: left;
+      cursor: pointer;
+    }
+
+    td.editing input.invalid {
+      outline-color: var(--vscode-inputValidation-errorBorder);
+    }
+
+    .col-index {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.8em;
+      margin-left: 4px;
+    }
+
+    th.sortable {
+      cursor: pointer;
+      user-select: none;
+    }
+
+    .sort-indicator {
+      display: inline-block;
+      width: 1em;
+      margin-left: 4px;
+      color: var(--vscode-textLink-foreground);
+    }
+
+    .filter-button {
+      background: none;
+      border: none;
+      color: var(--vscode-descriptionForeground);
+      cursor: pointer;
+      padding: 0 2px;
+      margin-left: 2px;
+    }
+
+    th.filtered .filter-button {
+      color: var(--vscode-textLink-foreground);
+    }
+
+    .resize-handle {
+      position: absolute;
+      top: 0;
+      right: -3px;
+      width: 6px;
+      height: 100%;
+      cursor: col-resize;
+    }
+
+    th.drop-before {
+      box-shadow: inset 2px 0 0 var(--vscode-focusBorder);
+    }
+
+    th.drop-after {
+      box-shadow: inset -2px 0 0 var(--vscode-focusBorder);
+    }
+
+    /* Frozen columns stick to the left, so their cells need opaque backgrounds */
+    td.frozen {
+      position: sticky;
+      z-index: 1;
+      background: var(--vscode-editor-background);
+    }
+
+    th.frozen {
+      z-index: 3;
+    }
+
+    .frozen-last {
+      box-shadow: 2px 0 0 var(--vscode-panel-border);
+    }
+
+    .row-unit td.frozen {
+      background: linear-gradient(rgba(253, 186, 116, 0.15), rgba(253, 186, 116, 0.15)), var(--vscode-editor-background);
+    }
+
+    .row-type td.frozen {
+      background: linear-gradient(rgba(220, 220, 170, 0.15), rgba(220, 220, 170, 0.15)), var(--vscode-editor-background);
+    }
+
+    .row-data:hover td.frozen {
+      background: linear-gradient(var(--vscode-list-hoverBackground), var(--vscode-list-hoverBackground)), var(--vscode-editor-background);
+    }
+
+    .row-data td.frozen.cell-selected {
+      background: linear-gradient(var(--vscode-editor-selectionBackground), var(--vscode-editor-selectionBackground)), var(--vscode-editor-background);
+    }
+
+    .row-selected td.frozen {
+      background: var(--vscode-list-activeSelectionBackground) !important;
+    }
+
+    .toolbar button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      padding: 4px 8px;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+
+    .toolbar button.active {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+    }
+
+    .context-menu {
+      position: fixed;
+      z-index: 30;
+      min-width: 200px;
+      padding: 4px 0;
+      background: var(--vscode-menu-background);
+      color: var(--vscode-menu-foreground);
+      border: 1px solid var(--vscode-menu-border, var(--vscode-panel-border));
+      box-shadow: 0 2px 8px var(--vscode-widget-shadow);
+    }
+
+    .context-menu button {
+      display: flex;
+      justify-content: space-between;
+      gap: 24px;
+      width: 100%;
+      padding: 4px 12px;
+      background: none;
+      border: none;
+      color: inherit;
+      font: inherit;
+      text-align: left;
+      cursor: pointer;
+    }
+
+    .context-menu button:hover:not(:disabled) {
+      background: var(--vscode-menu-selectionBackground);
+      color: var(--vscode-menu-selectionForeground);
+    }
+
+    .context-menu button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
+    .context-menu .shortcut {
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .context-menu hr {
+      border: none;
+      border-top: 1px solid var(--vscode-menu-separatorBackground, var(--vscode-panel-border));
+      margin: 4px 0;
+    }
+
+    .filter-popup {
+      position: fixed;
+      z-index: 20;
+      min-width: 220px;
+      max-width: 320px;
+      padding: 8px;
+      background: var(--vscode-editorWidget-background);
+      color: var(--vscode-editorWidget-foreground);
+      border: 1px solid var(--vscode-editorWidget-border, var(--vscode-panel-border));
+      box-shadow: 0 2px 8px var(--vscode-widget-shadow);
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .filter-popup input[type="text"],
+    .filter-popup input[type="number"] {
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      border: 1px solid var(--vscode-input-border, transparent);
+      padding: 3px 6px;
+      min-width: 0;
+    }
+
+    .filter-range {
+      display: flex;
+      gap: 6px;
+    }
+
+    .filter-range input {
+      flex: 1;
+      width: 0;
+    }
+
+    .filter-values {
+      max-height: 200px;
+      overflow: auto;
+      font-size: 0.9em;
+    }
+
+    .filter-values label {
+      display: block;
+      white-space: nowrap;
+    }
+
+    .filter-note {
+      color: var(--vscode-descriptionForeground);
+      font-size: 0.85em;
+    }
+
+    .filter-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 6px;
+    }
+
+    .filter-actions button {
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
+      border: none;
+      padding: 3px 10px;
+      cursor: pointer;
+    }
+
+    .filter-actions button.secondary {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+    }
+  </style>
+  <style id="layoutStyle"></style>
+</head>
+<body>
+  <div class="toolbar">
+    <label for="groupSelect">Group:</label>
+    <select id="groupSelect"></select>
+    <span class="record-count" id="recordCount"></span>
+    <button id="clearFilters" hidden>Clear filters</button>
+    <button id="toggleRelated" title="Show the parent and child records of the selected row">Related records</button>
+  </div>
+  <div class="find-bar" id="findBar" hidden>
+    <input type="text" id="findInput" placeholder="Find">
+    <input type="text" id="replaceInput" placeholder="Replace">
+    <label><input type="checkbox" id="findRegex"> Regex</label>
+    <label><input type="checkbox" id="findCase"> Match case</label>
+    <select id="findScope"></select>
+    <span class="record-count" id="findCount"></span>
+    <button id="replaceAll" disabled>Replace All</button>
+    <button id="closeFind" class="secondary" title="Close (Escape)">&#x2715;</button>
+  </div>
+  <div class="content">
+  <div class="table-container" id="tableContainer">
+    <div class="group-description" id="groupDescription"></div>
+    <table id="dataTable">
+      <thead><tr id="headerRow"></tr></thead>
+      <tbody id="tableBody"></tbody>
+    </table>
+    <div class="empty-message" id="emptyMessage" hidden>No groups found in this AGS file.</div>
+  </div>
+  <div class="related-panel" id="relatedPanel" hidden></div>
+  </div>
+  <script>
+    const vscode = acquireVsCodeApi();
+
+    // Rows rendered above and below the viewport
+    const OVERSCAN_ROWS = 20;
+
+    // Show at most this many distinct values in a column's filter list
+    const MAX_FILTER_VALUES = 500;
+
+    const container = document.getElementById('tableContainer');
+    const headerRow = document.getElementById('headerRow');
+    const tbody = document.getElementById('tableBody');
+
+    // Current group, as sent by the extension
+    let generation = 0;
+    let groupName = '';
+    let headings = [];
+    let units = null;
+    let types = null;
+    let rows = [];
+    let expectedRows = 0;
+
+    // Display order of DATA rows (indices into rows) after filtering and sorting
+    let order = [];
+    let rowHeight = 0;
+    let rendered = { first: -1, last: -1 };
+    let unitRow = null;
+    let typeRow = null;
+    let topSpacer = null;
+    let bottomSpacer = null;
+
+    // Sort and filters (keyed by heading), selection and active column are kept
+    // per group in the webview state so they survive group switches and reloads
+    let view = { sort: null, filters: {} };
+    let selectedRows = new Set();
+    let anchorRow = null;
+    let activeCol = 0;
+
+    // Frozen, hidden, reordered and resized columns by heading name, kept by the
+    // extension per group and workspace. Display only: the file is not changed.
+    let layout = emptyLayout();
+    // Shown columns (indices into headings) in display order, frozen ones first
+    let columns = [];
+    let frozenCount = 0;
+    // Display position of each column, or -1 when hidden
+    let columnPositions = [];
+    // Left offsets of the frozen columns, measured from the rendered header
+    let frozenLefts = [];
+
+    // Rectangular block of DATA cells: { anchorRow, anchorCol, focusRow, focusCol } (row indices, not positions)
+    let cellRange = null;
+    // The block's rows and columns in the current display order, for rendering
+    let rangeBounds = null;
+    let dragging = false;
+    let dragMoved = false;
+
+    // Selection to apply after the next row update, set by structural edits made here
+    let pendingSelection = null;
+
+    // Cell being edited: { rowType, rowIndex, colIndex, original, input }
+    let editing = null;
+
+    let openPopup = null;
+    let viewScheduled = false;
+
+    // Scroll position to restore once all of the group's rows have arrived
+    let pendingScroll = null;
+    // Row to select instead, when the extension asks for one while the group is loading
+    let pendingHighlight = null;
+
+    // DATA row whose related records were last asked for, while the panel is open
+    let relatedRow = null;
+
+    // ---- Messages from the extension ----
+
+    window.addEventListener('message', (event) => {
+      const msg = event.data;
+      switch (msg.type) {
+        case 'group':
+          loadGroup(msg);
+          break;
+        case 'rows':
+          if (msg.generation !== generation) return;
+          for (let i = 0; i < msg.rows.length; i++) {
+            rows[msg.start + i] = msg.rows[i];
+          }
+          scheduleApplyView();
+          break;
+        case 'spliceRows':
+          if (msg.generation !== generation) return;
+          spliceRows(msg.start, msg.deleteCount, msg.rows);
+          break;
+        case 'highlight':
+          if (pendingScroll !== null) {
+            pendingHighlight = msg;
+          } else {
+            highlightRow(msg.rowType, msg.rowIndex);
+          }
+          break;
+        case 'selectCells':
+          selectCells(msg.rowIndices, msg.colIndices);
+          break;
+        case 'options':
+          if (msg.generation !== generation) return;
+          headings.forEach((heading, colIndex) => {
+            heading.options = msg.options[colIndex];
+          });
+          break;
+        case 'related':
+          if (msg.generation !== generation || msg.rowIndex !== relatedRow) return;
+          showRelated(msg.groups);
+          break;
+        case 'empty':
+          showEmpty();
+          break;
+      }
+    });
+
+    function loadGroup(msg) {
+      editing = null;
+      closeFilterPopup();
+      hideContextMenu();
+
+      generation = msg.generation;
+      groupName = msg.groupName;
+      headings = msg.headings;
+      units = msg.units;
+      types = msg.types;
+      layout = Object.assign(emptyLayout(), msg.layout);
+      computeColumns();
+      rows = [];
+      expectedRows = msg.rowCount;
+      order = [];
+      rowHeight = 0;
+
+      document.getElementById('emptyMessage').hidden = true;
+      document.getElementById('dataTable').hidden = false;
+
+      const select = document.getElementById('groupSelect');
+      select.textContent = '';
+      for (const name of msg.groupNames) {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = name;
+        option.selected = name === groupName;
+        select.appendChild(option);
+      }
+      document.getElementById('groupDescription').textContent = msg.description;
+
+      buildHeader();
+      buildBody();
+      loadView();
+      loadSelection();
+      cellRange = null;
+      pendingSelection = null;
+      pendingHighlight = null;
+
+      // Remember the group, and return to where it was last scrolled to
+      const state = vscode.getState() || {};
+      state.groupName = groupName;
+      vscode.setState(state);
+      pendingScroll = (state.scroll || {})[groupName] || 0;
+      applyView();
+
+      if (!findBar.hidden) {
+        showFindBar();
+      }
+      requestRelated(true);
+    }
+
+    function showEmpty() {
+      editing = null;
+      generation = 0;
+      groupName = '';
+      headings = [];
+      columns = [];
+      frozenCount = 0;
+      rows = [];
+      order = [];
+      document.getElementById('groupSelect').textContent = '';
+      document.getElementById('groupDescription').textContent = '';
+      document.getElementById('recordCount').textContent = '';
+      document.getElementById('clearFilters').hidden = true;
+      document.getElementById('dataTable').hidden = true;
+      document.getElementById('emptyMessage').hidden = false;
+      requestRelated(true);
+    }
+
+    /**
+     * Replace rows, keeping the selection and any cell being edited on the same records
+     */
+    function spliceRows(start, deleteCount, inserted) {
+      const delta = inserted.length - deleteCount;
+      rows = rows.slice(0, start).concat(inserted, rows.slice(start + deleteCount));
+      expectedRows = rows.length;
+
+      const shift = (rowIndex) => {
+        if (rowIndex < start) return rowIndex;
+        if (rowIndex >= start + deleteCount) return rowIndex + delta;
+        // Rows updated in place keep their index; removed rows drop out
+        return delta === 0 ? rowIndex : -1;
+      };
+
+      if (pendingSelection) {
+        selectedRows = new Set(pendingSelection.filter((rowIndex) => rowIndex < rows.length));
+        pendingSelection = null;
+      } else {
+        selectedRows = new Set(Array.from(selectedRows).map(shift).filter((rowIndex) => rowIndex >= 0));
+      }
+      anchorRow = anchorRow === null ? null : shift(anchorRow) >= 0 ? shift(anchorRow) : null;
+      if (cellRange) {
+        const anchor = shift(cellRange.anchorRow);
+        const focus = shift(cellRange.focusRow);
+        cellRange = anchor >= 0 && focus >= 0 ? Object.assign(cellRange, { anchorRow: anchor, focusRow: focus }) : null;
+      }
+      saveSelection();
+
+      if (editing && editing.rowType === 'DATA') {
+        const rowIndex = shift(editing.rowIndex);
+        if (rowIndex < 0) {
+          editing = null;
+        } else {
+          editing.rowIndex = rowIndex;
+        }
+      }
+
+      applyView();
+      updateFindCount();
+    }
+
+    // ---- Table structure ----
+
+    function buildHeader() {
+      headerRow.textContent = '';
+      columns.forEach((colIndex, position) => {
+        const heading = headings[colIndex];
+        const th = document.createElement('th');
+        th.className = 'sortable' + getFrozenClasses(position);
+        th.dataset.colIndex = colIndex;
+        th.draggable = true;
+        th.title = heading.description + (heading.key ? ' (key field)' : '');
+        th.appendChild(document.createTextNode(heading.name));
+
+        const index = document.createElement('span');
+        index.className = 'col-index';
+        index.textContent = '[' + (colIndex + 1) + ']';
+        th.appendChild(index);
+
+        const indicator = document.createElement('span');
+        indicator.className = 'sort-indicator';
+        th.appendChild(indicator);
+
+        const button = document.createElement('button');
+        button.className = 'filter-button';
+        button.title = 'Filter';
+        button.textContent = '\\u25BE';
+        th.appendChild(button);
+
+        const handle = document.createElement('span');
+        handle.className = 'resize-handle';
+        handle.title = 'Drag to resize, double-click to fit';
+        th.appendChild(handle);
+
+        headerRow.appendChild(th);
+      });
+      updateFrozenOffsets();
+    }
+
+    function buildBody() {
+      tbody.textContent = '';
+      unitRow = units ? createHeaderValuesRow('UNIT', 'row-unit', units) : null;
+      typeRow = types ? createHeaderValuesRow('TYPE', 'row-type', types) : null;
+      topSpacer = createSpacer();
+      bottomSpacer = createSpacer();
+      if (unitRow) tbody.appendChild(unitRow);
+      if (typeRow) tbody.appendChild(typeRow);
+      tbody.appendChild(topSpacer);
+      tbody.appendChild(bottomSpacer);
+      rendered = { first: -1, last: -1 };
+    }
+
+    function createHeaderValuesRow(rowType, className, values) {
+      const tr = document.createElement('tr');
+      tr.className = className;
+      tr.dataset.rowType = rowType;
+      tr.dataset.rowIndex = 0;
+      fillCells(tr, values);
+      return tr;
+    }
+
+    function createSpacer() {
+      const tr = document.createElement('tr');
+      tr.className = 'spacer';
+      const td = document.createElement('td');
+      td.colSpan = Math.max(columns.length, 1);
+      tr.appendChild(td);
+      return tr;
+    }
+
+    function createDataRow(rowIndex) {
+      const tr = document.createElement('tr');
+      tr.className = 'row-data';
+      tr.dataset.rowType = 'DATA';
+      tr.dataset.rowIndex = rowIndex;
+      if (selectedRows.has(rowIndex) && !(rangeBounds && rangeBounds.rows.has(rowIndex))) {
+        tr.classList.add('row-selected');
+      }
+      fillCells(tr, rows[rowIndex] || []);
+      if (rangeBounds && rangeBounds.rows.has(rowIndex)) {
+        for (const colIndex of rangeBounds.cols) {
+          tr.children[columnPositions[colIndex]].classList.add('cell-selected');
+        }
+      }
+      return tr;
+    }
+
+    function fillCells(tr, values) {
+      columns.forEach((colIndex, position) => {
+        const td = document.createElement('td');
+        td.className = 'editable' + getFrozenClasses(position);
+        td.dataset.colIndex = colIndex;
+        td.textContent = values[colIndex] || '';
+        tr.appendChild(td);
+      });
+    }
+
+    function getFrozenClasses(position) {
+      if (position >= frozenCount) return '';
+      return position === frozenCount - 1 ? ' frozen frozen-last' : ' frozen';
+    }
+
+    function setSpacerHeight(spacer, height) {
+      spacer.firstChild.style.height = height + 'px';
+    }
+
+    // ---- Virtual rendering ----
+
+    // Offset of the first DATA row within the scrolled content
+    function getRowsTop() {
+      return topSpacer.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    }
+
+    // Height of the sticky description and heading row covering the top of the viewport
+    function getStickyHeight() {
+      return headerRow.getBoundingClientRect().bottom - container.getBoundingClientRect().top;
+    }
+
+    function renderRows(force) {
+      if (!topSpacer) return;
+
+      if (order.length === 0) {
+        if (rendered.first !== -1 || force) {
+          removeRenderedRows();
+          setSpacerHeight(topSpacer, 0);
+          setSpacerHeight(bottomSpacer, 0);
+          rendered = { first: -1, last: -1 };
+        }
+        return;
+      }
+
+      // Measure the row height from a real row the first time rows are shown
+      if (!rowHeight) {
+        removeRenderedRows();
+        const probe = createDataRow(order[0]);
+        tbody.insertBefore(probe, bottomSpacer);
+        rowHeight = probe.getBoundingClientRect().height || 24;
+        probe.remove();
+      }
+
+      const top = container.scrollTop - getRowsTop();
+      const first = Math.max(0, Math.floor(top / rowHeight) - OVERSCAN_ROWS);
+      const last = Math.min(order.length - 1, Math.ceil((top + container.clientHeight) / rowHeight) + OVERSCAN_ROWS);
+
+      if (!force && first === rendered.first && last === rendered.last) return;
+
+      // Keep the cell editor alive across the re-render
+      const editorState = editing && editing.rowType === 'DATA' && editing.editor
+        ? { value: editing.editor.getValue(), start: editing.input.selectionStart, end: editing.input.selectionEnd }
+        : null;
+
+      removeRenderedRows();
+      const fragment = document.createDocumentFragment();
+      for (let position = first; position <= last; position++) {
+        fragment.appendChild(createDataRow(order[position]));
+      }
+      tbody.insertBefore(fragment, bottomSpacer);
+      setSpacerHeight(topSpacer, first * rowHeight);
+      setSpacerHeight(bottomSpacer, (order.length - 1 - last) * rowHeight);
+      rendered = { first, last };
+
+      if (editorState) {
+        const cell = getCell('DATA', editing.rowIndex, editing.colIndex);
+        if (cell) {
+          attachEditor(cell, editorState.value, editorState.start, editorState.end);
+        }
+      }
+      updateFrozenOffsets();
+    }
+
+    function removeRenderedRows() {
+      while (topSpacer.nextSibling && topSpacer.nextSibling !== bottomSpacer) {
+        topSpacer.nextSibling.remove();
+      }
+    }
+
+    let renderScheduled = false;
+    container.addEventListener('scroll', () => {
+      if (renderScheduled) return;
+      renderScheduled = true;
+      requestAnimationFrame(() => {
+        renderScheduled = false;
+        renderRows(false);
+        saveScroll();
+      });
+    });
+
+    window.addEventListener('resize', () => renderRows(false));
+
+    function saveScroll() {
+      if (pendingScroll !== null || !groupName) return;
+      const state = vscode.getState() || {};
+      state.scroll = Object.assign({}, state.scroll, { [groupName]: container.scrollTop });
+      vscode.setState(state);
+    }
+
+    function getRowElement(rowType, rowIndex) {
+      if (rowType === 'UNIT') return unitRow;
+      if (rowType === 'TYPE') return typeRow;
+      return tbody.querySelector('tr.row-data[data-row-index="' + rowIndex + '"]');
+    }
+
+    function getCell(rowType, rowIndex, colIndex) {
+      const row = getRowElement(rowType, rowIndex);
+      return row ? row.children[columnPositions[colIndex]] || null : null;
+    }
+
+    /**
+     * Scroll a DATA row into view and render it; returns false if it is filtered out
+     */
+    function scrollToRow(rowIndex) {
+      const position = order.indexOf(rowIndex);
+      if (position < 0) return false;
+
+      if (!rowHeight) renderRows(true);
+      const rowTop = getRowsTop() + position * rowHeight;
+      const viewTop = container.scrollTop + getStickyHeight();
+      const viewBottom = container.scrollTop + container.clientHeight;
+
+      if (rowTop < viewTop) {
+        container.scrollTop = rowTop - getStickyHeight();
+      } else if (rowTop + rowHeight > viewBottom) {
+        container.scrollTop = rowTop + rowHeight - container.clientHeight;
+      }
+      renderRows(false);
+      return true;
+    }
+
+    // ---- Sorting and filtering ----
+
+    function loadView() {
+      const saved = ((vscode.getState() || {}).views || {})[groupName];
+      view = saved ? { sort: saved.sort || null, filters: saved.filters || {} } : { sort: null, filters: {} };
+    }
+
+    function saveView() {
+      const state = vscode.getState() || {};
+      state.views = Object.assign({}, state.views, { [groupName]: view });
+      vscode.setState(state);
+    }
+
+    function headingIndex(name) {
+      return headings.findIndex((heading) => heading.name === name);
+    }
+
+    function isNumericColumn(colIndex) {
+      const type = headings[colIndex] ? headings[colIndex].type : '';
+      return /^\\d+(DP|SF|SCI)$/.test(type) || type === 'U' || type === 'MC';
+    }
+
+    function toNumber(value) {
+      return value.trim() === '' ? NaN : Number(value);
+    }
+
+    // Empty values sort last in either direction; numbers before text in numeric columns
+    function compareValues(a, b, numeric, direction) {
+      if (!a || !b) return a === b ? 0 : a ? -1 : 1;
+      if (numeric) {
+        const x = toNumber(a);
+        const y = toNumber(b);
+        if (!isNaN(x) && !isNaN(y)) return (x - y) * direction;
+        if (!isNaN(x) || !isNaN(y)) return isNaN(x) ? 1 : -1;
+      }
+      return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }) * direction;
+    }
+
+    function getActiveFilters() {
+      return Object.keys(view.filters)
+        .map((name) => ({ colIndex: headingIndex(name), filter: view.filters[name] }))
+        .filter((entry) => entry.colIndex >= 0);
+    }
+
+    function matchesFilters(row, filters) {
+      for (const { colIndex, filter } of filters) {
+        const value = row[colIndex] || '';
+        if (filter.text && !value.toLowerCase().includes(filter.text.toLowerCase())) return false;
+        if (filter.values && !filter.values.includes(value)) return false;
+        if (filter.min !== undefined || filter.max !== undefined) {
+          const number = toNumber(value);
+          if (isNaN(number)) return false;
+          if (filter.min !== undefined && number < filter.min) return false;
+          if (filter.max !== undefined && number > filter.max) return false;
+        }
+      }
+      return true;
+    }
+
+    function scheduleApplyView() {
+      if (viewScheduled) return;
+      viewScheduled = true;
+      requestAnimationFrame(() => {
+        viewScheduled = false;
+        applyView();
+      });
+    }
+
+    function applyView() {
+      const filters = getActiveFilters();
+      order = [];
+      for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+        if (rows[rowIndex] && matchesFilters(rows[rowIndex], filters)) {
+          order.push(rowIndex);
+        }
+      }
+
+      const sortIndex = view.sort ? headingIndex(view.sort.heading) : -1;
+      if (sortIndex >= 0) {
+        const numeric = isNumericColumn(sortIndex);
+        const direction = view.sort.direction;
+        order.sort((a, b) =>
+          compareValues(rows[a][sortIndex] || '', rows[b][sortIndex] || '', numeric, direction) || a - b
+        );
+      }
+
+      Array.from(headerRow.children).forEach((th) => {
+        const colIndex = parseInt(th.dataset.colIndex);
+        th.querySelector('.sort-indicator').textContent = sortIndex === colIndex
+          ? (view.sort.direction > 0 ? '\\u25B2' : '\\u25BC')
+          : '';
+        th.classList.toggle('filtered', filters.some((entry) => entry.colIndex === colIndex));
+      });
+
+      const loaded = rows.length;
+      const columnCount = columns.length < headings.length
+        ? columns.length + ' of ' + headings.length + ' columns'
+        : headings.length + ' columns';
+      let count;
+      if (loaded < expectedRows) {
+        count = 'Loading ' + loaded + ' of ' + expectedRows + ' records...';
+      } else if (filters.length > 0) {
+        count = order.length + ' of ' + loaded + ' records, ' + columnCount;
+      } else {
+        count = loaded + ' records, ' + columnCount;
+      }
+      document.getElementById('recordCount').textContent = count;
+      document.getElementById('clearFilters').hidden = filters.length === 0;
+
+      updateRangeBounds();
+      renderRows(true);
+
+      if (pendingScroll !== null && rows.length >= expectedRows) {
+        if (pendingHighlight) {
+          pendingScroll = null;
+          highlightRow(pendingHighlight.rowType, pendingHighlight.rowIndex);
+          pendingHighlight = null;
+        } else {
+          container.scrollTop = pendingScroll;
+          pendingScroll = null;
+          renderRows(false);
+        }
+      }
+    }
+
+    // Clicking a heading cycles ascending, descending, file order
+    headerRow.addEventListener('click', (e) => {
+      const th = e.target.closest('th[data-col-index]');
+      if (!th || e.target.closest('.resize-handle') || columnResized) return;
+      const colIndex = parseInt(th.dataset.colIndex);
+
+      if (e.target.closest('.filter-button')) {
+        e.stopPropagation();
+        const reopen = !openPopup || openPopup.colIndex !== colIndex;
+        closeFilterPopup();
+        if (reopen) {
+          showFilterPopup(th, colIndex);
+        }
+        return;
+      }
+
+      const heading = headings[colIndex].name;
+      if (!view.sort || view.sort.heading !== heading) {
+        view.sort = { heading, direction: 1 };
+      } else if (view.sort.direction > 0) {
+        view.sort = { heading, direction: -1 };
+      } else {
+        view.sort = null;
+      }
+      saveView();
+      applyView();
+    });
+
+    document.getElementById('clearFilters').addEventListener('click', () => {
+      view.filters = {};
+      saveView();
+      applyView();
+    });
+
+    document.addEventListener('mousedown', (e) => {
+      if (openPopup && !openPopup.element.contains(e.target) && !e.target.closest('.filter-button')) {
+        closeFilterPopup();
+      }
+      if (!contextMenu.hidden && !contextMenu.contains(e.target)) {
+        hideContextMenu();
+      }
+    });
+
+    function closeFilterPopup() {
+      if (openPopup) {
+        openPopup.element.remove();
+        openPopup = null;
+      }
+    }
+
+    function showFilterPopup(th, colIndex) {
+      const heading = headings[colIndex].name;
+      const filter = view.filters[heading] || {};
+      const numeric = isNumericColumn(colIndex);
+      const popup = document.createElement('div');
+      popup.className = 'filter-popup';
+
+      const text = document.createElement('input');
+      text.type = 'text';
+      text.placeholder = 'Contains...';
+      text.value = filter.text || '';
+      popup.appendChild(text);
+
+      let min = null;
+      let max = null;
+      if (numeric) {
+        const range = document.createElement('div');
+        range.className = 'filter-range';
+        min = document.createElement('input');
+        max = document.createElement('input');
+        for (const [input, label, value] of [[min, 'Min', filter.min], [max, 'Max', filter.max]]) {
+          input.type = 'number';
+          input.step = 'any';
+          input.placeholder = label;
+          input.value = value === undefined ? '' : String(value);
+          range.appendChild(input);
+        }
+        popup.appendChild(range);
+      }
+
+      // Distinct values with their counts, in the column's sort order
+      const counts = new Map();
+      for (const row of rows) {
+        const value = (row && row[colIndex]) || '';
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+      const values = Array.from(counts.keys()).sort((a, b) => compareValues(a, b, numeric, 1));
+      const checkboxes = [];
+
+      if (values.length <= MAX_FILTER_VALUES) {
+        const list = document.createElement('div');
+        list.className = 'filter-values';
+        for (const value of values) {
+          const label = document.createElement('label');
+          const checkbox = document.createElement('input');
+          checkbox.type = 'checkbox';
+          checkbox.checked = !filter.values || filter.values.includes(value);
+          checkbox.dataset.value = value;
+          checkboxes.push(checkbox);
+          label.appendChild(checkbox);
+          label.appendChild(document.createTextNode(' ' + (value || '(empty)') + ' (' + counts.get(value) + ')'));
+          list.appendChild(label);
+        }
+        popup.appendChild(list);
+      } else {
+        const note = document.createElement('div');
+        note.className = 'filter-note';
+        note.textContent = values.length + ' distinct values; use the text or range filter';
+        popup.appendChild(note);
+      }
+
+      const actions = document.createElement('div');
+      actions.className = 'filter-actions';
+      const clear = document.createElement('button');
+      clear.className = 'secondary';
+      clear.textContent = 'Clear';
+      const apply = document.createElement('button');
+      apply.textContent = 'Apply';
+      actions.appendChild(clear);
+      actions.appendChild(apply);
+      popup.appendChild(actions);
+
+      const commit = (next) => {
+        if (next) {
+          view.filters[heading] = next;
+        } else {
+          delete view.filters[heading];
+        }
+        saveView();
+        applyView();
+        closeFilterPopup();
+      };
+
+      clear.addEventListener('click', () => commit(null));
+      apply.addEventListener('click', () => {
+        const next = {};
+        if (text.value) next.text = text.value;
+        if (min && min.value !== '') next.min = Number(min.value);
+        if (max && max.value !== '') next.max = Number(max.value);
+        const unchecked = checkboxes.some((checkbox) => !checkbox.checked);
+        if (unchecked) {
+          next.values = checkboxes.filter((checkbox) => checkbox.checked).map((checkbox) => checkbox.dataset.value);
+        }
+        commit(Object.keys(next).length > 0 ? next : null);
+      });
+      popup.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') apply.click();
+        if (e.key === 'Escape') closeFilterPopup();
+      });
+
+      const rect = th.getBoundingClientRect();
+      popup.style.top = rect.bottom + 'px';
+      popup.style.left = Math.max(0, Math.min(rect.left, window.innerWidth - 330)) + 'px';
+      document.body.appendChild(popup);
+      openPopup = { element: popup, colIndex };
+      text.focus();
+    }
+
+    // ---- Selection ----
+
+    function loadSelection() {
+      const saved = ((vscode.getState() || {}).selections || {})[groupName];
+      selectedRows = new Set(saved ? saved.rows.filter((rowIndex) => rowIndex < expectedRows) : []);
+      activeCol = saved ? Math.min(saved.col || 0, Math.max(headings.length - 1, 0)) : 0;
+      anchorRow = null;
+    }
+
+    function saveSelection(rowsToSave, col) {
+      const state = vscode.getState() || {};
+      state.selections = Object.assign({}, state.selections, {
+        [groupName]: { rows: rowsToSave || Array.from(selectedRows), col: col === undefined ? activeCol : col },
+      });
+      vscode.setState(state);
+      requestRelated(false);
+    }
+
+    function selectRow(rowType, rowIndex, toggle, extend) {
+      cellRange = null;
+      rangeBounds = null;
+      if (unitRow) unitRow.classList.remove('row-selected');
+      if (typeRow) typeRow.classList.remove('row-selected');
+
+      if (rowType !== 'DATA') {
+        selectedRows.clear();
+        anchorRow = null;
+        renderSelection();
+        const row = getRowElement(rowType, 0);
+        if (row) row.classList.add('row-selected');
+        saveSelection();
+        return;
+      }
+
+      const anchor = anchorRow === null ? -1 : order.indexOf(anchorRow);
+      if (extend && anchor >= 0) {
+        const target = order.indexOf(rowIndex);
+        if (!toggle) selectedRows.clear();
+        for (let i = Math.min(anchor, target); i <= Math.max(anchor, target); i++) {
+          selectedRows.add(order[i]);
+        }
+      } else if (toggle) {
+        if (selectedRows.has(rowIndex)) {
+          selectedRows.delete(rowIndex);
+        } else {
+          selectedRows.add(rowIndex);
+        }
+        anchorRow = rowIndex;
+      } else {
+        selectedRows = new Set([rowIndex]);
+        anchorRow = rowIndex;
+      }
+
+      renderSelection();
+      saveSelection();
+    }
+
+    function renderSelection() {
+      tbody.querySelectorAll('tr.row-data').forEach((row) => {
+        const rowIndex = parseInt(row.dataset.rowIndex);
+        const inRange = rangeBounds && rangeBounds.rows.has(rowIndex);
+        row.classList.toggle('row-selected', selectedRows.has(rowIndex) && !inRange);
+        Array.from(row.children).forEach((cell) => {
+          cell.classList.toggle('cell-selected', !!inRange && rangeBounds.colSet.has(parseInt(cell.dataset.colIndex)));
+        });
+      });
+    }
+
+    function highlightRow(rowType, rowIndex) {
+      if (rowType === 'DATA') {
+        // Keep a multi-row selection that already includes the cursor's row
+        if (!selectedRows.has(rowIndex)) {
+          selectRow('DATA', rowIndex, false, false);
+        }
+        scrollToRow(rowIndex);
+      } else if (rowType === 'UNIT' || rowType === 'TYPE') {
+        selectRow(rowType, 0, false, false);
+      }
+    }
+
+    // Selected rows in file order, ignoring any hidden by a filter
+    function getSelectedRows() {
+      const visible = new Set(order);
+      return Array.from(selectedRows)
+        .filter((rowIndex) => visible.has(rowIndex))
+        .sort((a, b) => a - b);
+    }
+
+    // Row clicks select (Ctrl/Cmd toggles, Shift extends) and navigate to the row
+    tbody.addEventListener('click', (e) => {
+      if (e.target.closest('td.editing') || e.target.tagName === 'INPUT') return;
+      const row = e.target.closest('tr[data-row-type]');
+      if (!row) return;
+
+      const cell = e.target.closest('td[data-col-index]');
+      if (cell) {
+        activeCol = parseInt(cell.dataset.colIndex);
+      }
+      const rowType = row.dataset.rowType;
+      const rowIndex = parseInt(row.dataset.rowIndex) || 0;
+      const toggle = e.ctrlKey || e.metaKey;
+
+      if (dragMoved) {
+        // The mouse was dragged across cells: the block is already selected
+        dragMoved = false;
+        return;
+      }
+      if (rowType === 'DATA' && cell && !toggle) {
+        if (e.shiftKey && cellRange) {
+          setCellRange(cellRange.anchorRow, cellRange.anchorCol, rowIndex, activeCol);
+        } else {
+          setCellRange(rowIndex, activeCol, rowIndex, activeCol);
+        }
+      } else {
+        selectRow(rowType, rowIndex, toggle, e.shiftKey);
+      }
+      if (toggle || e.shiftKey) return;
+
+      vscode.postMessage({ type: 'navigate', rowType, rowIndex });
+    });
+
+    // ---- Cell ranges ----
+
+    function updateRangeBounds() {
+      rangeBounds = null;
+      if (!cellRange) return;
+      const anchor = order.indexOf(cellRange.anchorRow);
+      const focus = order.indexOf(cellRange.focusRow);
+      const anchorCol = columnPositions[cellRange.anchorCol];
+      const focusCol = columnPositions[cellRange.focusCol];
+      if (anchor < 0 || focus < 0 || !(anchorCol >= 0) || !(focusCol >= 0)) return;
+      // Columns in display order, which may differ from the file's
+      rangeBounds = {
+        rowIndices: order.slice(Math.min(anchor, focus), Math.max(anchor, focus) + 1),
+        cols: columns.slice(Math.min(anchorCol, focusCol), Math.max(anchorCol, focusCol) + 1),
+      };
+      rangeBounds.rows = new Set(rangeBounds.rowIndices);
+      rangeBounds.colSet = new Set(rangeBounds.cols);
+    }
+
+    function setCellRange(anchorRowIndex, anchorCol, focusRowIndex, focusCol) {
+      if (unitRow) unitRow.classList.remove('row-selected');
+      if (typeRow) typeRow.classList.remove('row-selected');
+
+      cellRange = { anchorRow: anchorRowIndex, anchorCol, focusRow: focusRowIndex, focusCol };
+      updateRangeBounds();
+      selectedRows = new Set(rangeBounds ? rangeBounds.rowIndices : []);
+      anchorRow = anchorRowIndex;
+      activeCol = focusCol;
+      renderSelection();
+      saveSelection();
+    }
+
+    function isCellSelected(rowIndex, colIndex) {
+      return !!rangeBounds && rangeBounds.rows.has(rowIndex) && rangeBounds.colSet.has(colIndex);
+    }
+
+    /**
+     * Select the cells the extension just pasted into; rows that are not together in
+     * the current sort order are selected as whole rows
+     */
+    function selectCells(rowIndices, colIndices) {
+      const positions = rowIndices.map((rowIndex) => order.indexOf(rowIndex)).sort((a, b) => a - b);
+      const first = positions[0];
+      const last = positions[positions.length - 1];
+      const colPositions = colIndices.map((colIndex) => columnPositions[colIndex]).filter((position) => position >= 0);
+      if (positions.length > 0 && first >= 0 && last - first + 1 === positions.length && colPositions.length > 0) {
+        setCellRange(order[first], columns[Math.min(...colPositions)], order[last], columns[Math.max(...colPositions)]);
+      } else {
+        selectRow('DATA', rowIndices[0], false, false);
+        selectedRows = new Set(rowIndices);
+        renderSelection();
+        saveSelection();
+      }
+    }
+
+    // Move the active cell, or with Shift extend the block, by whole rows and columns
+    function moveCellFocus(rowDelta, colDelta, extend) {
+      if (order.length === 0 || columns.length === 0) return;
+      const focusRow = cellRange ? cellRange.focusRow : anchorRow;
+      const focusCol = cellRange ? cellRange.focusCol : activeCol;
+      let position = order.indexOf(focusRow);
+      if (position < 0) position = 0;
+      position = Math.max(0, Math.min(order.length - 1, position + rowDelta));
+      const colPosition = Math.max(0, Math.min(columns.length - 1, Math.max(columnPositions[focusCol], 0) + colDelta));
+      const col = columns[colPosition];
+      const rowIndex = order[position];
+
+      if (extend && cellRange) {
+        setCellRange(cellRange.anchorRow, cellRange.anchorCol, rowIndex, col);
+      } else {
+        setCellRange(rowIndex, col, rowIndex, col);
+      }
+      scrollToRow(rowIndex);
+    }
+
+    // Press and drag across DATA cells to select a block
+    tbody.addEventListener('mousedown', (e) => {
+      if (e.button !== 0 || e.shiftKey || e.ctrlKey || e.metaKey || e.target.closest('td.editing')) return;
+      const cell = e.target.closest('tr.row-data td[data-col-index]');
+      if (!cell) return;
+      const rowIndex = parseInt(cell.parentElement.dataset.rowIndex);
+      const colIndex = parseInt(cell.dataset.colIndex);
+      dragging = true;
+      dragMoved = false;
+      setCellRange(rowIndex, colIndex, rowIndex, colIndex);
+    });
+
+    tbody.addEventListener('mouseover', (e) => {
+      if (!dragging || !cellRange) return;
+      const cell = e.target.closest('tr.row-data td[data-col-index]');
+      if (!cell) return;
+      const rowIndex = parseInt(cell.parentElement.dataset.rowIndex);
+      const colIndex = parseInt(cell.dataset.colIndex);
+      if (rowIndex === cellRange.focusRow && colIndex === cellRange.focusCol) return;
+      dragMoved = true;
+      setCellRange(cellRange.anchorRow, cellRange.anchorCol, rowIndex, colIndex);
+    });
+
+    document.addEventListener('mouseup', () => {
+      dragging = false;
+      if (resizing) {
+        resizing = null;
+        saveLayout();
+        // The click that ends a resize must not sort the column
+        columnResized = true;
+        setTimeout(() => {
+          columnResized = false;
+        });
+      }
+    });
+
+    // ---- Copy and paste ----
+
+    // The selected block, or else the selected rows in full, in display order
+    function getCopyBounds() {
+      if (rangeBounds) return rangeBounds;
+      const rowIndices = order.filter((rowIndex) => selectedRows.has(rowIndex));
+      return rowIndices.length > 0 ? { rowIndices, cols: columns } : null;
+    }
+
+    function copyCells(includeHeadings) {
+      const bounds = getCopyBounds();
+      if (!bounds || headings.length === 0) return false;
+      vscode.postMessage({
+        type: 'copyCells',
+        rowIndices: bounds.rowIndices,
+        colIndices: bounds.cols,
+        includeHeadings,
+      });
+      return true;
+    }
+
+    // Paste into the selection; with nothing selected the pasted rows are added to the group
+    function pasteCells(text) {
+      if (columns.length === 0) return;
+      const bounds = getCopyBounds() || { rowIndices: [], cols: columns };
+      vscode.postMessage({
+        type: 'pasteCells',
+        rowIndices: bounds.rowIndices,
+        colIndices: columns.slice(columnPositions[bounds.cols[0]]),
+        width: bounds.cols.length,
+        text,
+      });
+    }
+
+    document.addEventListener('copy', (e) => {
+      if (e.target.tagName === 'INPUT' || editing) return;
+      if (copyCells(false)) {
+        e.preventDefault();
+      }
+    });
+
+    document.addEventListener('paste', (e) => {
+      if (e.target.tagName === 'INPUT' || editing) return;
+      e.preventDefault();
+      pasteCells(e.clipboardData.getData('text/plain'));
+    });
+
+    // ---- Cell editing ----
+
+    tbody.addEventListener('dblclick', (e) => {
+      const cell = e.target.closest('td.editable');
+      if (!cell || cell.classList.contains('editing')) return;
+      e.stopPropagation();
+      startEditing(cell);
+    });
+
+    function startEditing(cell) {
+      if (editing) commitEdit();
+
+      const row = cell.parentElement;
+      const value = cell.textContent || '';
+      editing = {
+        rowType: row.dataset.rowType,
+        rowIndex: parseInt(row.dataset.rowIndex) || 0,
+        colIndex: parseInt(cell.dataset.colIndex),
+        original: value,
+        input: null,
+        editor: null,
+      };
+      attachEditor(cell, value, 0, value.length);
+    }
+
+    function attachEditor(cell, value, selectionStart, selectionEnd) {
+      const session = editing;
+      const editor = createEditor(session.rowType, session.colIndex, value);
+      const input = editor.element;
+      cell.classList.add('editing');
+      cell.textContent = '';
+      cell.appendChild(input);
+      session.input = input;
+      session.editor = editor;
+      input.focus();
+      if (editor.kind === 'text') {
+        input.setSelectionRange(selectionStart, selectionEnd);
+      }
+
+      input.addEventListener('keydown', handleEditorKeydown);
+      input.addEventListener('blur', () => {
+        // Small delay to allow Tab handling to work; a re-render moves focus to a new input
+        setTimeout(() => {
+          if (editing === session && document.activeElement !== session.input) {
+            commitEdit();
+          }
+        }, 100);
+      });
+    }
+
+    function commitEdit() {
+      const session = editing;
+      if (!session) return;
+      editing = null;
+
+      const newValue = session.editor ? session.editor.getValue() : session.original;
+      const cell = session.input ? session.input.parentElement : null;
+      if (cell) {
+        cell.classList.remove('editing');
+        cell.textContent = newValue;
+      }
+
+      if (newValue !== session.original) {
+        // Show the new value straight away; the extension confirms it with a row update
+        const values = session.rowType === 'UNIT' ? units : session.rowType === 'TYPE' ? types : rows[session.rowIndex];
+        if (values) values[session.colIndex] = newValue;
+
+        vscode.postMessage({
+          type: 'cellEdit',
+          rowType: session.rowType,
+          rowIndex: session.rowIndex,
+          colIndex: session.colIndex,
+          oldValue: session.original,
+          newValue: newValue
+        });
+      }
+    }
+
+    function cancelEdit() {
+      const session = editing;
+      if (!session) return;
+      editing = null;
+      const cell = session.input ? session.input.parentElement : null;
+      if (cell) {
+        cell.classList.remove('editing');
+        cell.textContent = session.original;
+      }
+    }
+
+    // ---- Cell editors ----
+
+    /**
+     * Editor for a cell, chosen from its column's TYPE and the values the extension
+     * sent for it: { kind, element, getValue() }. UNIT and TYPE rows are plain text.
+     */
+    function createEditor(rowType, colIndex, value) {
+      const heading = headings[colIndex];
+      if (rowType === 'DATA') {
+        if (heading.options) return createSelectEditor(value, heading.options);
+        if (heading.type === 'YN') return createToggleEditor(value);
+        if (heading.type === 'DT') {
+          const picker = createDateEditor(value, (units && units[colIndex]) || 'yyyy-mm-dd');
+          if (picker) return picker;
+        }
+        if (/^\\d+(DP|SF|SCI)$/.test(heading.type)) return createNumberEditor(value);
+      }
+      return createTextEditor(value);
+    }
+
+    function createTextEditor(value) {
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.value = value;
+      return { kind: 'text', element: input, getValue: () => input.value };
+    }
+
+    // Numbers are rounded to the column's precision by the extension when committed
+    function createNumberEditor(value) {
+      const editor = createTextEditor(value);
+      const input = editor.element;
+      input.inputMode = 'decimal';
+      const validate = () => {
+        const text = input.value.trim();
+        input.classList.toggle('invalid', text !== '' && !/^[+-]?(\\d+\\.?\\d*|\\.\\d+)(e[+-]?\\d+)?$/i.test(text));
+      };
+      input.addEventListener('input', validate);
+      validate();
+      return editor;
+    }
+
+    // Pick-list codes or parent IDs; a value not in the list is kept as the first option
+    function createSelectEditor(value, options) {
+      const select = document.createElement('select');
+      const values = options.map((option) => option.value);
+      const entries = [{ value: '', description: '' }];
+      if (value && !values.includes(value)) {
+        entries.push({ value, description: '(not in list)' });
+      }
+      for (const entry of entries.concat(options)) {
+        const option = document.createElement('option');
+        option.value = entry.value;
+        option.textContent = entry.description ? entry.value + ' \\u2013 ' + entry.description : entry.value;
+        select.appendChild(option);
+      }
+      select.value = value;
+      return { kind: 'select', element: select, getValue: () => select.value };
+    }
+
+    // Y/N toggle: click or Space switches the value
+    function createToggleEditor(value) {
+      const button = document.createElement('button');
+      let current = value;
+      const render = () => {
+        button.textContent = current === 'Y' ? '\\u2611 Y' : current === 'N' ? '\\u2610 N' : '\\u2610 (empty)';
+      };
+      button.addEventListener('click', (e) => {
+        e.stopPropagation();
+        current = current === 'Y' ? 'N' : 'Y';
+        render();
+      });
+      render();
+      return { kind: 'toggle', element: button, getValue: () => current };
+    }
+
+    /**
+     * Date or time picker for a DT column whose UNIT format the browser can edit.
+     * Returns null (use a text box) for other formats or values the picker cannot show.
+     */
+    function createDateEditor(value, format) {
+      const inputTypes = {
+        'yyyy-mm-dd': 'date',
+        'yyyy-mm-ddThh:mm': 'datetime-local',
+        'yyyy-mm-ddThh:mm:ss': 'datetime-local',
+        'hh:mm': 'time',
+        'hh:mm:ss': 'time',
+      };
+      if (!inputTypes[format]) return null;
+
+      const input = document.createElement('input');
+      input.type = inputTypes[format];
+      if (format.endsWith(':ss')) {
+        input.step = '1';
+      }
+
+      // The picker drops seconds that are zero; put them back to match the format
+      const getValue = () => {
+        const picked = input.value;
+        return format.endsWith(':ss') && /(^|T)\\d{2}:\\d{2}$/.test(picked) ? picked + ':00' : picked;
+      };
+
+      input.value = value;
+      if (getValue() !== value) return null;
+      return { kind: 'date', element: input, getValue };
+    }
+
+    /**
+     * Row above or below in display order: UNIT, TYPE, then the visible DATA rows
+     */
+    function getAdjacentRow(rowType, rowIndex, delta) {
+      const headerRows = [];
+      if (units) headerRows.push('UNIT');
+      if (types) headerRows.push('TYPE');
+
+      let position = rowType === 'DATA' ? headerRows.length + order.indexOf(rowIndex) : headerRows.indexOf(rowType);
+      position += delta;
+      if (position < 0 || position >= headerRows.length + order.length) return null;
+      return position < headerRows.length
+        ? { rowType: headerRows[position], rowIndex: 0 }
+        : { rowType: 'DATA', rowIndex: order[position - headerRows.length] };
+    }
+
+    // The column shown before or after another, or -1 at either end
+    function getAdjacentColumn(colIndex, delta) {
+      const position = columnPositions[colIndex] + delta;
+      return position >= 0 && position < columns.length ? columns[position] : -1;
+    }
+
+    function editCell(rowType, rowIndex, colIndex) {
+      if (colIndex < 0 || colIndex >= headings.length) return;
+      if (rowType === 'DATA' && !scrollToRow(rowIndex)) return;
+      const cell = getCell(rowType, rowIndex, colIndex);
+      if (cell) {
+        activeCol = colIndex;
+        startEditing(cell);
+      }
+    }
+
+    function handleEditorKeydown(e) {
+      const session = editing;
+      if (!session) return;
+      const input = e.target;
+      const { rowType, rowIndex, colIndex } = session;
+      const kind = session.editor.kind;
+      e.stopPropagation();
+
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        commitEdit();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        cancelEdit();
+      } else if (e.key === 'Tab') {
+        e.preventDefault();
+        commitEdit();
+        editCell(rowType, rowIndex, getAdjacentColumn(colIndex, e.shiftKey ? -1 : 1));
+      } else if ((e.key === 'ArrowUp' || e.key === 'ArrowDown') && kind !== 'select' && kind !== 'date') {
+        // Lists and pickers use the up and down keys to change their value
+        e.preventDefault();
+        commitEdit();
+        const target = getAdjacentRow(rowType, rowIndex, e.key === 'ArrowUp' ? -1 : 1);
+        if (target) {
+          editCell(target.rowType, target.rowIndex, colIndex);
+        }
+      } else if (e.key === 'ArrowLeft' && (kind === 'select' || kind === 'toggle' || (kind === 'text' && input.selectionStart === 0 && input.selectionEnd === 0))) {
+        e.preventDefault();
+        commitEdit();
+        editCell(rowType, rowIndex, getAdjacentColumn(colIndex, -1));
+      } else if (e.key === 'ArrowRight' && (kind === 'select' || kind === 'toggle' || (kind === 'text' && input.selectionStart === input.value.length))) {
+        e.preventDefault();
+        commitEdit();
+        editCell(rowType, rowIndex, getAdjacentColumn(colIndex, 1));
+      }
+    }
+
+    // ---- Bulk edits ----
+
+    // Fill the selected block down from its first row, or continue the series its first rows start
+    function fillSelection(mode) {
+      if (!rangeBounds || rangeBounds.rowIndices.length < 2) return;
+      vscode.postMessage({
+        type: 'fillCells',
+        rowIndices: rangeBounds.rowIndices,
+        colIndices: rangeBounds.cols,
+        mode,
+      });
+    }
+
+    function hasBlockSelected() {
+      return !!rangeBounds && (rangeBounds.rowIndices.length > 1 || rangeBounds.cols.length > 1);
+    }
+
+    // Transform the selected block, or the active column when a single cell is selected
+    function transformCells(wholeColumn) {
+      if (headings.length === 0) return;
+      if (!wholeColumn && hasBlockSelected()) {
+        vscode.postMessage({
+          type: 'transformCells',
+          rowIndices: rangeBounds.rowIndices,
+          colIndices: rangeBounds.cols,
+        });
+      } else {
+        vscode.postMessage({ type: 'transformCells', rowIndices: null, colIndices: [activeCol] });
+      }
+    }
+
+    const findBar = document.getElementById('findBar');
+    const findInput = document.getElementById('findInput');
+    const replaceInput = document.getElementById('replaceInput');
+    const findRegex = document.getElementById('findRegex');
+    const findCase = document.getElementById('findCase');
+    const findScope = document.getElementById('findScope');
+    const replaceAllButton = document.getElementById('replaceAll');
+
+    function showFindBar() {
+      const scope = findBar.hidden ? String(activeCol) : findScope.value;
+      findScope.textContent = '';
+      const group = document.createElement('option');
+      group.value = '';
+      group.textContent = 'Whole group';
+      findScope.appendChild(group);
+      headings.forEach((heading, colIndex) => {
+        const option = document.createElement('option');
+        option.value = String(colIndex);
+        option.textContent = 'Column ' + heading.name;
+        findScope.appendChild(option);
+      });
+      findScope.value = scope < headings.length ? scope : '';
+
+      findBar.hidden = false;
+      document.body.classList.add('finding');
+      findInput.focus();
+      findInput.select();
+      updateFindCount();
+      renderRows(false);
+    }
+
+    function hideFindBar() {
+      findBar.hidden = true;
+      document.body.classList.remove('finding');
+      renderRows(false);
+    }
+
+    // Same matching as the extension: literal text unless Regex is ticked
+    function getFindPattern() {
+      if (!findInput.value) return null;
+      const source = findRegex.checked ? findInput.value : findInput.value.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&');
+      return new RegExp(source, findCase.checked ? 'g' : 'gi');
+    }
+
+    function getFindColumns() {
+      return findScope.value === '' ? headings.map((_, colIndex) => colIndex) : [parseInt(findScope.value)];
+    }
+
+    function updateFindCount() {
+      if (findBar.hidden) return;
+      const findCount = document.getElementById('findCount');
+      let pattern;
+      try {
+        pattern = getFindPattern();
+      } catch (error) {
+        findCount.textContent = 'Invalid regular expression';
+        replaceAllButton.disabled = true;
+        return;
+      }
+      if (!pattern) {
+        findCount.textContent = '';
+        replaceAllButton.disabled = true;
+        return;
+      }
+
+      const columns = getFindColumns();
+      let count = 0;
+      for (const row of rows) {
+        if (!row) continue;
+        for (const colIndex of columns) {
+          pattern.lastIndex = 0;
+          if (pattern.test(row[colIndex] || '')) count++;
+        }
+      }
+      findCount.textContent = count + ' matching cell' + (count === 1 ? '' : 's');
+      replaceAllButton.disabled = count === 0;
+    }
+
+    for (const input of [findInput, findRegex, findCase, findScope]) {
+      input.addEventListener(input.type === 'text' ? 'input' : 'change', updateFindCount);
+    }
+
+    replaceAllButton.addEventListener('click', () => {
+      vscode.postMessage({
+        type: 'replaceAll',
+        find: findInput.value,
+        replace: replaceInput.value,
+        regex: findRegex.checked,
+        matchCase: findCase.checked,
+        colIndex: findScope.value === '' ? null : parseInt(findScope.value),
+      });
+    });
+
+    document.getElementById('closeFind').addEventListener('click', hideFindBar);
+
+    findBar.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        hideFindBar();
+      }
+    });
+
+    // ---- Column layout ----
+
+    const MIN_COLUMN_WIDTH = 40;
+    const layoutStyle = document.getElementById('layoutStyle');
+    // Column being resized: { name, startX, startWidth }
+    let resizing = null;
+    let columnResized = false;
+    let draggedCol = null;
+
+    function emptyLayout() {
+      return { frozen: [], hidden: [], order: [], widths: {} };
+    }
+
+    // Names of the columns that are not frozen in display order, hidden ones included;
+    // headings missing from the saved order (e.g. added since) follow in file order
+    function getUnfrozenOrder() {
+      const names = headings.map((heading) => heading.name).filter((name) => !layout.frozen.includes(name));
+      const ordered = layout.order.filter((name) => names.includes(name));
+      return ordered.concat(names.filter((name) => !ordered.includes(name)));
+    }
+
+    function computeColumns() {
+      const shown = (colIndex) => colIndex >= 0 && !layout.hidden.includes(headings[colIndex].name);
+      const frozen = layout.frozen.map(headingIndex).filter(shown);
+      columns = frozen.concat(getUnfrozenOrder().map(headingIndex).filter(shown));
+      if (columns.length === 0 && layout.hidden.length > 0) {
+        // Never hide every column
+        layout.hidden = [];
+        computeColumns();
+        return;
+      }
+      frozenCount = frozen.length;
+      columnPositions = headings.map(() => -1);
+      columns.forEach((colIndex, position) => {
+        columnPositions[colIndex] = position;
+      });
+      frozenLefts = [];
+      updateLayoutStyle();
+    }
+
+    // Column widths and frozen column offsets are style rules, so rows rendered later pick them up
+    function updateLayoutStyle() {
+      const rules = [];
+      for (const name of Object.keys(layout.widths)) {
+        const colIndex = headingIndex(name);
+        if (colIndex < 0) continue;
+        const width = layout.widths[name] + 'px';
+        rules.push('#dataTable [data-col-index="' + colIndex + '"] { width: ' + width + '; min-width: ' + width +
+          '; max-width: ' + width + '; overflow: hidden; text-overflow: ellipsis; }');
+      }
+      frozenLefts.forEach((left, position) => {
+        rules.push('#dataTable .frozen[data-col-index="' + columns[position] + '"] { left: ' + left + 'px; }');
+      });
+      layoutStyle.textContent = rules.join(' ');
+    }
+
+    // Frozen columns without a set width size to their content, so measure them as rows render
+    function updateFrozenOffsets() {
+      const lefts = [];
+      let left = 0;
+      for (let position = 0; position < frozenCount; position++) {
+        lefts.push(left);
+        const th = headerRow.children[position];
+        left += th ? th.getBoundingClientRect().width : 0;
+      }
+      if (lefts.join() !== frozenLefts.join()) {
+        frozenLefts = lefts;
+        updateLayoutStyle();
+      }
+    }
+
+    function isDefaultLayout() {
+      return layout.frozen.length === 0 && layout.hidden.length === 0 && Object.keys(layout.widths).length === 0 &&
+        getUnfrozenOrder().every((name, i) => name === headings[i].name);
+    }
+
+    // Send the layout to the extension, dropping headings the group no longer has
+    function saveLayout() {
+      const names = headings.map((heading) => heading.name);
+      const order = getUnfrozenOrder();
+      const fileOrder = names.filter((name) => !layout.frozen.includes(name));
+      const widths = {};
+      for (const name of Object.keys(layout.widths)) {
+        if (names.includes(name)) widths[name] = layout.widths[name];
+      }
+      layout = {
+        frozen: layout.frozen.filter((name) => names.includes(name)),
+        hidden: layout.hidden.filter((name) => names.includes(name)),
+        order: order.every((name, i) => name === fileOrder[i]) ? [] : order,
+        widths,
+      };
+      vscode.postMessage({ type: 'saveLayout', groupName, layout });
+    }
+
+    // Rebuild the table after the columns shown or their order change
+    function applyLayout() {
+      if (editing) commitEdit();
+      computeColumns();
+      buildHeader();
+      buildBody();
+      applyView();
+      saveLayout();
+    }
+
+    function setFrozen(name, frozen) {
+      layout.frozen = layout.frozen.filter((frozenName) => frozenName !== name);
+      if (frozen) {
+        layout.frozen.push(name);
+        layout.hidden = layout.hidden.filter((hiddenName) => hiddenName !== name);
+      }
+      applyLayout();
+    }
+
+    // Freeze the group's key fields (KEY in the dictionary) ahead of any other frozen columns
+    function freezeKeyColumns() {
+      const keys = headings.filter((heading) => heading.key).map((heading) => heading.name);
+      layout.frozen = keys.concat(layout.frozen.filter((name) => !keys.includes(name)));
+      layout.hidden = layout.hidden.filter((name) => !keys.includes(name));
+      applyLayout();
+    }
+
+    function hideColumn(name) {
+      if (columns.length <= 1 || layout.hidden.includes(name)) return;
+      layout.hidden.push(name);
+      applyLayout();
+    }
+
+    function showHiddenColumns() {
+      layout.hidden = [];
+      applyLayout();
+    }
+
+    function resetLayout() {
+      layout = emptyLayout();
+      applyLayout();
+    }
+
+    // Move a column before or after another for display. Dropping among the frozen
+    // columns freezes it; dropping among the others unfreezes it.
+    function moveDisplayColumn(colIndex, targetCol, after) {
+      const name = headings[colIndex].name;
+      const target = headings[targetCol].name;
+      if (name === target) return;
+
+      const order = getUnfrozenOrder().filter((other) => other !== name);
+      layout.frozen = layout.frozen.filter((other) => other !== name);
+      const list = layout.frozen.includes(target) ? layout.frozen : order;
+      list.splice(list.indexOf(target) + (after ? 1 : 0), 0, name);
+      layout.order = order;
+      applyLayout();
+    }
+
+    function clearDropMarkers() {
+      headerRow.querySelectorAll('.drop-before, .drop-after').forEach((th) => th.classList.remove('drop-before', 'drop-after'));
+    }
+
+    headerRow.addEventListener('dragstart', (e) => {
+      const th = e.target.closest('th[data-col-index]');
+      if (!th) return;
+      draggedCol = parseInt(th.dataset.colIndex);
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', headings[draggedCol].name);
+    });
+
+    headerRow.addEventListener('dragover', (e) => {
+      const th = e.target.closest('th[data-col-index]');
+      if (draggedCol === null || !th) return;
+      e.preventDefault();
+      const rect = th.getBoundingClientRect();
+      clearDropMarkers();
+      th.classList.add(e.clientX > rect.left + rect.width / 2 ? 'drop-after' : 'drop-before');
+    });
+
+    headerRow.addEventListener('drop', (e) => {
+      const th = e.target.closest('th[data-col-index]');
+      if (draggedCol === null || !th) return;
+      e.preventDefault();
+      const after = th.classList.contains('drop-after');
+      clearDropMarkers();
+      moveDisplayColumn(draggedCol, parseInt(th.dataset.colIndex), after);
+      draggedCol = null;
+    });
+
+    headerRow.addEventListener('dragend', () => {
+      draggedCol = null;
+      clearDropMarkers();
+    });
+
+    // Drag a heading's right edge to resize the column; double-click it to size to the content again
+    headerRow.addEventListener('mousedown', (e) => {
+      const handle = e.target.closest('.resize-handle');
+      if (!handle || e.button !== 0) return;
+      e.preventDefault();
+      const th = handle.parentElement;
+      resizing = {
+        name: headings[parseInt(th.dataset.colIndex)].name,
+        startX: e.clientX,
+        startWidth: th.getBoundingClientRect().width,
+      };
+    });
+
+    document.addEventListener('mousemove', (e) => {
+      if (!resizing) return;
+      layout.widths[resizing.name] = Math.max(MIN_COLUMN_WIDTH, Math.round(resizing.startWidth + e.clientX - resizing.startX));
+      updateLayoutStyle();
+      updateFrozenOffsets();
+    });
+
+    headerRow.addEventListener('dblclick', (e) => {
+      const handle = e.target.closest('.resize-handle');
+      if (!handle) return;
+      delete layout.widths[headings[parseInt(handle.parentElement.dataset.colIndex)].name];
+      updateLayoutStyle();
+      updateFrozenOffsets();
+      saveLayout();
+    });
+
+    // ---- Related records ----
+
+    const relatedPanel = document.getElementById('relatedPanel');
+
+    // The row the related records are shown for: the active cell's row, else the first selected row
+    function getFocusRow() {
+      if (cellRange) return cellRange.focusRow;
+      if (anchorRow !== null && selectedRows.has(anchorRow)) return anchorRow;
+      let first = null;
+      selectedRows.forEach((rowIndex) => {
+        if (first === null || rowIndex < first) first = rowIndex;
+      });
+      return first;
+    }
+
+    // Ask the extension for the focused row's related records, if the panel is open and the row changed
+    function requestRelated(force) {
+      if (relatedPanel.hidden) return;
+      const rowIndex = groupName ? getFocusRow() : null;
+      if (rowIndex === relatedRow && !force) return;
+
+      relatedRow = rowIndex;
+      if (rowIndex === null) {
+        showRelated(null);
+      }
+      vscode.postMessage({ type: 'showRelated', rowIndex });
+    }
+
+    function setRelatedPanel(open) {
+      relatedPanel.hidden = !open;
+      document.getElementById('toggleRelated').classList.toggle('active', open);
+      const state = vscode.getState() || {};
+      state.related = open;
+      vscode.setState(state);
+
+      if (open) {
+        requestRelated(true);
+      } else {
+        relatedRow = null;
+        vscode.postMessage({ type: 'showRelated', rowIndex: null });
+      }
+      renderRows(false);
+    }
+
+    // List each related group as a small table; clicking a record opens it in its group
+    function showRelated(groups) {
+      relatedPanel.textContent = '';
+      const title = document.createElement('div');
+      title.className = 'related-title';
+      relatedPanel.appendChild(title);
+
+      if (!groups) {
+        title.textContent = 'Select a row to see its related records.';
+        return;
+      }
+      title.textContent = groups.length === 0 ? 'No related records.' : 'Related records';
+
+      for (const group of groups) {
+        const section = document.createElement('div');
+        section.className = 'related-group';
+
+        const name = document.createElement('div');
+        name.className = 'related-group-name';
+        name.title = group.description + ', matched on ' + group.keys.join(', ');
+        name.textContent = (group.relation === 'parent' ? 'Parent ' : '') + group.name;
+        const count = document.createElement('span');
+        count.className = 'record-count';
+        count.textContent = group.rows.length < group.count
+          ? 'first ' + group.rows.length + ' of ' + group.count + ' records'
+          : group.count + (group.count === 1 ? ' record' : ' records');
+        name.appendChild(count);
+        section.appendChild(name);
+
+        // The key fields are the same as the selected row's, so only the other columns are shown
+        const columns = group.headings
+          .map((heading, colIndex) => ({ heading, colIndex }))
+          .filter((column) => !group.keys.includes(column.heading));
+
+        const table = document.createElement('table');
+        const headerCells = document.createElement('tr');
+        for (const column of columns) {
+          const th = document.createElement('th');
+          th.textContent = column.heading;
+          headerCells.appendChild(th);
+        }
+        table.appendChild(document.createElement('thead')).appendChild(headerCells);
+
+        const body = document.createElement('tbody');
+        for (const row of group.rows) {
+          const tr = document.createElement('tr');
+          tr.title = 'Open in ' + group.name;
+          for (const column of columns) {
+            const td = document.createElement('td');
+            td.textContent = row.values[column.colIndex] || '';
+            tr.appendChild(td);
+          }
+          tr.addEventListener('click', () => {
+            vscode.postMessage({ type: 'openRelated', groupName: group.name, rowIndex: row.rowIndex });
+          });
+          body.appendChild(tr);
+        }
+        table.appendChild(body);
+        section.appendChild(table);
+        relatedPanel.appendChild(section);
+      }
+    }
+
+    document.getElementById('toggleRelated').addEventListener('click', () => {
+      setRelatedPanel(relatedPanel.hidden);
+    });
+
+    // ---- Row and column actions ----
+
+    function insertRow(position) {
+      const selected = getSelectedRows();
+      const rowIndex = selected.length === 0 ? -1 : position === 'above' ? selected[0] : selected[selected.length - 1];
+      pendingSelection = [rowIndex < 0 ? 0 : position === 'above' ? rowIndex : rowIndex + 1];
+      vscode.postMessage({ type: 'insertRow', rowIndex, position });
+    }
+
+    function duplicateRows() {
+      const selected = getSelectedRows();
+      if (selected.length === 0) return;
+      // Each copy goes directly after its original, so select the copies
+      pendingSelection = selected.map((rowIndex, i) => rowIndex + i + 1);
+      vscode.postMessage({ type: 'duplicateRows', rowIndices: selected });
+    }
+
+    function deleteRows() {
+      const selected = getSelectedRows();
+      if (selected.length === 0) return;
+      const next = Math.min(selected[0], rows.length - selected.length - 1);
+      pendingSelection = next >= 0 ? [next] : [];
+      vscode.postMessage({ type: 'deleteRows', rowIndices: selected });
+    }
+
+    function insertColumn(offset) {
+      vscode.postMessage({ type: 'insertColumn', colIndex: headings.length === 0 ? 0 : activeCol + offset });
+    }
+
+    function moveColumn(direction) {
+      const target = activeCol + direction;
+      if (headings.length === 0 || target < 0 || target >= headings.length) return;
+      // The group is sent again with the new column order; keep the moved column active
+      saveSelection(undefined, target);
+      vscode.postMessage({ type: 'moveColumn', colIndex: activeCol, direction });
+    }
+
+    function deleteColumn() {
+      if (headings.length === 0) return;
+      vscode.postMessage({ type: 'deleteColumn', colIndex: activeCol });
+    }
+
+    // Context menu for rows and columns
+    const contextMenu = document.createElement('div');
+    contextMenu.className = 'context-menu';
+    contextMenu.hidden = true;
+    document.body.appendChild(contextMenu);
+
+    function hideContextMenu() {
+      contextMenu.hidden = true;
+    }
+
+    document.addEventListener('contextmenu', (e) => {
+      const cell = e.target.closest('td[data-col-index], th[data-col-index]');
+      const row = e.target.closest('tr[data-row-type]');
+      if ((!cell && !row) || e.target.tagName === 'INPUT') return;
+
+      e.preventDefault();
+      closeFilterPopup();
+      if (cell) {
+        activeCol = parseInt(cell.dataset.colIndex);
+      }
+
+      const rowType = row ? row.dataset.rowType : null;
+      const rowIndex = row ? parseInt(row.dataset.rowIndex) || 0 : 0;
+      if (rowType === 'DATA' && cell && cell.tagName === 'TD') {
+        if (rangeBounds ? !isCellSelected(rowIndex, activeCol) : !selectedRows.has(rowIndex)) {
+          setCellRange(rowIndex, activeCol, rowIndex, activeCol);
+        }
+      } else if (row && !(rowType === 'DATA' && selectedRows.has(rowIndex))) {
+        selectRow(rowType, rowIndex, false, false);
+      }
+
+      const items = [];
+      if (rowType === 'DATA') {
+        const count = getSelectedRows().length;
+        const label = count === 1 ? 'Row' : count + ' Rows';
+        items.push(
+          { label: 'Copy', shortcut: 'Ctrl+C', action: () => copyCells(false) },
+          { label: 'Copy with Headings', shortcut: 'Ctrl+Shift+C', action: () => copyCells(true) },
+          { label: 'Paste', shortcut: 'Ctrl+V', action: () => pasteCells(undefined) },
+          null,
+          { label: 'Fill Down', action: () => fillSelection('copy'), disabled: !rangeBounds || rangeBounds.rowIndices.length < 2 },
+          { label: 'Fill Series', action: () => fillSelection('series'), disabled: !rangeBounds || rangeBounds.rowIndices.length < 2 },
+          { label: hasBlockSelected() ? 'Transform Selected Cells...' : 'Transform Column...', action: () => transformCells(false) },
+          { label: 'Find and Replace...', shortcut: 'Ctrl+H', action: showFindBar },
+          { label: 'Show Related Records', action: () => setRelatedPanel(true), disabled: !relatedPanel.hidden },
+          null,
+          { label: 'Insert Row Above', action: () => insertRow('above') },
+          { label: 'Insert Row Below', shortcut: 'Ctrl+Enter', action: () => insertRow('below') },
+          { label: 'Duplicate ' + label, shortcut: 'Ctrl+D', action: duplicateRows },
+          { label: 'Delete ' + label, shortcut: 'Delete', action: deleteRows }
+        );
+      } else if (row) {
+        items.push({ label: 'Insert Row at Top', action: () => { selectedRows.clear(); insertRow('above'); } });
+      }
+
+      if (cell) {
+        const heading = headings[activeCol] ? headings[activeCol].name : '';
+        if (items.length > 0) items.push(null);
+        items.push(
+          { label: 'Insert Column Left', action: () => insertColumn(0) },
+          { label: 'Insert Column Right', action: () => insertColumn(1) },
+          { label: 'Move Column Left', shortcut: 'Alt+Shift+Left', action: () => moveColumn(-1), disabled: activeCol === 0 },
+          { label: 'Move Column Right', shortcut: 'Alt+Shift+Right', action: () => moveColumn(1), disabled: activeCol >= headings.length - 1 },
+          { label: 'Delete Column ' + heading, action: deleteColumn }
+        );
+        if (cell.tagName === 'TH') {
+          items.push(
+            null,
+            { label: 'Transform Column...', action: () => transformCells(true) },
+            { label: 'Find and Replace...', shortcut: 'Ctrl+H', action: showFindBar }
+          );
+        }
+
+        const frozen = layout.frozen.includes(heading);
+        const keys = headings.filter((h) => h.key && !layout.frozen.includes(h.name));
+        items.push(
+          null,
+          frozen
+            ? { label: 'Unfreeze Column ' + heading, action: () => setFrozen(heading, false) }
+            : { label: 'Freeze Column ' + heading, action: () => setFrozen(heading, true) },
+          { label: 'Freeze Key Columns', action: freezeKeyColumns, disabled: keys.length === 0 },
+          { label: 'Hide Column ' + heading, action: () => hideColumn(heading), disabled: columns.length <= 1 },
+          { label: 'Show Hidden Columns', action: showHiddenColumns, disabled: columns.length === headings.length },
+          { label: 'Reset Column Layout', action: resetLayout, disabled: isDefaultLayout() }
+        );
+      }
+
+      contextMenu.textContent = '';
+      for (const item of items) {
+        if (!item) {
+          contextMenu.appendChild(document.createElement('hr'));
+          continue;
+        }
+        const button = document.createElement('button');
+        button.disabled = !!item.disabled;
+        const label = document.createElement('span');
+        label.textContent = item.label;
+        button.appendChild(label);
+        if (item.shortcut) {
+          const shortcut = document.createElement('span');
+          shortcut.className = 'shortcut';
+          shortcut.textContent = item.shortcut;
+          button.appendChild(shortcut);
+        }
+        button.addEventListener('click', () => {
+          hideContextMenu();
+          item.action();
+        });
+        contextMenu.appendChild(button);
+      }
+
+      contextMenu.hidden = false;
+      contextMenu.style.left = Math.min(e.clientX, window.innerWidth - contextMenu.offsetWidth) + 'px';
+      contextMenu.style.top = Math.min(e.clientY, window.innerHeight - contextMenu.offsetHeight) + 'px';
+    });
+
+    // Keyboard shortcuts for cells, rows and columns (not while editing a cell or typing in a filter)
+    document.addEventListener('keydown', (e) => {
+      if (e.target.tagName === 'INPUT' || e.target.tagName === 'SELECT' || editing) return;
+
+      const mod = e.ctrlKey || e.metaKey;
+      if (mod && e.key.toLowerCase() === 'h') {
+        e.preventDefault();
+        showFindBar();
+      } else if (mod && e.shiftKey && e.key.toLowerCase() === 'c') {
+        e.preventDefault();
+        copyCells(true);
+      } else if (mod && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        if (order.length > 0 && headings.length > 0) {
+          setCellRange(order[0], 0, order[order.length - 1], headings.length - 1);
+        }
+      } else if ((e.key === 'Enter' || e.key === 'F2') && !mod && cellRange) {
+        e.preventDefault();
+        editCell('DATA', cellRange.focusRow, cellRange.focusCol);
+      } else if ((mod && e.key === 'Enter') || e.key === 'Insert') {
+        e.preventDefault();
+        insertRow('below');
+      } else if (mod && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        duplicateRows();
+      } else if (e.key === 'Delete') {
+        e.preventDefault();
+        deleteRows();
+      } else if (e.altKey && e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+        e.preventDefault();
+        moveColumn(e.key === 'ArrowLeft' ? -1 : 1);
+      } else if (!e.altKey && !mod && e.key.startsWith('Arrow')) {
+        e.preventDefault();
+        const rowDelta = e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0;
+        const colDelta = e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0;
+        moveCellFocus(rowDelta, colDelta, e.shiftKey);
+      } else if (e.key === 'Escape') {
+        hideContextMenu();
+      }
+    });
+
+    document.getElementById('groupSelect').addEventListener('change', (e) => {
+      vscode.postMessage({ type: 'selectGroup', groupName: e.target.value });
+    });
+
+    // Reopen the related-records panel if it was open before a reload
+    if ((vscode.getState() || {}).related) {
+      relatedPanel.hidden = false;
+      document.getElementById('toggleRelated').classList.add('active');
+    }
+
+    // Ask for the group this view showed before it was reloaded, if any
+    vscode.postMessage({ type: 'ready', groupName: (vscode.getState() || {}).groupName });
+  </script>
+</body>
+</html>`;
+}
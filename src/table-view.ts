@@ -0,0 +1,1298 @@
+import * as vscode from "vscode";
+import { AGSField, formatLine, quoteField, tokenizeLine } from "./ags-tokenizer";
+import { ParsedDocument, ParsedGroup, findRowForLine, getLastHeaderLine } from "./document-model";
+import { getTableViewHtml } from "./table-view-html";
+import { formatTsv, parsePastedCells } from "./tsv";
+import { formatValue } from "./type-formats";
+import { FillMode, addOffset, createReplacer, fillValues, isNumber } from "./bulk-edits";
+import { getFileDefinitions, getKeyHeadings, getParentGroup, getParentKeyHeadings } from "./rule-checks";
+import { getFileAbbreviations } from "./reference-records";
+
+// DATA rows per message when sending a group to the webview
+const ROWS_PER_PAGE = 1000;
+
+// Records listed per group in the related-records panel
+const MAX_RELATED_ROWS = 200;
+
+// Workspace state key for the column layout of each group
+const COLUMN_LAYOUTS_KEY = "ags.tableView.columnLayouts";
+
+interface ReadyMessage {
+  type: "ready";
+  /** Group shown before the webview was reloaded */
+  groupName?: string;
+}
+
+interface CellEditMessage {
+  type: "cellEdit";
+  rowType: "UNIT" | "TYPE" | "DATA";
+  rowIndex: number;
+  colIndex: number;
+  oldValue: string;
+  newValue: string;
+}
+
+interface NavigateMessage {
+  type: "navigate";
+  rowType: "HEADING" | "UNIT" | "TYPE" | "DATA";
+  rowIndex: number;
+}
+
+interface SelectGroupMessage {
+  type: "selectGroup";
+  groupName: string;
+}
+
+interface InsertRowMessage {
+  type: "insertRow";
+  /** DATA row to insert next to, or -1 to insert the first row. Key fields are copied from the row above the new one */
+  rowIndex: number;
+  position: "above" | "below";
+}
+
+interface DuplicateRowsMessage {
+  type: "duplicateRows";
+  rowIndices: number[];
+}
+
+interface DeleteRowsMessage {
+  type: "deleteRows";
+  rowIndices: number[];
+}
+
+interface InsertColumnMessage {
+  type: "insertColumn";
+  /** Position of the new column; equal to the number of headings to append */
+  colIndex: number;
+}
+
+interface DeleteColumnMessage {
+  type: "deleteColumn";
+  colIndex: number;
+}
+
+interface MoveColumnMessage {
+  type: "moveColumn";
+  colIndex: number;
+  direction: -1 | 1;
+}
+
+interface CopyCellsMessage {
+  type: "copyCells";
+  /** DATA rows in display order */
+  rowIndices: number[];
+  /** Columns in display order */
+  colIndices: number[];
+  includeHeadings: boolean;
+}
+
+interface PasteCellsMessage {
+  type: "pasteCells";
+  /** Selected DATA rows in display order; empty to append the pasted rows to the group */
+  rowIndices: number[];
+  /** Shown columns in display order, from the first selected column to the last column */
+  colIndices: number[];
+  /** Number of selected columns, filled when a single value is pasted */
+  width: number;
+  /** Pasted text, or undefined to read the clipboard */
+  text?: string;
+}
+
+interface FillCellsMessage {
+  type: "fillCells";
+  /** DATA rows in display order; the first (or first two) seed the fill */
+  rowIndices: number[];
+  colIndices: number[];
+  mode: FillMode;
+}
+
+interface ReplaceAllMessage {
+  type: "replaceAll";
+  find: string;
+  replace: string;
+  regex: boolean;
+  matchCase: boolean;
+  /** Column to search, or null for every column in the group */
+  colIndex: number | null;
+}
+
+interface TransformCellsMessage {
+  type: "transformCells";
+  /** Selected DATA rows, or null for the whole column */
+  rowIndices: number[] | null;
+  colIndices: number[];
+}
+
+interface ShowRelatedMessage {
+  type: "showRelated";
+  /** DATA row to list the related records of, or null when the panel is closed */
+  rowIndex: number | null;
+}
+
+interface OpenRelatedMessage {
+  type: "openRelated";
+  groupName: string;
+  rowIndex: number;
+}
+
+interface SaveLayoutMessage {
+  type: "saveLayout";
+  groupName: string;
+  layout: ColumnLayout;
+}
+
+/**
+ * New value for one DATA cell
+ */
+interface CellChange {
+  rowIndex: number;
+  colIndex: number;
+  value: string;
+}
+
+type WebviewMessage =
+  | ReadyMessage
+  | CellEditMessage
+  | NavigateMessage
+  | SelectGroupMessage
+  | InsertRowMessage
+  | DuplicateRowsMessage
+  | DeleteRowsMessage
+  | InsertColumnMessage
+  | DeleteColumnMessage
+  | MoveColumnMessage
+  | CopyCellsMessage
+  | PasteCellsMessage
+  | FillCellsMessage
+  | ReplaceAllMessage
+  | TransformCellsMessage
+  | ShowRelatedMessage
+  | OpenRelatedMessage
+  | SaveLayoutMessage;
+
+export interface Dictionary {
+  groups: Record<string, string>;
+  headings: Record<string, string>;
+  headingDetails: Record<string, { description?: string; type?: string; unit?: string; status?: string }>;
+  groupHeadings: Record<string, Array<{ code: string; status: string }>>;
+  abbreviations: Record<string, Record<string, string>>;
+  parentGroups: Record<string, string>;
+}
+
+/**
+ * A value offered by a column's dropdown editor
+ */
+interface EditorOption {
+  value: string;
+  description: string;
+}
+
+/**
+ * How a group's columns are shown, by heading name. Display only: the file is not changed.
+ */
+interface ColumnLayout {
+  /** Columns pinned to the left while scrolling, in order */
+  frozen: string[];
+  hidden: string[];
+  /** Display order of the other columns; headings not listed follow in file order */
+  order: string[];
+  /** Widths in pixels of resized columns */
+  widths: Record<string, number>;
+}
+
+/**
+ * Records of one group linked to the row shown in the related-records panel
+ */
+interface RelatedGroup {
+  name: string;
+  description: string;
+  /** The row's parent record, or records that belong to the row */
+  relation: "parent" | "child";
+  /** Key headings the records were matched on */
+  keys: string[];
+  headings: string[];
+  rows: Array<{ rowIndex: number; values: string[] }>;
+  /** Number of matching records; at most MAX_RELATED_ROWS are sent */
+  count: number;
+}
+
+/**
+ * The group as last sent to the webview, for working out which rows an edit changed
+ */
+interface SentGroup {
+  uri: string;
+  name: string;
+  groupNames: string[];
+  headings: string[];
+  units: string[] | null;
+  types: string[] | null;
+  rows: string[][];
+  /** Dropdown values per column, as JSON */
+  options: string;
+  /** What the dropdown values were built from, to rebuild them only when it changes */
+  optionSources: OptionSources;
+}
+
+/**
+ * The dictionary and the ABBR and LOCA rows the dropdown values come from. The document
+ * model replaces a row's array when the row changes, so comparing rows by identity
+ * finds edits without comparing their values.
+ */
+interface OptionSources {
+  dict: Dictionary;
+  abbrRows: string[][] | null;
+  locaRows: string[][] | null;
+}
+
+/**
+ * One table view webview showing one AGS document. Used both by the toggled panel
+ * and by the custom editor, which can show several documents side by side.
+ */
+export class AGSTableView {
+  private webview: vscode.Webview;
+  private currentDocument: vscode.TextDocument;
+  private currentGroup: string | undefined;
+  private sent: SentGroup | undefined;
+  // DATA row listed in the related-records panel, while the panel is open
+  private relatedRow: number | undefined;
+  // Incremented whenever the whole group is resent, so the webview can drop stale row messages
+  private generation = 0;
+  private parseDocument: (doc: vscode.TextDocument) => ParsedDocument;
+  private findGroupForLine: (
+    parsed: ParsedDocument,
+    line: number
+  ) => ParsedGroup | null;
+  private getDictionary: (doc: vscode.TextDocument) => Dictionary;
+  private workspaceState: vscode.Memento;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    webview: vscode.Webview,
+    document: vscode.TextDocument,
+    initialGroup: string | undefined,
+    parseDocument: (doc: vscode.TextDocument) => ParsedDocument,
+    findGroupForLine: (
+      parsed: ParsedDocument,
+      line: number
+    ) => ParsedGroup | null,
+    getDictionary: (doc: vscode.TextDocument) => Dictionary,
+    workspaceState: vscode.Memento
+  ) {
+    this.webview = webview;
+    this.currentDocument = document;
+    this.currentGroup = initialGroup;
+    this.parseDocument = parseDocument;
+    this.findGroupForLine = findGroupForLine;
+    this.getDictionary = getDictionary;
+    this.workspaceState = workspaceState;
+
+    webview.onDidReceiveMessage(
+      (message: WebviewMessage) => this.handleMessage(message),
+      undefined,
+      this.disposables
+    );
+
+    // The group is sent once the webview reports that it is ready
+    webview.html = getTableViewHtml();
+  }
+
+  public get document(): vscode.TextDocument {
+    return this.currentDocument;
+  }
+
+  /**
+   * Show another document, keeping the current group if it has one of the same name
+   */
+  public setDocument(document: vscode.TextDocument): void {
+    this.currentDocument = document;
+    this.updateContent();
+  }
+
+  /**
+   * Follow the cursor in a text editor showing the same document: switch to its group and highlight its row
+   */
+  public syncWithEditor(editor: vscode.TextEditor): void {
+    if (editor.document !== this.currentDocument) return;
+
+    const parsed = this.parseDocument(this.currentDocument);
+    const group = this.findGroupForLine(parsed, editor.selection.active.line);
+
+    if (group) {
+      const needsGroupSwitch = this.currentGroup !== group.name;
+
+      if (needsGroupSwitch) {
+        this.currentGroup = group.name;
+        this.updateContent();
+      }
+
+      // Look up the row at the cursor for highlighting
+      const location = findRowForLine(parsed, editor.selection.active.line);
+
+      if (location && location.rowType !== "GROUP") {
+        this.webview.postMessage({
+          type: "highlight",
+          rowType: location.rowType,
+          rowIndex: location.rowIndex,
+        });
+      }
+    }
+  }
+
+  public updateForDocumentChange(): void {
+    this.updateRows();
+    // Related records may be in other groups, so the panel follows every edit
+    this.sendRelated();
+  }
+
+  /**
+   * Resend the whole group, e.g. after the dictionary changes its descriptions
+   */
+  public refresh(): void {
+    this.updateContent();
+  }
+
+  private handleMessage(message: WebviewMessage): void {
+    switch (message.type) {
+      case "ready":
+        // A restored webview asks for the group it was showing before
+        if (!this.currentGroup && message.groupName) {
+          this.currentGroup = message.groupName;
+        }
+        this.updateContent();
+        break;
+      case "cellEdit":
+        this.handleCellEdit(message);
+        break;
+      case "navigate":
+        this.handleNavigate(message);
+        break;
+      case "selectGroup":
+        this.handleSelectGroup(message);
+        break;
+      case "insertRow":
+        this.handleInsertRow(message);
+        break;
+      case "duplicateRows":
+        this.handleDuplicateRows(message);
+        break;
+      case "deleteRows":
+        this.handleDeleteRows(message);
+        break;
+      case "insertColumn":
+        this.handleInsertColumn(message);
+        break;
+      case "deleteColumn":
+        this.handleDeleteColumn(message);
+        break;
+      case "moveColumn":
+        this.handleMoveColumn(message);
+        break;
+      case "copyCells":
+        this.handleCopyCells(message);
+        break;
+      case "pasteCells":
+        this.handlePasteCells(message);
+        break;
+      case "fillCells":
+        this.handleFillCells(message);
+        break;
+      case "replaceAll":
+        this.handleReplaceAll(message);
+        break;
+      case "transformCells":
+        this.handleTransformCells(message);
+        break;
+      case "showRelated":
+        this.relatedRow = message.rowIndex ?? undefined;
+        this.sendRelated();
+        break;
+      case "openRelated":
+        this.handleOpenRelated(message);
+        break;
+      case "saveLayout":
+        this.saveLayout(message.groupName, message.layout);
+        break;
+    }
+  }
+
+  /**
+   * Get the current document and group, if the table view is showing one
+   */
+  private getCurrentGroup(): { document: vscode.TextDocument; group: ParsedGroup } | undefined {
+    if (!this.currentGroup) return undefined;
+
+    const group = this.parseDocument(this.currentDocument).groups.get(this.currentGroup);
+    return group ? { document: this.currentDocument, group } : undefined;
+  }
+
+  private getEol(document: vscode.TextDocument): string {
+    return document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+  }
+
+  /**
+   * Insert an empty DATA row, copying the parent keys (e.g. LOCA_ID) of the row above it
+   * (none for a new first row) and leaving the row's own keys to fill in
+   */
+  private async handleInsertRow(message: InsertRowMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+
+    const parsed = this.parseDocument(document);
+    const keyHeadings = new Set(
+      getParentKeyHeadings(group.name, group.headings, this.getDictionary(document), getFileDefinitions(parsed))
+    );
+    const source = group.data[message.position === "above" ? message.rowIndex - 1 : message.rowIndex];
+    const values = group.headings.map((heading, i) => (source && keyHeadings.has(heading) ? source[i] ?? "" : ""));
+    const row = formatLine(["DATA", ...values]);
+    const eol = this.getEol(document);
+    const edit = new vscode.WorkspaceEdit();
+
+    const lineNumber = group.dataLines[message.rowIndex];
+    if (lineNumber !== undefined && message.position === "above") {
+      edit.insert(document.uri, new vscode.Position(lineNumber, 0), `${row}${eol}`);
+    } else {
+      const afterLine = lineNumber ?? getLastHeaderLine(group);
+      edit.insert(document.uri, document.lineAt(afterLine).range.end, `${eol}${row}`);
+    }
+
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  private async handleDuplicateRows(message: DuplicateRowsMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+    const eol = this.getEol(document);
+    const edit = new vscode.WorkspaceEdit();
+
+    for (const rowIndex of message.rowIndices) {
+      const lineNumber = group.dataLines[rowIndex];
+      if (lineNumber === undefined) continue;
+      const line = document.lineAt(lineNumber);
+      edit.insert(document.uri, line.range.end, `${eol}${line.text}`);
+    }
+
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  private async handleDeleteRows(message: DeleteRowsMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+
+    const lines = message.rowIndices
+      .map((rowIndex) => group.dataLines[rowIndex])
+      .filter((line): line is number => line !== undefined)
+      .sort((a, b) => a - b);
+    if (lines.length === 0) return;
+
+    // Delete runs of adjacent lines as one range so the ranges never overlap
+    const edit = new vscode.WorkspaceEdit();
+    let first = 0;
+    for (let i = 1; i <= lines.length; i++) {
+      if (i < lines.length && lines[i] === lines[i - 1] + 1) continue;
+
+      const startLine = lines[first];
+      const endLine = lines[i - 1];
+      if (endLine + 1 < document.lineCount) {
+        edit.delete(document.uri, new vscode.Range(startLine, 0, endLine + 1, 0));
+      } else {
+        // The last line of the file has no line break after it; remove the one before it
+        const start = startLine > 0 ? document.lineAt(startLine - 1).range.end : new vscode.Position(0, 0);
+        edit.delete(document.uri, new vscode.Range(start, document.lineAt(endLine).range.end));
+      }
+      first = i;
+    }
+
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  /**
+   * Add a heading column, chosen from the dictionary headings the group does not use yet
+   */
+  private async handleInsertColumn(message: InsertColumnMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+    const dict = this.getDictionary(document);
+
+    const customItem = { label: "$(edit) Enter a heading...", description: "", code: "" };
+    const items = [
+      ...(dict.groupHeadings[group.name] ?? [])
+        .filter((h) => !group.headings.includes(h.code))
+        .map((h) => ({ label: h.code, description: dict.headings[h.code] || "", detail: h.status || undefined, code: h.code })),
+      customItem,
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: `Select a heading to add to ${group.name}`,
+      matchOnDescription: true,
+    });
+    if (!selected) return;
+
+    let heading = selected.code;
+    if (selected === customItem) {
+      const entered = await vscode.window.showInputBox({
+        prompt: `New heading for group ${group.name}`,
+        value: `${group.name}_`,
+        validateInput: (value) => {
+          if (!/^[A-Z0-9]{4}_[A-Z0-9]{1,4}$/.test(value)) {
+            return "Headings are a 4 character group prefix, an underscore and up to 4 uppercase letters or digits";
+          }
+          return group.headings.includes(value) ? `${value} is already in the group` : undefined;
+        },
+      });
+      if (!entered) return;
+      heading = entered;
+    }
+
+    const detail = dict.headingDetails[heading];
+    const newValues: Record<string, string> = {
+      HEADING: heading,
+      UNIT: detail?.unit ?? "",
+      TYPE: detail?.type ?? (selected === customItem ? "X" : ""),
+      DATA: "",
+    };
+
+    const colIndex = Math.min(Math.max(message.colIndex, 0), group.headings.length);
+    const edit = new vscode.WorkspaceEdit();
+
+    for (const lineNumber of this.getGroupRowLines(group)) {
+      const line = document.lineAt(lineNumber).text;
+      const fields = tokenizeLine(line);
+      const value = quoteField(newValues[fields[0]?.value] ?? "");
+
+      // Insert after the field before the new column (field 0 is the row descriptor)
+      const previous = fields[Math.min(colIndex, fields.length - 1)];
+      edit.insert(document.uri, new vscode.Position(lineNumber, previous ? previous.end : line.length), `,${value}`);
+    }
+
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  private async handleDeleteColumn(message: DeleteColumnMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+
+    const heading = group.headings[message.colIndex];
+    if (heading === undefined) return;
+
+    const filled = group.data.filter((row) => row[message.colIndex]).length;
+    if (filled > 0) {
+      const answer = await vscode.window.showWarningMessage(
+        `Delete column ${heading} and its ${filled} value${filled === 1 ? "" : "s"}?`,
+        { modal: true },
+        "Delete"
+      );
+      if (answer !== "Delete") return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    for (const lineNumber of this.getGroupRowLines(group)) {
+      const fields = tokenizeLine(document.lineAt(lineNumber).text);
+      const field = fields[message.colIndex + 1];
+      if (!field) continue;
+
+      // Remove the field together with the comma before it
+      edit.delete(document.uri, new vscode.Range(lineNumber, field.start - 1, lineNumber, field.end));
+    }
+
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  private async handleMoveColumn(message: MoveColumnMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+
+    const first = Math.min(message.colIndex, message.colIndex + message.direction) + 1;
+    if (first < 1 || first >= group.headings.length) return;
+
+    // Swap the raw text of two adjacent fields, leaving the rest of each line untouched
+    const edit = new vscode.WorkspaceEdit();
+    for (const lineNumber of this.getGroupRowLines(group)) {
+      const line = document.lineAt(lineNumber).text;
+      const fields = tokenizeLine(line);
+      const left = fields[first];
+      const right = fields[first + 1];
+      if (!left || !right) continue;
+
+      const swapped = `${line.substring(right.start, right.end)},${line.substring(left.start, left.end)}`;
+      edit.replace(document.uri, new vscode.Range(lineNumber, left.start, lineNumber, right.end), swapped);
+    }
+
+    await vscode.workspace.applyEdit(edit);
+  }
+
+  /**
+   * Lines of a group's HEADING, UNIT, TYPE and DATA rows
+   */
+  private getGroupRowLines(group: ParsedGroup): number[] {
+    const lines = group.headingLine >= 0 ? [group.headingLine] : [];
+    if (group.unitLine !== undefined) lines.push(group.unitLine);
+    if (group.typeLine !== undefined) lines.push(group.typeLine);
+    return [...lines, ...group.dataLines];
+  }
+
+  private async handleCellEdit(message: CellEditMessage): Promise<void> {
+    if (!this.currentGroup) return;
+
+    const parsed = this.parseDocument(this.currentDocument);
+    const group = parsed.groups.get(this.currentGroup);
+    if (!group) return;
+
+    // Find the line number for this cell
+    const lineNumber = this.getLineNumber(group, message.rowType, message.rowIndex);
+    if (lineNumber < 0) return;
+
+    const line = this.currentDocument.lineAt(lineNumber).text;
+
+    // Find the character range for this column
+    const range = this.getCellRange(line, lineNumber, message.colIndex);
+    if (!range) return;
+
+    // Numbers are rounded to the column's declared precision (nDP, nSF, nSCI)
+    const type = message.rowType === "DATA" ? group.types[message.colIndex] ?? "" : "";
+    const value = formatValue(type, message.newValue) ?? message.newValue;
+
+    // Apply the edit, re-quoting the value so embedded quotes are escaped
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(this.currentDocument.uri, range, quoteField(value));
+    await vscode.workspace.applyEdit(edit);
+
+    // The webview shows the value as typed; if rounding left the file unchanged, send the row back
+    if (value !== message.newValue && this.sent && message.rowType === "DATA") {
+      const row = this.sent.rows[message.rowIndex];
+      if (row) {
+        this.webview.postMessage({
+          type: "spliceRows",
+          generation: this.generation,
+          start: message.rowIndex,
+          deleteCount: 1,
+          rows: [row],
+        });
+      }
+    }
+  }
+
+  /**
+   * Values for the dropdown editors: pick-list codes for PA columns (the file's ABBR
+   * records, then the dictionary's) and LOCA_IDs from the LOCA group in child groups
+   */
+  private getEditorOptions(parsed: ParsedDocument, group: ParsedGroup, dict: Dictionary): Array<EditorOption[] | null> {
+    const fileAbbreviations = getFileAbbreviations(parsed);
+    const loca = parsed.groups.get("LOCA");
+
+    return group.headings.map((heading, i) => {
+      if (group.types[i] === "PA") {
+        const codes = new Map(fileAbbreviations.get(heading));
+        for (const [code, description] of Object.entries(dict.abbreviations[heading] ?? {})) {
+          if (!codes.has(code)) {
+            codes.set(code, description);
+          }
+        }
+        return codes.size > 0 ? Array.from(codes, ([value, description]) => ({ value, description })) : null;
+      }
+
+      if (heading === "LOCA_ID" && group.name !== "LOCA" && loca) {
+        const idIndex = loca.headings.indexOf("LOCA_ID");
+        const ids = new Set(loca.data.map((row) => row[idIndex]).filter((id) => id));
+        return ids.size > 0 ? Array.from(ids, (value) => ({ value, description: "" })) : null;
+      }
+
+      return null;
+    });
+  }
+
+  /**
+   * Copy a block of cells to the clipboard as tab-separated text
+   */
+  private async handleCopyCells(message: CopyCellsMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { group } = current;
+
+    const rows = message.rowIndices
+      .filter((rowIndex) => group.data[rowIndex])
+      .map((rowIndex) => group.headings.map((_, i) => group.data[rowIndex][i] ?? ""));
+    if (message.includeHeadings) {
+      rows.unshift(group.headings);
+    }
+    const block = rows.map((row) => message.colIndices.map((colIndex) => row[colIndex] ?? ""));
+
+    await vscode.env.clipboard.writeText(formatTsv(block));
+  }
+
+  /**
+   * Paste a tab-separated block into the selected cells as one edit. Rows beyond the
+   * selection become new DATA rows after its last row; a single value fills the selection.
+   */
+  private async handlePasteCells(message: PasteCellsMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+
+    let block = parsePastedCells(message.text ?? (await vscode.env.clipboard.readText()));
+    if (block.length === 0) return;
+
+    const targets = message.rowIndices.filter((rowIndex) => group.dataLines[rowIndex] !== undefined);
+    if (block.length === 1 && block[0].length === 1 && targets.length > 0) {
+      const value = block[0][0];
+      block = targets.map(() => new Array(message.width).fill(value));
+    }
+
+    // Pasted columns go into the shown columns from the selection onwards, skipping hidden ones
+    const width = Math.max(...block.map((row) => row.length));
+    const columns = message.colIndices.filter((colIndex) => colIndex < group.headings.length).slice(0, width);
+    if (columns.length === 0) return;
+
+    const edit = new vscode.WorkspaceEdit();
+    const pasted: number[] = [];
+
+    targets.slice(0, block.length).forEach((rowIndex, i) => {
+      const lineNumber = group.dataLines[rowIndex];
+      const line = document.lineAt(lineNumber).text;
+      for (let j = 0; j < columns.length; j++) {
+        const range = this.getCellRange(line, lineNumber, columns[j]);
+        if (range) {
+          edit.replace(document.uri, range, quoteField(block[i][j] ?? ""));
+        }
+      }
+      pasted.push(rowIndex);
+    });
+
+    const newRows = block.slice(targets.length).map((values) =>
+      formatLine([
+        "DATA",
+        ...group.headings.map((_, i) => (columns.includes(i) ? values[columns.indexOf(i)] ?? "" : "")),
+      ])
+    );
+    if (newRows.length > 0) {
+      const lastRow = targets.length > 0 ? Math.max(...targets) : group.dataLines.length - 1;
+      const afterLine = group.dataLines[lastRow] ?? getLastHeaderLine(group);
+      const eol = this.getEol(document);
+      edit.insert(document.uri, document.lineAt(afterLine).range.end, newRows.map((row) => `${eol}${row}`).join(""));
+      newRows.forEach((_, i) => pasted.push(lastRow + 1 + i));
+    }
+
+    if (!(await vscode.workspace.applyEdit(edit))) return;
+
+    this.webview.postMessage({
+      type: "selectCells",
+      rowIndices: pasted,
+      colIndices: columns,
+    });
+
+    if (width > columns.length) {
+      const ignored = width - columns.length;
+      vscode.window.showWarningMessage(
+        `Ignored ${ignored} pasted column${ignored === 1 ? "" : "s"} beyond the last column of ${group.name}`
+      );
+    }
+  }
+
+  /**
+   * Fill each selected column from its first cell, or continue the series its first cells start
+   */
+  private async handleFillCells(message: FillCellsMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+
+    const rowIndices = message.rowIndices.filter((rowIndex) => group.data[rowIndex]);
+    if (rowIndices.length < 2) return;
+
+    const changes: CellChange[] = [];
+    const repeated: string[] = [];
+    for (const colIndex of message.colIndices.filter((i) => i < group.headings.length)) {
+      const seeds = rowIndices.slice(0, 2).map((rowIndex) => group.data[rowIndex][colIndex] ?? "");
+      const type = group.types[colIndex] ?? "";
+      const fill = fillValues(seeds, rowIndices.length, message.mode, type);
+      rowIndices.forEach((rowIndex, i) => changes.push({ rowIndex, colIndex, value: fill.values[i] }));
+      if (fill.repeated) repeated.push(`${group.headings[colIndex]} (${type})`);
+    }
+
+    await this.applyCellChanges(document, group, changes);
+
+    if (repeated.length > 0) {
+      vscode.window.showWarningMessage(
+        `The series repeats values once rounded to the column's precision: ${repeated.join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Find and replace in one column or the whole group as a single edit
+   */
+  private async handleReplaceAll(message: ReplaceAllMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current || !message.find) return;
+    const { document, group } = current;
+
+    let replacer: (value: string) => string;
+    try {
+      replacer = createReplacer(message.find, message.replace, message.regex, message.matchCase);
+    } catch (error) {
+      // The SyntaxError message names the pattern and the problem
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const columns =
+      message.colIndex === null ? group.headings.map((_, i) => i) : [message.colIndex].filter((i) => i < group.headings.length);
+    const changes: CellChange[] = [];
+    group.data.forEach((row, rowIndex) => {
+      for (const colIndex of columns) {
+        const value = row[colIndex] ?? "";
+        changes.push({ rowIndex, colIndex, value: replacer(value) });
+      }
+    });
+
+    const scope = message.colIndex === null ? group.name : group.headings[message.colIndex];
+    const count = await this.applyCellChanges(document, group, changes);
+    if (count === 0) {
+      vscode.window.showInformationMessage(`No matches for "${message.find}" in ${scope}`);
+    } else {
+      vscode.window.showInformationMessage(`Replaced ${count} value${count === 1 ? "" : "s"} in ${scope}`);
+    }
+  }
+
+  /**
+   * Trim, change the case of, or add a constant to the selected cells or a whole column
+   */
+  private async handleTransformCells(message: TransformCellsMessage): Promise<void> {
+    const current = this.getCurrentGroup();
+    if (!current) return;
+    const { document, group } = current;
+
+    const rowIndices = message.rowIndices ?? group.data.map((_, i) => i);
+    const columns = message.colIndices.filter((colIndex) => colIndex < group.headings.length);
+    if (columns.length === 0 || rowIndices.length === 0) return;
+
+    const target =
+      message.rowIndices === null
+        ? columns.map((i) => group.headings[i]).join(", ")
+        : `${rowIndices.length * columns.length} selected cell${rowIndices.length * columns.length === 1 ? "" : "s"}`;
+
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: "Trim whitespace", transform: "trim" },
+        { label: "Upper case", transform: "upper" },
+        { label: "Lower case", transform: "lower" },
+        { label: "Add a constant", description: "e.g. shift depths by an offset", transform: "offset" },
+      ],
+      { placeHolder: `Transform ${target}` }
+    );
+    if (!picked) return;
+
+    let transform: (value: string, type: string) => string;
+    switch (picked.transform) {
+      case "trim":
+        transform = (value) => value.trim();
+        break;
+      case "upper":
+        transform = (value) => value.toUpperCase();
+        break;
+      case "lower":
+        transform = (value) => value.toLowerCase();
+        break;
+      default: {
+        const offset = await vscode.window.showInputBox({
+          prompt: `Value to add to ${target} (negative to subtract)`,
+          placeHolder: "e.g. 0.5 or -1.25",
+          validateInput: (text) => (isNumber(text) ? undefined : "Enter a number"),
+        });
+        if (offset === undefined) return;
+        // Values that are not numbers are left unchanged
+        transform = (value, type) => addOffset(value, offset, type) ?? value;
+      }
+    }
+
+    const changes: CellChange[] = [];
+    for (const rowIndex of rowIndices) {
+      const row = group.data[rowIndex];
+      if (!row) continue;
+      for (const colIndex of columns) {
+        changes.push({ rowIndex, colIndex, value: transform(row[colIndex] ?? "", group.types[colIndex] ?? "") });
+      }
+    }
+
+    const count = await this.applyCellChanges(document, group, changes);
+    if (count === 0) {
+      vscode.window.showInformationMessage(`No values in ${target} needed changing`);
+    }
+  }
+
+  /**
+   * Apply new values to DATA cells as one edit, skipping cells that are unchanged.
+   * Returns the number of cells changed.
+   */
+  private async applyCellChanges(
+    document: vscode.TextDocument,
+    group: ParsedGroup,
+    changes: CellChange[]
+  ): Promise<number> {
+    const edit = new vscode.WorkspaceEdit();
+    const fieldsByLine = new Map<number, AGSField[]>();
+    let count = 0;
+
+    for (const change of changes) {
+      const lineNumber = group.dataLines[change.rowIndex];
+      if (lineNumber === undefined || group.data[change.rowIndex][change.colIndex] === change.value) continue;
+
+      // Tokenize each row once, however many of its cells change
+      let fields = fieldsByLine.get(lineNumber);
+      if (!fields) {
+        fields = tokenizeLine(document.lineAt(lineNumber).text);
+        fieldsByLine.set(lineNumber, fields);
+      }
+      const field = fields[change.colIndex + 1];
+      if (field) {
+        edit.replace(document.uri, new vscode.Range(lineNumber, field.start, lineNumber, field.end), quoteField(change.value));
+        count++;
+      }
+    }
+
+    if (count > 0) {
+      await vscode.workspace.applyEdit(edit);
+    }
+    return count;
+  }
+
+  private getLineNumber(
+    group: ParsedGroup,
+    rowType: "UNIT" | "TYPE" | "DATA",
+    rowIndex: number
+  ): number {
+    switch (rowType) {
+      case "UNIT":
+        return group.unitLine ?? -1;
+      case "TYPE":
+        return group.typeLine ?? -1;
+      case "DATA":
+        return group.dataLines[rowIndex] ?? -1;
+    }
+  }
+
+  private getCellRange(
+    line: string,
+    lineNumber: number,
+    colIndex: number
+  ): vscode.Range | null {
+    // colIndex is 0-based for data columns (excluding row type)
+    const field = tokenizeLine(line)[colIndex + 1];
+    if (!field) return null;
+
+    // Return the range of the whole field, including its quotes
+    return new vscode.Range(lineNumber, field.start, lineNumber, field.end);
+  }
+
+  private handleNavigate(message: NavigateMessage): void {
+    if (!this.currentGroup) return;
+
+    const parsed = this.parseDocument(this.currentDocument);
+    const group = parsed.groups.get(this.currentGroup);
+    if (!group) return;
+
+    let lineNumber: number;
+
+    switch (message.rowType) {
+      case "HEADING":
+        lineNumber = group.headingLine;
+        break;
+      case "UNIT":
+        lineNumber = this.getLineNumber(group, "UNIT", 0);
+        break;
+      case "TYPE":
+        lineNumber = this.getLineNumber(group, "TYPE", 0);
+        break;
+      case "DATA":
+        lineNumber = this.getLineNumber(group, "DATA", message.rowIndex);
+        break;
+      default:
+        return;
+    }
+
+    if (lineNumber < 0) return;
+
+    // Find the editor showing this document
+    const editor = vscode.window.visibleTextEditors.find(
+      (e) => e.document === this.currentDocument
+    );
+
+    if (editor) {
+      const position = new vscode.Position(lineNumber, 0);
+      editor.selection = new vscode.Selection(position, position);
+      editor.revealRange(
+        new vscode.Range(position, position),
+        vscode.TextEditorRevealType.InCenter
+      );
+    }
+  }
+
+  private handleSelectGroup(message: SelectGroupMessage): void {
+    this.currentGroup = message.groupName;
+    this.updateContent();
+  }
+
+  /**
+   * Switch to a related record's group and select the record, in the table and in the editor
+   */
+  private handleOpenRelated(message: OpenRelatedMessage): void {
+    this.currentGroup = message.groupName;
+    this.updateContent();
+    this.webview.postMessage({ type: "highlight", rowType: "DATA", rowIndex: message.rowIndex });
+    this.handleNavigate({ type: "navigate", rowType: "DATA", rowIndex: message.rowIndex });
+  }
+
+  /**
+   * Send the records related to the row in the related-records panel
+   */
+  private sendRelated(): void {
+    if (this.relatedRow === undefined || !this.currentGroup) return;
+
+    const parsed = this.parseDocument(this.currentDocument);
+    const group = parsed.groups.get(this.currentGroup);
+    const row = group?.data[this.relatedRow];
+    if (!group || !row) return;
+
+    this.webview.postMessage({
+      type: "related",
+      generation: this.generation,
+      rowIndex: this.relatedRow,
+      groups: this.getRelatedRecords(parsed, group, row, this.getDictionary(this.currentDocument)),
+    });
+  }
+
+  /**
+   * Records linked to a DATA row through the key fields of the dictionary or the file's
+   * DICT group: the parent record it belongs to (e.g. a SAMP row's LOCA record) and the
+   * records of child groups that share its key values (e.g. its GRAG, GRAT and LLPL results)
+   */
+  private getRelatedRecords(parsed: ParsedDocument, group: ParsedGroup, row: string[], dict: Dictionary): RelatedGroup[] {
+    const related: RelatedGroup[] = [];
+    const fileDefinitions = getFileDefinitions(parsed);
+    const getKeys = (name: string) => getKeyHeadings(name, dict, fileDefinitions);
+
+    const addMatches = (target: ParsedGroup, relation: RelatedGroup["relation"], keys: string[]) => {
+      if (keys.length === 0) return;
+      const sourceIndices = keys.map((key) => group.headings.indexOf(key));
+      const targetIndices = keys.map((key) => target.headings.indexOf(key));
+      const keyValues = sourceIndices.map((index) => row[index] ?? "");
+
+      const rows: RelatedGroup["rows"] = [];
+      let count = 0;
+      target.data.forEach((targetRow, rowIndex) => {
+        if (targetIndices.every((index, i) => (targetRow[index] ?? "") === keyValues[i])) {
+          count++;
+          if (rows.length < MAX_RELATED_ROWS) {
+            rows.push({ rowIndex, values: targetRow });
+          }
+        }
+      });
+      if (count === 0) return;
+
+      related.push({
+        name: target.name,
+        description: dict.groups[target.name] || "User-defined group",
+        relation,
+        keys,
+        headings: target.headings,
+        rows,
+        count,
+      });
+    };
+
+    const parentName = getParentGroup(group.name, dict, fileDefinitions);
+    const parent = parentName ? parsed.groups.get(parentName) : undefined;
+    if (parent) {
+      addMatches(parent, "parent", getKeys(parent.name).filter((key) => group.headings.includes(key)));
+    }
+
+    // A key column the row's own group lacks has no value to match on
+    const keys = getKeys(group.name).filter((key) => group.headings.includes(key));
+    for (const [name, child] of parsed.groups) {
+      if (name !== group.name && getParentGroup(name, dict, fileDefinitions) === group.name) {
+        addMatches(child, "child", keys.filter((key) => child.headings.includes(key)));
+      }
+    }
+
+    return related;
+  }
+
+  private getLayout(groupName: string): ColumnLayout | null {
+    return this.workspaceState.get<Record<string, ColumnLayout>>(COLUMN_LAYOUTS_KEY, {})[groupName] ?? null;
+  }
+
+  /**
+   * Remember a group's column layout for this workspace; an empty layout is forgotten
+   */
+  private async saveLayout(groupName: string, layout: ColumnLayout): Promise<void> {
+    const layouts = { ...this.workspaceState.get<Record<string, ColumnLayout>>(COLUMN_LAYOUTS_KEY, {}) };
+    const isEmpty =
+      layout.frozen.length === 0 && layout.hidden.length === 0 && layout.order.length === 0 && Object.keys(layout.widths).length === 0;
+    if (isEmpty) {
+      delete layouts[groupName];
+    } else {
+      layouts[groupName] = layout;
+    }
+    await this.workspaceState.update(COLUMN_LAYOUTS_KEY, layouts);
+  }
+
+  private updateContent(): void {
+    const parsed = this.parseDocument(this.currentDocument);
+
+    // Ensure we have a valid current group
+    if (!this.currentGroup || !parsed.groups.has(this.currentGroup)) {
+      const firstGroup = parsed.groups.keys().next().value;
+      this.currentGroup = firstGroup;
+    }
+
+    this.generation++;
+    // The webview asks again for the related records of the row it selects
+    this.relatedRow = undefined;
+
+    if (!this.currentGroup) {
+      this.sent = undefined;
+      this.webview.postMessage({ type: "empty" });
+      return;
+    }
+
+    const group = parsed.groups.get(this.currentGroup)!;
+    const dict = this.getDictionary(this.currentDocument);
+    const options = this.getEditorOptions(parsed, group, dict);
+    const keys = getKeyHeadings(group.name, dict, getFileDefinitions(parsed));
+    const snapshot: SentGroup = {
+      uri: this.currentDocument.uri.toString(),
+      name: group.name,
+      groupNames: Array.from(parsed.groups.keys()),
+      headings: group.headings.slice(),
+      units: group.units.length > 0 ? group.units.slice() : null,
+      types: group.types.length > 0 ? group.types.slice() : null,
+      rows: group.data.slice(),
+      options: JSON.stringify(options),
+      optionSources: getOptionSources(parsed, dict),
+    };
+    this.sent = snapshot;
+
+    this.webview.postMessage({
+      type: "group",
+      generation: this.generation,
+      groupName: group.name,
+      groupNames: snapshot.groupNames,
+      description: dict.groups[group.name] || "User-defined group",
+      headings: group.headings.map((heading, i) => ({
+        name: heading,
+        description: dict.headingDetails[heading]?.description || dict.headings[heading] || "",
+        type: group.types[i] || "",
+        options: options[i],
+        key: keys.includes(heading),
+      })),
+      layout: this.getLayout(group.name),
+      units: snapshot.units,
+      types: snapshot.types,
+      rowCount: snapshot.rows.length,
+    });
+
+    // Send the DATA rows in pages so large groups do not block the webview
+    for (let start = 0; start < snapshot.rows.length; start += ROWS_PER_PAGE) {
+      this.webview.postMessage({
+        type: "rows",
+        generation: this.generation,
+        start,
+        rows: snapshot.rows.slice(start, start + ROWS_PER_PAGE),
+      });
+    }
+  }
+
+  /**
+   * Send only the DATA rows that changed since the group was last sent. Changes to
+   * the headings, UNIT or TYPE rows, or the list of groups, resend the whole group.
+   */
+  private updateRows(): void {
+    if (!this.currentGroup) return;
+
+    const parsed = this.parseDocument(this.currentDocument);
+    const group = parsed.groups.get(this.currentGroup);
+    const sent = this.sent;
+
+    if (
+      !group ||
+      !sent ||
+      sent.uri !== this.currentDocument.uri.toString() ||
+      sent.name !== group.name ||
+      !sameValues(sent.groupNames, Array.from(parsed.groups.keys())) ||
+      !sameValues(sent.headings, group.headings) ||
+      !sameValues(sent.units, group.units.length > 0 ? group.units : null) ||
+      !sameValues(sent.types, group.types.length > 0 ? group.types : null)
+    ) {
+      this.updateContent();
+      return;
+    }
+
+    const oldRows = sent.rows;
+    const newRows = group.data;
+
+    // Rows before and after the edit are unchanged (and usually the same arrays)
+    let start = 0;
+    while (start < oldRows.length && start < newRows.length && sameValues(oldRows[start], newRows[start])) {
+      start++;
+    }
+    let oldEnd = oldRows.length;
+    let newEnd = newRows.length;
+    while (oldEnd > start && newEnd > start && sameValues(oldRows[oldEnd - 1], newRows[newEnd - 1])) {
+      oldEnd--;
+      newEnd--;
+    }
+
+    // Pick lists follow edits to the ABBR and LOCA groups
+    const optionSources = getOptionSources(parsed, this.getDictionary(this.currentDocument));
+    if (!sameOptionSources(optionSources, sent.optionSources)) {
+      sent.optionSources = optionSources;
+      const options = this.getEditorOptions(parsed, group, optionSources.dict);
+      const json = JSON.stringify(options);
+      if (json !== sent.options) {
+        sent.options = json;
+        this.webview.postMessage({ type: "options", generation: this.generation, options });
+      }
+    }
+
+    sent.rows = newRows.slice();
+    if (oldEnd === start && newEnd === start) return;
+
+    this.webview.postMessage({
+      type: "spliceRows",
+      generation: this.generation,
+      start,
+      deleteCount: oldEnd - start,
+      rows: newRows.slice(start, newEnd),
+    });
+  }
+
+  public dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables = [];
+  }
+}
+
+function getOptionSources(parsed: ParsedDocument, dict: Dictionary): OptionSources {
+  return {
+    dict,
+    abbrRows: parsed.groups.get("ABBR")?.data.slice() ?? null,
+    locaRows: parsed.groups.get("LOCA")?.data.slice() ?? null,
+  };
+}
+
+function sameOptionSources(a: OptionSources, b: OptionSources): boolean {
+  const sameRows = (x: string[][] | null, y: string[][] | null) =>
+    x === y || (!!x && !!y && x.length === y.length && x.every((row, i) => row === y[i]));
+  return a.dict === b.dict && sameRows(a.abbrRows, b.abbrRows) && sameRows(a.locaRows, b.locaRows);
+}
+
+function sameValues(a: string[] | null, b: string[] | null): boolean {
+  if (a === b) return true;
+  if (!a || !b || a.length !== b.length) return false;
+  return a.every((value, i) => value === b[i]);
+}
@@ -0,0 +1,63 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatRows } from "../ags-formatter";
+
+describe("formatRows", () => {
+  it("quotes every field and removes whitespace around separators", () => {
+    assert.deepEqual(formatRows(['  group, "LOCA"', '"HEADING" , LOCA_ID,"LOCA_NATE"', "DATA,BH1 ,  "]), [
+      '"GROUP","LOCA"',
+      '"HEADING","LOCA_ID","LOCA_NATE"',
+      '"DATA","BH1",""',
+    ]);
+  });
+
+  it("keeps quoted commas and doubled quotes", () => {
+    assert.deepEqual(formatRows(['"DATA", "Sand, gravel","6"" casing"']), ['"DATA","Sand, gravel","6"" casing"']);
+  });
+
+  it("leaves one blank line between groups and none within them", () => {
+    assert.deepEqual(formatRows(['"GROUP","PROJ"', "", '"HEADING","PROJ_ID"', '"GROUP","TRAN"', "", "", '"GROUP","LOCA"']), [
+      '"GROUP","PROJ"',
+      '"HEADING","PROJ_ID"',
+      "",
+      '"GROUP","TRAN"',
+      "",
+      '"GROUP","LOCA"',
+    ]);
+  });
+
+  it("leaves lines that are not AGS rows as they are", () => {
+    assert.deepEqual(formatRows(["not, an AGS row", '"GROUP","PROJ"']), ["not, an AGS row", "", '"GROUP","PROJ"']);
+  });
+
+  it("sorts headings into dictionary order, keeping other headings after them", () => {
+    const lines = [
+      '"GROUP","GEOL"',
+      '"HEADING","GEOL_DESC","GEOL_XTRA","LOCA_ID","GEOL_TOP"',
+      '"UNIT","","","","m"',
+      '"TYPE","X","X","ID","2DP"',
+      '"DATA","Clay","a","BH1","0.00"',
+    ];
+    const order = { headings: () => ["LOCA_ID", "GEOL_TOP", "GEOL_BASE", "GEOL_DESC"] };
+
+    assert.deepEqual(formatRows(lines, order), [
+      '"GROUP","GEOL"',
+      '"HEADING","LOCA_ID","GEOL_TOP","GEOL_DESC","GEOL_XTRA"',
+      '"UNIT","","m","",""',
+      '"TYPE","ID","2DP","X","X"',
+      '"DATA","BH1","0.00","Clay","a"',
+    ]);
+  });
+
+  it("does not sort the headings of a group whose rows do not line up with them", () => {
+    const lines = ['"GROUP","GEOL"', '"HEADING","GEOL_TOP","LOCA_ID"', '"DATA","0.00"'];
+    assert.deepEqual(formatRows(lines, { headings: () => ["LOCA_ID", "GEOL_TOP"] }), lines);
+  });
+
+  it("sorts groups with PROJ, TRAN, UNIT and TYPE first, then dictionary order, then other groups", () => {
+    const lines = ['"GROUP","XTRA"', '"GROUP","GEOL"', '"GROUP","UNIT"', '"GROUP","LOCA"', '"GROUP","PROJ"'];
+    const output = formatRows(lines, { groups: ["GEOL", "LOCA"] }).filter((line) => line);
+
+    assert.deepEqual(output, ['"GROUP","PROJ"', '"GROUP","UNIT"', '"GROUP","LOCA"', '"GROUP","GEOL"', '"GROUP","XTRA"']);
+  });
+});
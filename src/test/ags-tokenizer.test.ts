@@ -0,0 +1,55 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatLine, getFieldIndexAtPosition, parseFields, quoteField, tokenizeLine } from "../ags-tokenizer";
+
+describe("tokenizeLine", () => {
+  it("keeps commas inside quoted fields", () => {
+    assert.deepEqual(parseFields('"DATA","BH1","Sand, gravel"'), ["DATA", "BH1", "Sand, gravel"]);
+  });
+
+  it('unescapes doubled quotes ("")', () => {
+    const fields = tokenizeLine('"DATA","6"" casing"');
+    assert.equal(fields[1].value, '6" casing');
+    assert.equal(fields[1].contentStart, 8);
+    assert.equal(fields[1].contentEnd, 18);
+  });
+
+  it("returns an empty trailing field", () => {
+    assert.deepEqual(parseFields('"DATA","BH1",""'), ["DATA", "BH1", ""]);
+    assert.deepEqual(parseFields('"DATA","BH1",'), ["DATA", "BH1", ""]);
+  });
+
+  it("gives the content range of each field", () => {
+    const [descriptor, value] = tokenizeLine('"DATA", "BH1"');
+    assert.deepEqual(
+      { start: descriptor.start, end: descriptor.end, quoted: descriptor.quoted },
+      { start: 0, end: 6, quoted: true }
+    );
+    assert.deepEqual({ contentStart: value.contentStart, contentEnd: value.contentEnd }, { contentStart: 9, contentEnd: 12 });
+  });
+
+  it("returns no fields for an empty line", () => {
+    assert.deepEqual(tokenizeLine(""), []);
+  });
+});
+
+describe("getFieldIndexAtPosition", () => {
+  it("finds the field under a character position", () => {
+    const fields = tokenizeLine('"DATA","BH1","CP"');
+    assert.equal(getFieldIndexAtPosition(fields, 2), 0);
+    assert.equal(getFieldIndexAtPosition(fields, 9), 1);
+    assert.equal(getFieldIndexAtPosition(fields, 15), 2);
+  });
+});
+
+describe("formatLine", () => {
+  it("quotes every field and doubles quotes in values", () => {
+    assert.equal(quoteField('6" casing'), '"6"" casing"');
+    assert.equal(formatLine(["DATA", 'a"b', ""]), '"DATA","a""b",""');
+  });
+
+  it("round-trips through parseFields", () => {
+    const values = ["DATA", "Sand, gravel", '6" casing', ""];
+    assert.deepEqual(parseFields(formatLine(values)), values);
+  });
+});
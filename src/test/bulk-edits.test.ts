@@ -0,0 +1,69 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { addOffset, createReplacer, fillValues } from "../bulk-edits";
+
+describe("fillValues", () => {
+  it("copies the first cell down", () => {
+    assert.deepEqual(fillValues(["CP", "BH"], 3, "copy", "PA"), { values: ["CP", "CP", "CP"], repeated: false });
+  });
+
+  it("continues a numeric series at the column's precision, including its first cells", () => {
+    assert.deepEqual(fillValues(["1.0", "1.5"], 4, "series", "2DP").values, ["1.00", "1.50", "2.00", "2.50"]);
+  });
+
+  it("keeps the seeds' decimal places for columns without a precision type", () => {
+    assert.deepEqual(fillValues(["1.0", "1.5"], 4, "series", "X").values, ["1.0", "1.5", "2.0", "2.5"]);
+  });
+
+  it("steps by one from a single number", () => {
+    assert.deepEqual(fillValues(["3", ""], 3, "series", "0DP").values, ["3", "4", "5"]);
+  });
+
+  it("reports values that repeat once rounded", () => {
+    assert.deepEqual(fillValues(["9", ""], 3, "series", "1SF"), { values: ["9", "10", "10"], repeated: true });
+    // A step of zero repeats on purpose
+    assert.equal(fillValues(["2", "2"], 3, "series", "0DP").repeated, false);
+  });
+
+  it("numbers text ending in a number, keeping zero padding", () => {
+    assert.deepEqual(fillValues(["S1", "S2"], 3, "series", "ID").values, ["S1", "S2", "S3"]);
+    assert.deepEqual(fillValues(["BH-007", ""], 2, "series", "ID").values, ["BH-007", "BH-008"]);
+    assert.deepEqual(fillValues(["S01", "S00"], 3, "series", "ID").values, ["S01", "S00", "S-01"]);
+  });
+
+  it("copies text without a number", () => {
+    assert.deepEqual(fillValues(["Clay", "Sand"], 3, "series", "X").values, ["Clay", "Clay", "Clay"]);
+  });
+});
+
+describe("addOffset", () => {
+  it("adds a constant at the column's precision", () => {
+    assert.equal(addOffset("1.20", "0.5", "2DP"), "1.70");
+    assert.equal(addOffset("1.2", "0.05", "X"), "1.25");
+  });
+
+  it("keeps the zero padding of whole numbers, with the sign first", () => {
+    assert.equal(addOffset("005", "2", "X"), "007");
+    assert.equal(addOffset("05", "-6", "X"), "-01");
+  });
+
+  it("skips empty and non-numeric values", () => {
+    assert.equal(addOffset("", "0.5", "2DP"), undefined);
+    assert.equal(addOffset("BH1", "1", "X"), undefined);
+  });
+});
+
+describe("createReplacer", () => {
+  it("replaces plain text, ignoring case unless asked", () => {
+    assert.equal(createReplacer("clay", "CLAY", false, false)("Soft clay and Clay"), "Soft CLAY and CLAY");
+    assert.equal(createReplacer("clay", "CLAY", false, true)("Soft clay and Clay"), "Soft CLAY and Clay");
+  });
+
+  it("matches special characters in plain text literally", () => {
+    assert.equal(createReplacer("1.5 (est)", "1.5", false, true)("1.5 (est)"), "1.5");
+  });
+
+  it("replaces regular expression matches with groups", () => {
+    assert.equal(createReplacer("^BH(\\d+)$", "BH-$1", true, true)("BH12"), "BH-12");
+  });
+});
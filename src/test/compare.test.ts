@@ -0,0 +1,125 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FileComparison, compareDocuments, formatComparisonMarkdown } from "../compare";
+import { parseText } from "./text-document";
+
+const KEY_HEADINGS: Record<string, string[]> = {
+  TRAN: [],
+  LOCA: ["LOCA_ID"],
+  GEOL: ["LOCA_ID", "GEOL_TOP", "GEOL_BASE"],
+  SAMP: ["LOCA_ID"],
+};
+
+const OLD = [
+  '"GROUP","TRAN"',
+  '"HEADING","TRAN_ISNO","TRAN_AGS"',
+  '"UNIT","",""',
+  '"TYPE","X","X"',
+  '"DATA","1","4.1"',
+  "",
+  '"GROUP","LOCA"',
+  '"HEADING","LOCA_ID","LOCA_FDEP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH1","10.00"',
+  '"DATA","BH2","12.00"',
+  '"DATA","BH3","8.00"',
+  "",
+  '"GROUP","GEOL"',
+  '"HEADING","LOCA_ID","GEOL_TOP","GEOL_BASE"',
+  '"UNIT","","m","m"',
+  '"TYPE","ID","2DP","2DP"',
+  '"DATA","BH1","0.00","10.00"',
+].join("\r\n");
+
+const NEW = [
+  '"GROUP","TRAN"',
+  '"HEADING","TRAN_ISNO","TRAN_AGS"',
+  '"UNIT","",""',
+  '"TYPE","X","X"',
+  '"DATA","2","4.1"',
+  "",
+  '"GROUP","LOCA"',
+  '"HEADING","LOCA_ID","LOCA_FDEP","LOCA_REM"',
+  '"UNIT","","m",""',
+  '"TYPE","ID","2DP","X"',
+  '"DATA","BH3","8.00",""',
+  '"DATA","BH1","10.50",""',
+  '"DATA","BH4","5.00",""',
+  "",
+  '"GROUP","SAMP"',
+  '"HEADING","LOCA_ID","SAMP_TOP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH1","1.00"',
+].join("\r\n");
+
+function compare(oldText: string, newText: string): FileComparison {
+  return compareDocuments(parseText(oldText), parseText(newText), (name) => KEY_HEADINGS[name] ?? [], "old.ags", "new.ags");
+}
+
+describe("compareDocuments", () => {
+  const comparison = compare(OLD, NEW);
+  const group = (name: string) => comparison.groups.find((g) => g.name === name)!;
+
+  it("matches records on their key headings, so moved rows are not changes", () => {
+    const loca = group("LOCA");
+    assert.equal(loca.status, "changed");
+    assert.deepEqual(loca.keyHeadings, ["LOCA_ID"]);
+    assert.deepEqual(loca.changed, [
+      { key: "LOCA_ID=BH1", oldLine: 10, newLine: 11, values: [{ heading: "LOCA_FDEP", oldValue: "10.00", newValue: "10.50" }] },
+    ]);
+    assert.deepEqual(loca.added, [{ key: "LOCA_ID=BH4", line: 12 }]);
+    assert.deepEqual(loca.removed, [{ key: "LOCA_ID=BH2", line: 11 }]);
+    assert.equal(loca.unchangedCount, 1);
+  });
+
+  it("reports added and removed headings", () => {
+    assert.deepEqual(group("LOCA").addedHeadings, ["LOCA_REM"]);
+    assert.deepEqual(group("LOCA").removedHeadings, []);
+  });
+
+  it("reports groups in only one file with all their records", () => {
+    assert.equal(group("SAMP").status, "added");
+    assert.deepEqual(group("SAMP").added, [{ key: "LOCA_ID=BH1", line: 18 }]);
+    assert.equal(group("GEOL").status, "removed");
+    assert.equal(group("GEOL").removed.length, 1);
+  });
+
+  it("compares single-record groups directly and reads the issue numbers", () => {
+    assert.deepEqual(group("TRAN").changed[0].values, [{ heading: "TRAN_ISNO", oldValue: "1", newValue: "2" }]);
+    assert.deepEqual({ oldIssue: comparison.oldIssue, newIssue: comparison.newIssue }, { oldIssue: "1", newIssue: "2" });
+  });
+
+  it("matches whole records when a group has no key headings", () => {
+    const oldText = OLD.replace('"LOCA_ID","LOCA_FDEP"', '"LOCA_XID","LOCA_FDEP"');
+    const newText = OLD.replace('"LOCA_ID","LOCA_FDEP"', '"LOCA_XID","LOCA_FDEP"').replace('"BH2","12.00"', '"BH2","12.50"');
+    const loca = compare(oldText, newText).groups.find((g) => g.name === "LOCA")!;
+
+    assert.deepEqual(loca.keyHeadings, []);
+    assert.deepEqual(
+      { added: loca.added.map((r) => r.key), removed: loca.removed.map((r) => r.key), changed: loca.changed.length },
+      { added: ["LOCA_XID=BH2, LOCA_FDEP=12.50"], removed: ["LOCA_XID=BH2, LOCA_FDEP=12.00"], changed: 0 }
+    );
+  });
+
+  it("finds no differences between identical files", () => {
+    assert.ok(compare(OLD, OLD).groups.every((g) => g.status === "unchanged"));
+  });
+});
+
+describe("formatComparisonMarkdown", () => {
+  it("lists the changed values and the added and removed records of each changed group", () => {
+    const markdown = formatComparisonMarkdown(compare(OLD, NEW));
+
+    assert.match(markdown, /\*\*Old file:\*\* old\.ags \(issue 1\)/);
+    assert.match(markdown, /\| LOCA \| changed \| 1 \| 1 \| 1 \| 1 \|/);
+    assert.match(markdown, /\| LOCA_ID=BH1 \| LOCA_FDEP \| 10\.00 \| 10\.50 \|/);
+    assert.match(markdown, /- LOCA_ID=BH4 \(new file line 13\)/);
+    assert.match(markdown, /\*Group removed with 1 record\*/);
+  });
+
+  it("says when there are no differences", () => {
+    assert.match(formatComparisonMarkdown(compare(OLD, OLD)), /No differences found\./);
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findDepthProblems } from "../depth-checks";
+import { parseText } from "./text-document";
+
+/**
+ * An AGS file with one location drilled to 10 m and the given GEOL layers (top, base)
+ */
+function withLayers(layers: Array<[string, string]>, extra: string[] = []): string {
+  return [
+    '"GROUP","LOCA"',
+    '"HEADING","LOCA_ID","LOCA_FDEP"',
+    '"UNIT","","m"',
+    '"TYPE","ID","2DP"',
+    '"DATA","BH1","10.00"',
+    "",
+    '"GROUP","GEOL"',
+    '"HEADING","LOCA_ID","GEOL_TOP","GEOL_BASE"',
+    '"UNIT","","m","m"',
+    '"TYPE","ID","2DP","2DP"',
+    ...layers.map(([top, base]) => `"DATA","BH1","${top}","${base}"`),
+    ...extra,
+  ].join("\r\n");
+}
+
+describe("findDepthProblems", () => {
+  it("accepts layers from 0 to the final depth without gaps, in any order", () => {
+    assert.deepEqual(findDepthProblems(parseText(withLayers([["2.00", "10.00"], ["0.00", "2.00"]]))), []);
+  });
+
+  it("reports a first layer below ground level, gaps and overlaps", () => {
+    const problems = findDepthProblems(
+      parseText(
+        withLayers([
+          ["0.50", "2.00"],
+          ["2.50", "4.00"],
+          ["3.50", "5.00"],
+        ])
+      )
+    );
+
+    assert.deepEqual(
+      problems.map((problem) => problem.message),
+      [
+        "First GEOL layer of BH1 starts at 0.50 m instead of 0",
+        "Gap in GEOL of BH1 between 2.00 m and 2.50 m",
+        "GEOL layer at 3.50 m of BH1 overlaps the layer above, which ends at 4.00 m",
+      ]
+    );
+    assert.deepEqual({ line: problems[1].line, fieldIndex: problems[1].fieldIndex }, { line: 11, fieldIndex: 2 });
+  });
+
+  it("reports layers that end below the final depth or do not go down", () => {
+    const messages = findDepthProblems(parseText(withLayers([["0.00", "0.00"], ["0.00", "12.00"]]))).map(
+      (problem) => problem.message
+    );
+
+    assert.deepEqual(messages, [
+      "GEOL base 0.00 m of BH1 is not below its top 0.00 m",
+      "GEOL base 12.00 m of BH1 is below the final depth of 10.00 m (LOCA_FDEP)",
+    ]);
+  });
+
+  it("checks depths in other groups against the final depth", () => {
+    const samples = ["", '"GROUP","SAMP"', '"HEADING","LOCA_ID","SAMP_TOP"', '"UNIT","","m"', '"TYPE","ID","2DP"'];
+    const problems = findDepthProblems(
+      parseText(withLayers([["0.00", "10.00"]], [...samples, '"DATA","BH1","11.00"', '"DATA","BH1","-1.00"']))
+    );
+
+    assert.deepEqual(
+      problems.map((problem) => `${problem.group} ${problem.heading}: ${problem.message}`),
+      [
+        "SAMP SAMP_TOP: SAMP_TOP 11.00 m of BH1 is below the final depth of 10.00 m (LOCA_FDEP)",
+        "SAMP SAMP_TOP: SAMP_TOP -1.00 m of BH1 is above ground level",
+      ]
+    );
+  });
+});
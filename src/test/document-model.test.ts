@@ -0,0 +1,162 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AGSDocumentModel, ParsedDocument, findGroupForLine, findRowForLine } from "../document-model";
+import { TestDocument } from "./text-document";
+
+const FILE = [
+  '"GROUP","TRAN"',
+  '"HEADING","TRAN_ISNO","TRAN_AGS"',
+  '"UNIT","",""',
+  '"TYPE","X","X"',
+  '"DATA","1","4.1"',
+  "",
+  '"GROUP","LOCA"',
+  '"HEADING","LOCA_ID","LOCA_FDEP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH1","10.00"',
+  '"DATA","BH2","12.50"',
+  "",
+  '"GROUP","GEOL"',
+  '"HEADING","LOCA_ID","GEOL_TOP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH1","0.00"',
+].join("\r\n");
+
+/**
+ * Parse a document from scratch, for comparing with an incrementally updated one
+ */
+function parseAgain(test: TestDocument): ParsedDocument {
+  return new AGSDocumentModel().get(test.document);
+}
+
+describe("AGSDocumentModel.get", () => {
+  it("parses groups, their header rows and DATA rows", () => {
+    const parsed = new AGSDocumentModel().get(new TestDocument(FILE).document);
+
+    assert.deepEqual(
+      parsed.groupList.map((group) => group.name),
+      ["TRAN", "LOCA", "GEOL"]
+    );
+    const loca = parsed.groups.get("LOCA")!;
+    assert.deepEqual(loca.headings, ["LOCA_ID", "LOCA_FDEP"]);
+    assert.deepEqual(loca.units, ["", "m"]);
+    assert.deepEqual(loca.types, ["ID", "2DP"]);
+    assert.deepEqual(loca.data, [
+      ["BH1", "10.00"],
+      ["BH2", "12.50"],
+    ]);
+    assert.deepEqual(loca.dataLines, [10, 11]);
+    assert.deepEqual({ line: loca.line, endLine: loca.endLine, dataCount: loca.dataCount }, { line: 6, endLine: 12, dataCount: 2 });
+    assert.equal(parsed.version, "4.1");
+  });
+
+  it("keeps repeated groups in the group list", () => {
+    const parsed = new AGSDocumentModel().get(new TestDocument(`${FILE}\r\n"GROUP","LOCA"`).document);
+    assert.deepEqual(
+      parsed.groupList.map((group) => group.name),
+      ["TRAN", "LOCA", "GEOL", "LOCA"]
+    );
+  });
+
+  it("reuses the parse of an unchanged version", () => {
+    const model = new AGSDocumentModel();
+    const test = new TestDocument(FILE);
+    assert.equal(model.get(test.document), model.get(test.document));
+  });
+});
+
+describe("AGSDocumentModel.update", () => {
+  it("updates an edited DATA row in place", () => {
+    const model = new AGSDocumentModel();
+    const test = new TestDocument(FILE);
+    const parsed = model.get(test.document);
+    const loca = parsed.groups.get("LOCA");
+
+    model.update(test.edit(11, 14, 11, 19, "13.00"));
+
+    assert.equal(model.get(test.document), parsed);
+    assert.equal(parsed.groups.get("LOCA"), loca);
+    assert.deepEqual(loca?.data[1], ["BH2", "13.00"]);
+    assert.deepEqual(parsed, parseAgain(test));
+  });
+
+  it("updates the AGS version when TRAN_AGS is edited", () => {
+    const model = new AGSDocumentModel();
+    const test = new TestDocument(FILE);
+    model.get(test.document);
+
+    model.update(test.setLine(4, '"DATA","1","4.1.1"'));
+
+    assert.equal(model.get(test.document).version, "4.1.1");
+  });
+
+  it("reparses the edited group and shifts the groups after it when rows are added", () => {
+    const model = new AGSDocumentModel();
+    const test = new TestDocument(FILE);
+    const parsed = model.get(test.document);
+    const geol = parsed.groups.get("GEOL");
+
+    model.update(test.edit(11, 20, 11, 20, '\r\n"DATA","BH3","8.00"'));
+
+    assert.equal(parsed.groups.get("GEOL"), geol);
+    assert.equal(geol?.line, 14);
+    assert.deepEqual(geol?.dataLines, [18]);
+    assert.deepEqual(parsed.groups.get("LOCA")?.data.length, 3);
+    assert.deepEqual(parsed, parseAgain(test));
+  });
+
+  it("reparses rows that change type, such as a DATA row becoming a GROUP row", () => {
+    const model = new AGSDocumentModel();
+    const test = new TestDocument(FILE);
+    const parsed = model.get(test.document);
+
+    model.update(test.setLine(11, '"GROUP","SAMP"'));
+
+    assert.deepEqual(
+      parsed.groupList.map((group) => group.name),
+      ["TRAN", "LOCA", "SAMP", "GEOL"]
+    );
+    assert.deepEqual(parsed, parseAgain(test));
+  });
+
+  it("merges a group into the one before it when its GROUP row is deleted", () => {
+    const model = new AGSDocumentModel();
+    const test = new TestDocument(FILE);
+    const parsed = model.get(test.document);
+
+    model.update(test.edit(12, 0, 14, 0, ""));
+
+    assert.deepEqual(
+      parsed.groupList.map((group) => group.name),
+      ["TRAN", "LOCA"]
+    );
+    assert.deepEqual(parsed, parseAgain(test));
+  });
+
+  it("parses the document again after a missed edit", () => {
+    const model = new AGSDocumentModel();
+    const test = new TestDocument(FILE);
+    model.get(test.document);
+
+    test.setLine(17, '"DATA","BH1","1.00"');
+    model.update(test.setLine(17, '"DATA","BH1","2.00"'));
+
+    assert.deepEqual(model.get(test.document).groups.get("GEOL")?.data, [["BH1", "2.00"]]);
+  });
+});
+
+describe("findRowForLine", () => {
+  it("finds the group and row type of a line", () => {
+    const parsed = new AGSDocumentModel().get(new TestDocument(FILE).document);
+
+    assert.equal(findGroupForLine(parsed, 12)?.name, "LOCA");
+    assert.equal(findRowForLine(parsed, 9)?.rowType, "TYPE");
+    assert.deepEqual(
+      { name: findRowForLine(parsed, 11)?.group.name, rowIndex: findRowForLine(parsed, 11)?.rowIndex },
+      { name: "LOCA", rowIndex: 1 }
+    );
+    assert.equal(findRowForLine(parsed, 12), null);
+  });
+});
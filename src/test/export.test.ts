@@ -0,0 +1,134 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as zlib from "zlib";
+import { getCsvFileNames, toCsv, toJson, toXlsx } from "../export";
+import { parseText } from "./text-document";
+
+const FILE = [
+  '"GROUP","LOCA"',
+  '"HEADING","LOCA_ID","LOCA_FDEP","LOCA_REM"',
+  '"UNIT","","m",""',
+  '"TYPE","ID","2DP","X"',
+  '"DATA","007","10.5","Sand, ""loose"""',
+  '"DATA","BH2","",""',
+  "",
+  '"GROUP","GEOL"',
+  '"HEADING","LOCA_ID","GEOL_TOP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH2","0.00"',
+  "",
+  '"GROUP","GEOL"',
+  '"HEADING","LOCA_ID","GEOL_TOP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH2","1.20"',
+].join("\r\n");
+
+/**
+ * Read the files of a zip archive written by the XLSX export as text
+ */
+function readZip(data: Uint8Array): Map<string, string> {
+  const buffer = Buffer.from(data);
+  const files = new Map<string, string>();
+  let offset = 0;
+
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.toString("utf8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    files.set(name, zlib.inflateRawSync(buffer.subarray(start, start + compressedSize)).toString("utf8"));
+    offset = start + compressedSize;
+  }
+  return files;
+}
+
+/**
+ * Number format code of a cell's style in a workbook
+ */
+function getCellFormat(files: Map<string, string>, sheet: number, ref: string): string | undefined {
+  const cell = files.get(`xl/worksheets/sheet${sheet}.xml`)?.match(new RegExp(`<c r="${ref}"(?: s="(\\d+)")?`));
+  const styles = files.get("xl/styles.xml") ?? "";
+  const cellStyles = styles.match(/<cellXfs[^>]*>(.*)<\/cellXfs>/)?.[1] ?? "";
+  const formatId = Array.from(cellStyles.matchAll(/<xf numFmtId="(\d+)"/g))[Number(cell?.[1] ?? 0)]?.[1];
+  if (formatId === "0") return "General";
+  return styles.match(new RegExp(`<numFmt numFmtId="${formatId}" formatCode="([^"]*)"`))?.[1];
+}
+
+describe("toJson", () => {
+  it("writes each group's headings, units, types and rows", () => {
+    const [loca] = toJson(parseText(FILE).groupList);
+    assert.deepEqual(loca, {
+      GROUP: "LOCA",
+      HEADING: ["LOCA_ID", "LOCA_FDEP", "LOCA_REM"],
+      UNIT: ["", "m", ""],
+      TYPE: ["ID", "2DP", "X"],
+      DATA: [
+        ["007", "10.5", 'Sand, "loose"'],
+        ["BH2", "", ""],
+      ],
+    });
+  });
+});
+
+describe("toCsv", () => {
+  it("writes the headings, UNIT and TYPE rows and data, quoting where needed", () => {
+    const csv = toCsv(parseText(FILE).groups.get("LOCA")!);
+    assert.equal(csv, '\uFEFFLOCA_ID,LOCA_FDEP,LOCA_REM\r\n,m,\r\nID,2DP,X\r\n007,10.5,"Sand, ""loose"""\r\nBH2,,\r\n');
+  });
+});
+
+describe("getCsvFileNames", () => {
+  it("numbers repeated groups", () => {
+    assert.deepEqual(getCsvFileNames("site", parseText(FILE).groupList), [
+      "site_LOCA.csv",
+      "site_GEOL.csv",
+      "site_GEOL_2.csv",
+    ]);
+  });
+});
+
+describe("toXlsx", () => {
+  const files = readZip(toXlsx(parseText(FILE).groupList));
+
+  it("writes one sheet per group, numbering repeated groups", () => {
+    const sheets = Array.from((files.get("xl/workbook.xml") ?? "").matchAll(/<sheet name="([^"]*)"/g), (m) => m[1]);
+    assert.deepEqual(sheets, ["LOCA", "GEOL", "GEOL (2)"]);
+  });
+
+  it("writes values of precision types as numbers formatted to their precision", () => {
+    const sheet = files.get("xl/worksheets/sheet1.xml") ?? "";
+    assert.match(sheet, /<c r="B4"[^>]*><v>10.5<\/v><\/c>/);
+    assert.equal(getCellFormat(files, 1, "B4"), "0.00");
+  });
+
+  it("shows nSF values with the decimals they are written with", () => {
+    const sf = [
+      '"GROUP","SAMP"',
+      '"HEADING","SAMP_ID","SAMP_TOP"',
+      '"UNIT","","m"',
+      '"TYPE","X","3SF"',
+      '"DATA","S1","1.50"',
+      '"DATA","S2","0.0123"',
+      '"DATA","S3","1.23E+3"',
+    ].join("\r\n");
+    const sfFiles = readZip(toXlsx(parseText(sf).groupList));
+
+    assert.deepEqual(
+      ["B4", "B5", "B6"].map((ref) => getCellFormat(sfFiles, 1, ref)),
+      ["0.00", "0.0000", "General"]
+    );
+  });
+
+  it("keeps other values as text", () => {
+    const sheet = files.get("xl/worksheets/sheet1.xml") ?? "";
+    assert.match(sheet, /<c r="A4" t="inlineStr"><is><t xml:space="preserve">007<\/t><\/is><\/c>/);
+    assert.match(sheet, /<c r="C4" t="inlineStr"><is><t xml:space="preserve">Sand, &quot;loose&quot;<\/t>/);
+  });
+
+  it("freezes the HEADING, UNIT and TYPE rows", () => {
+    assert.match(files.get("xl/worksheets/sheet1.xml") ?? "", /<pane ySplit="3" topLeftCell="A4"/);
+  });
+});
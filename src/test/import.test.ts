@@ -0,0 +1,112 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as path from "path";
+import { DEFAULT_VERSION, loadDictionary } from "../dictionary-loader";
+import { getImportedRows, hasUnitAndTypeRows, matchHeading, rankGroups, readJsonGroups } from "../import";
+import { parseText } from "./text-document";
+
+const dict = loadDictionary(DEFAULT_VERSION, path.join(__dirname, "..", ".."));
+
+const FILE = [
+  '"GROUP","LOCA"',
+  '"HEADING","LOCA_ID","LOCA_FDEP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH1","10.00"',
+].join("\r\n");
+
+describe("readJsonGroups", () => {
+  it("reads a list of groups, converting numbers and nulls to text", () => {
+    const groups = readJsonGroups('[{"GROUP":"LOCA","HEADING":["LOCA_ID","LOCA_FDEP"],"DATA":[["BH1",10.5],["BH2",null]]}]');
+    assert.deepEqual(groups, [
+      {
+        GROUP: "LOCA",
+        HEADING: ["LOCA_ID", "LOCA_FDEP"],
+        UNIT: ["", ""],
+        TYPE: ["", ""],
+        DATA: [
+          ["BH1", "10.5"],
+          ["BH2", ""],
+        ],
+      },
+    ]);
+  });
+
+  it("reads a single group", () => {
+    assert.equal(readJsonGroups('{"GROUP":"PROJ","HEADING":["PROJ_ID"],"DATA":[]}')[0].GROUP, "PROJ");
+  });
+
+  it("describes the first problem found", () => {
+    assert.throws(() => readJsonGroups("{"), /^Error: Invalid JSON/);
+    assert.throws(() => readJsonGroups('[{"HEADING":["LOCA_ID"]}]'), /Group 1 has no GROUP name/);
+    assert.throws(() => readJsonGroups('{"GROUP":"LOCA","HEADING":[]}'), /Group LOCA has no HEADING list/);
+  });
+});
+
+describe("matchHeading", () => {
+  it("matches heading codes, codes without the group prefix and descriptions", () => {
+    assert.equal(matchHeading("loca_id", "LOCA", dict), "LOCA_ID");
+    assert.equal(matchHeading("Top", "GEOL", dict), "GEOL_TOP");
+    assert.equal(matchHeading("Final depth", "LOCA", dict), "LOCA_FDEP");
+  });
+
+  it("accepts user-defined headings of the group written as codes", () => {
+    assert.equal(matchHeading("GEOL_XTRA", "GEOL", dict), "GEOL_XTRA");
+    assert.equal(matchHeading("SAMP_XTRA", "GEOL", dict), undefined);
+    assert.equal(matchHeading("Colour of the sky", "GEOL", dict), undefined);
+  });
+});
+
+describe("rankGroups", () => {
+  it("ranks the group whose headings match the most columns first", () => {
+    assert.deepEqual(rankGroups(["LOCA_ID", "GEOL_TOP", "GEOL_BASE", "Legend code"], dict)[0], { name: "GEOL", matches: 4 });
+  });
+});
+
+describe("hasUnitAndTypeRows", () => {
+  it("recognises the UNIT and TYPE rows written by the CSV export", () => {
+    assert.equal(hasUnitAndTypeRows([["LOCA_ID", "LOCA_FDEP"], ["", "m"], ["ID", "2DP"], ["BH1", "10.00"]], dict), true);
+    assert.equal(hasUnitAndTypeRows([["LOCA_ID", "LOCA_FDEP"], ["BH1", "10.00"], ["BH2", "12.00"]], dict), false);
+  });
+});
+
+describe("getImportedRows", () => {
+  it("adds new groups with UNIT and TYPE rows from the dictionary where the import leaves them blank", () => {
+    const groups = readJsonGroups('{"GROUP":"GEOL","HEADING":["LOCA_ID","GEOL_TOP"],"UNIT":["","ft"],"DATA":[["BH1",0]]}');
+    const { appended, newGroups, skipped } = getImportedRows(parseText(FILE), dict, groups);
+
+    assert.deepEqual(appended, []);
+    assert.deepEqual(skipped, []);
+    assert.deepEqual(newGroups, [
+      ['"GROUP","GEOL"', '"HEADING","LOCA_ID","GEOL_TOP"', '"UNIT","","ft"', '"TYPE","ID","2DP"', '"DATA","BH1","0"'],
+    ]);
+  });
+
+  it("appends records of an existing group under its headings, leaving out headings it does not have", () => {
+    const parsed = parseText(FILE);
+    const groups = readJsonGroups('{"GROUP":"LOCA","HEADING":["LOCA_REM","LOCA_ID"],"DATA":[["Dry","BH2"]]}');
+    const { appended, newGroups, skipped } = getImportedRows(parsed, dict, groups);
+
+    assert.deepEqual(newGroups, []);
+    assert.equal(appended[0].group, parsed.groups.get("LOCA"));
+    assert.deepEqual(appended[0].rows, ['"DATA","BH2",""']);
+    assert.deepEqual(skipped, ["LOCA_REM"]);
+  });
+
+  it("merges a group imported more than once into one group with the headings of both", () => {
+    const groups = readJsonGroups(
+      '[{"GROUP":"GEOL","HEADING":["LOCA_ID","GEOL_TOP"],"DATA":[["BH1",0]]},' +
+        '{"GROUP":"GEOL","HEADING":["LOCA_ID","GEOL_BASE"],"DATA":[["BH2",1.5]]}]'
+    );
+    const { newGroups } = getImportedRows(parseText(FILE), dict, groups);
+
+    assert.equal(newGroups.length, 1);
+    assert.deepEqual(newGroups[0].slice(1, 2), ['"HEADING","LOCA_ID","GEOL_TOP","GEOL_BASE"']);
+    assert.deepEqual(newGroups[0].slice(4), ['"DATA","BH1","0",""', '"DATA","BH2","","1.5"']);
+  });
+
+  it("replaces line breaks in values with spaces", () => {
+    const groups = readJsonGroups('{"GROUP":"LOCA","HEADING":["LOCA_ID","LOCA_FDEP"],"DATA":[["BH\\r\\n2","1"]]}');
+    assert.deepEqual(getImportedRows(parseText(FILE), dict, groups).appended[0].rows, ['"DATA","BH 2","1"']);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as path from "path";
+import { DEFAULT_VERSION, loadDictionary } from "../dictionary-loader";
+import { findMissingReferences, getReferenceRows } from "../reference-records";
+import { parseText } from "./text-document";
+
+const dict = loadDictionary(DEFAULT_VERSION, path.join(__dirname, "..", ".."));
+
+const FILE = [
+  '"GROUP","UNIT"',
+  '"HEADING","UNIT_UNIT","UNIT_DESC"',
+  '"UNIT","",""',
+  '"TYPE","X","X"',
+  '"DATA","m","metre"',
+  "",
+  '"GROUP","TYPE"',
+  '"HEADING","TYPE_TYPE","TYPE_DESC"',
+  '"UNIT","",""',
+  '"TYPE","X","X"',
+  '"DATA","X","Text"',
+  '"DATA","PU","Pick unit"',
+  '"DATA","PT","Pick type"',
+  "",
+  '"GROUP","DICT"',
+  '"HEADING","DICT_TYPE","DICT_GRP","DICT_HDNG","DICT_UNIT","DICT_DTYP"',
+  '"UNIT","","","","",""',
+  '"TYPE","X","X","X","PU","PT"',
+  '"DATA","HEADING","LOCA","LOCA_XTRA","m","X"',
+  '"DATA","HEADING","LOCA","LOCA_XDEP","kPa","2DP"',
+].join("\r\n");
+
+describe("findMissingReferences", () => {
+  it("checks values of pick unit and pick type columns against the UNIT and TYPE groups", () => {
+    assert.deepEqual(findMissingReferences(parseText(FILE)), [
+      { group: "UNIT", code: "kPa", line: 19, fieldIndex: 4 },
+      { group: "TYPE", code: "2DP", line: 19, fieldIndex: 5 },
+    ]);
+  });
+
+  it("reports a code once, however often it is used", () => {
+    const text = FILE + '\r\n"DATA","HEADING","LOCA","LOCA_YDEP","kPa","2DP"';
+    assert.equal(findMissingReferences(parseText(text)).length, 2);
+  });
+});
+
+describe("getReferenceRows", () => {
+  it("appends records to existing reference groups, described from the dictionary", () => {
+    const parsed = parseText(FILE);
+    const { appended, newGroups } = getReferenceRows(parsed, dict, findMissingReferences(parsed));
+
+    assert.deepEqual(newGroups, []);
+    assert.deepEqual(
+      appended.map(({ group, rows }) => [group.name, rows]),
+      [
+        ["UNIT", ['"DATA","kPa","kiloPascal"']],
+        ["TYPE", ['"DATA","2DP","Value; required number of decimal places, 2"']],
+      ]
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as path from "path";
+import { DEFAULT_VERSION, loadDictionary } from "../dictionary-loader";
+import { AGSDocumentModel } from "../document-model";
+import { AGSRuleChecker, DocumentLines, getFileDefinitions, getParentKeyHeadings, RuleProblem } from "../rule-checks";
+import { parseText, TestDocument } from "./text-document";
+
+const dict = loadDictionary(DEFAULT_VERSION, path.join(__dirname, "..", ".."));
+
+const LINES = [
+  '"GROUP","PROJ"',
+  '"HEADING","PROJ_ID","PROJ_NAME"',
+  '"UNIT","",""',
+  '"TYPE","ID","X"',
+  '"DATA","P1","Site"',
+  "",
+  '"GROUP","TRAN"',
+  '"HEADING","TRAN_ISNO","TRAN_DATE","TRAN_PROD","TRAN_STAT","TRAN_AGS","TRAN_RECV","TRAN_RCON","TRAN_DLIM"',
+  '"UNIT","","yyyy-mm-dd","","","","","",""',
+  '"TYPE","X","DT","X","X","X","X","X","X"',
+  '"DATA","1","2024-01-01","Me","Final","4.1.1","Client","+","+"',
+  "",
+  '"GROUP","UNIT"',
+  '"HEADING","UNIT_UNIT","UNIT_DESC"',
+  '"UNIT","",""',
+  '"TYPE","X","X"',
+  '"DATA","m","metre"',
+  '"DATA","yyyy-mm-dd","date"',
+  "",
+  '"GROUP","TYPE"',
+  '"HEADING","TYPE_TYPE","TYPE_DESC"',
+  '"UNIT","",""',
+  '"TYPE","X","X"',
+  '"DATA","X","Text"',
+  '"DATA","ID","Identifier"',
+  '"DATA","DT","Date"',
+  '"DATA","2DP","2 decimal places"',
+  "",
+  // Line 28
+  '"GROUP","LOCA"',
+  '"HEADING","LOCA_ID","LOCA_FDEP"',
+  '"UNIT","","m"',
+  '"TYPE","ID","2DP"',
+  '"DATA","BH1","10.00"',
+  '"DATA","BH2","5.00"',
+  "",
+  // Line 35
+  '"GROUP","GEOL"',
+  '"HEADING","LOCA_ID","GEOL_TOP","GEOL_BASE"',
+  '"UNIT","","m","m"',
+  '"TYPE","ID","2DP","2DP"',
+  '"DATA","BH1","0.00","10.00"',
+  '"DATA","BH2","0.00","5.00"',
+];
+
+/**
+ * The valid file with some of its lines replaced
+ */
+function withLines(replacements: Record<number, string>): string {
+  return LINES.map((line, i) => replacements[i] ?? line).join("\r\n");
+}
+
+function check(text: string): RuleProblem[] {
+  const { document } = new TestDocument(text);
+  return new AGSRuleChecker().check(document, new AGSDocumentModel().get(document), dict);
+}
+
+function describeProblems(problems: RuleProblem[]): string[] {
+  return problems.map((problem) => `${problem.line} ${problem.rule ?? "-"}: ${problem.message}`);
+}
+
+/**
+ * Check a document from scratch, for comparing with the checks after an edit
+ */
+function checkAgain(test: TestDocument): RuleProblem[] {
+  return new AGSRuleChecker().check(test.document, new AGSDocumentModel().get(test.document), dict);
+}
+
+/**
+ * A document's lines that records which lines the checks read
+ */
+function recordReads(test: TestDocument, read: Set<number>): DocumentLines {
+  const { document } = test;
+  return {
+    lineCount: document.lineCount,
+    lineAt: (line: number) => {
+      read.add(line);
+      return document.lineAt(line);
+    },
+  };
+}
+
+describe("AGSRuleChecker.check", () => {
+  it("finds no problems in a valid file", () => {
+    assert.deepEqual(check(withLines({})), []);
+  });
+
+  it("checks quoting, row descriptors, row order and field counts", () => {
+    const problems = check(
+      withLines({
+        32: '"DATA",BH1,"10.00"',
+        33: '"DATUM","BH2","5.00"',
+        37: "",
+        40: '"DATA","BH2","0.00"',
+      })
+    );
+
+    assert.deepEqual(describeProblems(problems), [
+      "32 Rule 5: All fields must be enclosed in double quotes",
+      '33 Rule 3: Unknown data descriptor "DATUM"; expected GROUP, HEADING, UNIT, TYPE or DATA',
+      "38 Rule 2b: Missing UNIT row in group GEOL",
+      "40 Rule 4: DATA row has 2 fields but the HEADING row has 3",
+      "40 Rule 10c: No LOCA record for LOCA_ID=BH2",
+    ]);
+    assert.deepEqual({ start: problems[0].start, end: problems[0].end }, { start: 7, end: 10 });
+  });
+
+  it("checks values, keys, parent records and reference records across groups", () => {
+    const problems = check(
+      withLines({
+        33: '"DATA","BH1","5.0"',
+        37: '"UNIT","","ft","m"',
+        40: '"DATA","BH3","0.00","5.00"',
+      })
+    );
+
+    assert.deepEqual(describeProblems(problems), [
+      '33 Rule 8: "5.0" should have 2 decimal places (2DP)',
+      "33 Rule 10a: Duplicate key in group LOCA: LOCA_ID=BH1",
+      "40 Rule 10c: No LOCA record for LOCA_ID=BH3",
+      "37 Rule 15: Unit ft is not defined in the UNIT group",
+    ]);
+    assert.deepEqual(problems[1].related, { line: 32, message: "First row with this key" });
+    assert.deepEqual(problems[2].related, { line: 28, message: "Parent group LOCA" });
+  });
+
+  it("reports at most 100 empty required fields per column, then how many more there are", () => {
+    const undated = Array.from({ length: 103 }, (_, i) => `"DATA","${i + 2}","","Me","Final","4.1.1","Client","+","+"`);
+    const problems = check(withLines({ 10: [LINES[10], ...undated].join("\r\n") }));
+    const empty = problems.filter((problem) => problem.rule === "Rule 10b");
+
+    assert.equal(empty.length, 101);
+    assert.deepEqual(describeProblems(empty.slice(-2)), [
+      "110 Rule 10b: Required field TRAN_DATE is empty",
+      "7 Rule 10b: 3 more rows have an empty TRAN_DATE",
+    ]);
+  });
+
+  it("checks only the group whose DATA row an edit changed", () => {
+    const test = new TestDocument(withLines({}));
+    const model = new AGSDocumentModel();
+    const checker = new AGSRuleChecker();
+    checker.check(test.document, model.get(test.document), dict);
+
+    model.update(test.setLine(40, '"DATA","BH2","0.00","5.5"'));
+    const read = new Set<number>();
+    const problems = checker.check(recordReads(test, read), model.get(test.document), dict);
+
+    assert.deepEqual(problems, checkAgain(test));
+    assert.deepEqual(describeProblems(problems), [
+      "40 -: GEOL base 5.5 m of BH2 is below the final depth of 5.00 m (LOCA_FDEP)",
+      '40 Rule 8: "5.5" should have 2 decimal places (2DP)',
+    ]);
+    assert.deepEqual(
+      [...read].sort((a, b) => a - b),
+      [35, 36, 37, 38, 39, 40]
+    );
+  });
+
+  it("moves the problems of the groups below an inserted row without checking them again", () => {
+    const test = new TestDocument(withLines({ 39: '"DATA","BH1","0","10.00"' }));
+    const model = new AGSDocumentModel();
+    const checker = new AGSRuleChecker();
+    assert.deepEqual(describeProblems(checker.check(test.document, model.get(test.document), dict)), [
+      '39 Rule 8: "0" should have 2 decimal places (2DP)',
+    ]);
+
+    model.update(test.setLine(33, '"DATA","BH2","5.00"\r\n"DATA","BH1","7.00"'));
+    const read = new Set<number>();
+    const problems = checker.check(recordReads(test, read), model.get(test.document), dict);
+
+    assert.deepEqual(problems, checkAgain(test));
+    assert.deepEqual(describeProblems(problems), [
+      "34 Rule 10a: Duplicate key in group LOCA: LOCA_ID=BH1",
+      '40 Rule 8: "0" should have 2 decimal places (2DP)',
+    ]);
+    assert.ok([...read].every((line) => line < 36));
+  });
+
+  it("checks groups again when the rows before them change", () => {
+    const test = new TestDocument(withLines({}));
+    const model = new AGSDocumentModel();
+    const checker = new AGSRuleChecker();
+    checker.check(test.document, model.get(test.document), dict);
+
+    // The LOCA group now ends with its UNIT row, which the GEOL GROUP row below reports
+    model.update(test.edit(31, 0, 34, 0, ""));
+    const problems = checker.check(test.document, model.get(test.document), dict);
+
+    assert.deepEqual(problems, checkAgain(test));
+    assert.ok(describeProblems(problems).includes("32 Rule 2b: Missing TYPE row in group LOCA"));
+  });
+});
+
+describe("getParentKeyHeadings", () => {
+  it("returns the keys a group shares with its parent group, not its own keys", () => {
+    const definitions = getFileDefinitions(parseText(LINES.join("\r\n")));
+
+    assert.deepEqual(getParentKeyHeadings("GEOL", ["LOCA_ID", "GEOL_TOP", "GEOL_BASE"], dict, definitions), ["LOCA_ID"]);
+    assert.deepEqual(getParentKeyHeadings("LOCA", ["LOCA_ID", "LOCA_FDEP"], dict, definitions), []);
+  });
+
+  it("finds the parent of a user-defined group in the file's DICT group", () => {
+    const text = [
+      '"GROUP","DICT"',
+      '"HEADING","DICT_TYPE","DICT_GRP","DICT_HDNG","DICT_STAT","DICT_PGRP"',
+      '"UNIT","","","","",""',
+      '"TYPE","PA","X","X","PA","X"',
+      '"DATA","GROUP","XSMP","","","SAMP"',
+      '"DATA","HEADING","XSMP","XSMP_REF","KEY",""',
+    ].join("\r\n");
+    const headings = ["LOCA_ID", "SAMP_TOP", "SAMP_REF", "SAMP_TYPE", "SAMP_ID", "XSMP_REF"];
+
+    assert.deepEqual(getParentKeyHeadings("XSMP", headings, dict, getFileDefinitions(parseText(text))), [
+      "LOCA_ID",
+      "SAMP_TOP",
+      "SAMP_REF",
+      "SAMP_TYPE",
+      "SAMP_ID",
+    ]);
+  });
+});
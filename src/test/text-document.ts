@@ -0,0 +1,68 @@
+import type * as vscode from "vscode";
+import { AGSDocumentModel, ParsedDocument } from "../document-model";
+
+/**
+ * An in-memory stand-in for a VS Code text document, with the members the parser
+ * uses. Edits change its text and return the change event VS Code would send.
+ */
+export class TestDocument {
+  public version = 1;
+  private lines: string[];
+  private uri: string;
+
+  constructor(text: string, uri = "file:///test.ags") {
+    this.lines = text.split(/\r?\n/);
+    this.uri = uri;
+  }
+
+  /**
+   * The document as the type the providers and the model take
+   */
+  public get document(): vscode.TextDocument {
+    return {
+      uri: { toString: () => this.uri },
+      version: this.version,
+      lineCount: this.lines.length,
+      lineAt: (line: number) => ({ text: this.lines[line] }),
+    } as unknown as vscode.TextDocument;
+  }
+
+  /**
+   * Replace the text between two positions, as a single change
+   */
+  public edit(
+    startLine: number,
+    startCharacter: number,
+    endLine: number,
+    endCharacter: number,
+    text: string
+  ): vscode.TextDocumentChangeEvent {
+    const before = this.lines[startLine].slice(0, startCharacter);
+    const after = this.lines[endLine].slice(endCharacter);
+    this.lines.splice(startLine, endLine - startLine + 1, ...(before + text + after).split(/\r?\n/));
+    this.version++;
+
+    const range = {
+      start: { line: startLine, character: startCharacter },
+      end: { line: endLine, character: endCharacter },
+    };
+    return {
+      document: this.document,
+      contentChanges: [{ range, text }],
+    } as unknown as vscode.TextDocumentChangeEvent;
+  }
+
+  /**
+   * Replace a whole line's text
+   */
+  public setLine(line: number, text: string): vscode.TextDocumentChangeEvent {
+    return this.edit(line, 0, line, this.lines[line].length, text);
+  }
+}
+
+/**
+ * Parse AGS text as the extension parses an open document
+ */
+export function parseText(text: string): ParsedDocument {
+  return new AGSDocumentModel().get(new TestDocument(text).document);
+}
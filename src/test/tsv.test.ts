@@ -0,0 +1,28 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatLine } from "../ags-tokenizer";
+import { parsePastedCells, parseTsv } from "../tsv";
+
+describe("parseTsv", () => {
+  it("reads quoted fields with tabs, line breaks and doubled quotes", () => {
+    assert.deepEqual(parseTsv('BH1\t"Soft\r\nclay"\r\n"6"" casing"\t\r\n'), [
+      ["BH1", "Soft\r\nclay"],
+      ['6" casing', ""],
+    ]);
+  });
+});
+
+describe("parsePastedCells", () => {
+  it("turns line breaks in a pasted multi-line cell into spaces, keeping one DATA row per row", () => {
+    const block = parsePastedCells('BH1\t"Soft\r\nbrown\nclay"\r\nBH2\tSand\r\n');
+
+    assert.deepEqual(block, [
+      ["BH1", "Soft brown clay"],
+      ["BH2", "Sand"],
+    ]);
+    assert.deepEqual(
+      block.map((values) => formatLine(["DATA", ...values])),
+      ['"DATA","BH1","Soft brown clay"', '"DATA","BH2","Sand"']
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import * as assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkValue, formatValue } from "../type-formats";
+
+describe("checkValue", () => {
+  it("accepts empty values of any type", () => {
+    assert.equal(checkValue("2DP", "", ""), undefined);
+    assert.equal(checkValue("DT", "yyyy-mm-dd", ""), undefined);
+  });
+
+  it("checks decimal places (nDP)", () => {
+    assert.equal(checkValue("2DP", "m", "1.50"), undefined);
+    assert.match(checkValue("2DP", "m", "1.5") ?? "", /2 decimal places/);
+    assert.match(checkValue("2DP", "m", "abc") ?? "", /not a number/);
+  });
+
+  it("checks significant figures (nSF)", () => {
+    assert.equal(checkValue("3SF", "", "1.50"), undefined);
+    assert.match(checkValue("3SF", "", "1.5") ?? "", /3 significant figures/);
+  });
+
+  it("accepts the same number forms for nSF as for nDP", () => {
+    assert.equal(checkValue("1SF", "", ".5"), undefined);
+    assert.equal(checkValue("2SF", "", "-.50"), undefined);
+    assert.equal(checkValue("1SF", "", "+5."), undefined);
+    assert.match(checkValue("2SF", "", ".5") ?? "", /2 significant figures/);
+  });
+
+  it("checks scientific notation (nSCI)", () => {
+    assert.equal(checkValue("2SCI", "", "1.23E+04"), undefined);
+    assert.match(checkValue("2SCI", "", "12300") ?? "", /scientific notation/);
+  });
+
+  it("checks dates against the UNIT format", () => {
+    assert.equal(checkValue("DT", "yyyy-mm-dd", "2024-02-29"), undefined);
+    assert.equal(checkValue("DT", "dd/mm/yyyy", "31/12/2023"), undefined);
+    assert.equal(checkValue("DT", "yyyy-mm-ddThh:mm", "2023-06-01T09:30Z"), undefined);
+    assert.match(checkValue("DT", "yyyy-mm-dd", "01/02/2024") ?? "", /does not match/);
+    assert.match(checkValue("DT", "yyyy-mm-dd", "2024-13-01") ?? "", /not a valid date/);
+  });
+
+  it("rejects days that do not exist in their month", () => {
+    assert.match(checkValue("DT", "yyyy-mm-dd", "2024-02-30") ?? "", /not a valid date/);
+    assert.match(checkValue("DT", "yyyy-mm-dd", "2023-04-31") ?? "", /not a valid date/);
+    assert.match(checkValue("DT", "yyyy-mm-dd", "2023-02-29") ?? "", /not a valid date/);
+    // Without a year, 29 February may be valid
+    assert.equal(checkValue("DT", "dd/mm", "29/02"), undefined);
+  });
+
+  it("allows elapsed times past 24 hours", () => {
+    assert.equal(checkValue("T", "hh:mm:ss", "25:30:00"), undefined);
+    assert.match(checkValue("T", "hh:mm:ss", "25:61:00") ?? "", /not a valid elapsed time/);
+  });
+
+  it("checks YN, DMS and text values", () => {
+    assert.equal(checkValue("YN", "", "Y"), undefined);
+    assert.match(checkValue("YN", "", "y") ?? "", /Y or N/);
+    assert.equal(checkValue("DMS", "", "51:28:38.5"), undefined);
+    assert.match(checkValue("X", "", " BH1") ?? "", /leading or trailing spaces/);
+  });
+});
+
+describe("formatValue", () => {
+  it("rounds to the declared precision", () => {
+    assert.equal(formatValue("2DP", "1.5"), "1.50");
+    assert.equal(formatValue("3SF", "0.012345"), "0.0123");
+    assert.equal(formatValue("X", "1.5"), undefined);
+  });
+});
@@ -0,0 +1,88 @@
+import { toFieldValue } from "./ags-tokenizer";
+
+/**
+ * Parse tab-separated text as copied from a spreadsheet. Fields wrapped in double
+ * quotes may contain tabs, line breaks and doubled quotes, as Excel writes them.
+ */
+export function parseTsv(text: string): string[][] {
+  return parseDelimited(text, "\t");
+}
+
+/**
+ * Parse tab-separated text pasted into AGS fields. A spreadsheet cell may hold line
+ * breaks, which an AGS field cannot, so they become spaces.
+ */
+export function parsePastedCells(text: string): string[][] {
+  return parseTsv(text).map((row) => row.map(toFieldValue));
+}
+
+/**
+ * Parse comma-separated text, ignoring the byte order mark Excel writes at the start
+ */
+export function parseCsv(text: string): string[][] {
+  return parseDelimited(text.replace(/^\uFEFF/, ""), ",");
+}
+
+function parseDelimited(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let i = 0;
+
+  // Spreadsheets end the copied block with a line break
+  const end = text.endsWith("\r\n") ? text.length - 2 : /[\r\n]$/.test(text) ? text.length - 1 : text.length;
+  if (end === 0) return rows;
+
+  while (i < end) {
+    const char = text[i];
+
+    if (char === '"' && field === "") {
+      // Quoted field: read to the closing quote
+      i++;
+      while (i < end) {
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        field += text[i++];
+      }
+      continue;
+    }
+
+    if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+      if (char === "\r" && text[i + 1] === "\n") i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Format rows as tab-separated text, quoting fields a spreadsheet would otherwise split
+ */
+export function formatTsv(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => (/[\t\r\n]/.test(value) || value.startsWith('"') ? `"${value.replace(/"/g, '""')}"` : value))
+        .join("\t")
+    )
+    .join("\r\n");
+}
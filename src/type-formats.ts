@@ -0,0 +1,206 @@
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+const PRECISION_PATTERN = /^(\d+)(DP|SF|SCI)$/;
+
+/**
+ * Parse a precision type such as 2DP, 3SF or 1SCI
+ */
+function parsePrecision(type: string): { digits: number; kind: "DP" | "SF" | "SCI" } | undefined {
+  const match = type.match(PRECISION_PATTERN);
+  if (!match) return undefined;
+  return { digits: parseInt(match[1], 10), kind: match[2] as "DP" | "SF" | "SCI" };
+}
+
+/**
+ * Whether a type declares a numeric precision that values can be reformatted to
+ */
+export function isPrecisionType(type: string): boolean {
+  return parsePrecision(type) !== undefined;
+}
+
+/**
+ * Format a number to n significant figures without switching to exponent notation
+ */
+function toSignificantFigures(value: number, digits: number): string {
+  if (value === 0) {
+    return digits > 1 ? (0).toFixed(digits - 1) : "0";
+  }
+
+  const magnitude = Math.floor(Math.log10(Math.abs(value)));
+  const decimals = digits - 1 - magnitude;
+
+  if (decimals >= 0) {
+    // Rounding can carry into a new digit (9.96 -> 10.0), which needs one decimal fewer
+    const fixed = value.toFixed(decimals);
+    const roundedMagnitude = Math.floor(Math.log10(Math.abs(parseFloat(fixed))));
+    return roundedMagnitude > magnitude ? value.toFixed(Math.max(decimals - 1, 0)) : fixed;
+  }
+
+  const factor = Math.pow(10, -decimals);
+  return (Math.round(value / factor) * factor).toFixed(0);
+}
+
+/**
+ * Reformat a numeric value to a precision type (nDP, nSF, nSCI).
+ * Returns undefined when the type has no precision or the value is not a number.
+ */
+export function formatValue(type: string, value: string): string | undefined {
+  const precision = parsePrecision(type);
+  const trimmed = value.trim();
+  if (!precision || !trimmed) return undefined;
+
+  const number = Number(trimmed);
+  if (!isFinite(number) || !/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(trimmed)) {
+    return undefined;
+  }
+
+  switch (precision.kind) {
+    case "DP":
+      return number.toFixed(precision.digits);
+    case "SF":
+      return toSignificantFigures(number, precision.digits);
+    case "SCI":
+      return number.toExponential(precision.digits).toUpperCase();
+  }
+}
+
+/**
+ * Build a pattern for a date/time UNIT such as yyyy-mm-dd or yyyy-mm-ddThh:mm
+ */
+function buildDatePattern(format: string, elapsed: boolean): { pattern: RegExp; parts: string[] } {
+  const parts: string[] = [];
+  let source = "";
+  let seenHours = false;
+  let i = 0;
+
+  while (i < format.length) {
+    const rest = format.substring(i);
+    const token = ["yyyy", "mm", "dd", "hh", "ss"].find((t) => rest.startsWith(t));
+
+    if (token) {
+      if (token === "hh") {
+        seenHours = true;
+        // Elapsed time can run past 99 hours
+        source += elapsed ? "(\\d{2,})" : "(\\d{2})";
+      } else {
+        source += token === "yyyy" ? "(\\d{4})" : "(\\d{2})";
+      }
+      // "mm" is minutes once hours have appeared, otherwise the month
+      parts.push(token === "mm" && seenHours ? "min" : token);
+      i += token.length;
+    } else {
+      source += rest[0].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      i++;
+    }
+  }
+
+  return { pattern: new RegExp(`^${source}$`), parts };
+}
+
+const PART_LIMITS: Record<string, [number, number]> = {
+  mm: [1, 12],
+  dd: [1, 31],
+  hh: [0, 23],
+  min: [0, 59],
+  ss: [0, 59],
+};
+
+function checkDateTime(value: string, unit: string, elapsed: boolean): string | undefined {
+  const format = unit || (elapsed ? "hh:mm:ss" : "yyyy-mm-dd");
+
+  // Allow an optional time zone suffix such as Z or +01:00 on dates with a time
+  let local = value;
+  if (!elapsed && format.includes("hh")) {
+    local = value.replace(/(Z|[+-]\d{2}:\d{2})$/, "");
+  }
+
+  const { pattern, parts } = buildDatePattern(format, elapsed);
+  const match = local.match(pattern);
+  if (!match) {
+    return `"${value}" does not match the ${elapsed ? "elapsed time" : "date"} format ${format}`;
+  }
+
+  for (let i = 0; i < parts.length; i++) {
+    const limits = PART_LIMITS[parts[i]];
+    if (!limits || (elapsed && parts[i] === "hh")) continue;
+    const number = parseInt(match[i + 1], 10);
+    if (number < limits[0] || number > limits[1]) {
+      return `"${value}" is not a valid ${elapsed ? "elapsed time" : "date"} in the format ${format}`;
+    }
+  }
+
+  // The day must exist in its month, e.g. not 2024-02-30; without a year, 29 February is allowed
+  const part = (name: string) => (parts.includes(name) ? parseInt(match[parts.indexOf(name) + 1], 10) : undefined);
+  const day = part("dd");
+  const month = part("mm");
+  if (day !== undefined && month !== undefined) {
+    const date = new Date(Date.UTC(part("yyyy") ?? 2000, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return `"${value}" is not a valid date in the format ${format}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a DATA value against its TYPE (and UNIT for dates and times).
+ * Returns a problem description, or undefined if the value is valid. Empty values are always valid.
+ */
+export function checkValue(type: string, unit: string, value: string): string | undefined {
+  if (!value) return undefined;
+
+  const precision = parsePrecision(type);
+  if (precision) {
+    if (precision.kind === "SCI") {
+      const mantissa = precision.digits > 0 ? `\\d\\.\\d{${precision.digits}}` : "\\d";
+      if (!new RegExp(`^[+-]?${mantissa}E[+-]?\\d+$`, "i").test(value)) {
+        return `"${value}" is not in scientific notation with ${precision.digits} decimal places (${type})`;
+      }
+      return undefined;
+    }
+
+    if (!NUMBER_PATTERN.test(value)) {
+      return `"${value}" is not a number (${type})`;
+    }
+
+    if (precision.kind === "DP") {
+      const decimals = value.includes(".") ? value.split(".")[1].length : 0;
+      if (decimals !== precision.digits) {
+        return `"${value}" should have ${precision.digits} decimal place${precision.digits === 1 ? "" : "s"} (${type})`;
+      }
+      return undefined;
+    }
+
+    // Significant figures: the value must already be in its reformatted form, which
+    // writes ".5" as "0.5" and "5." as "5"
+    const formatted = formatValue(type, value);
+    const written = value.replace(/^\+/, "").replace(/^(-?)\./, "$10.").replace(/\.$/, "");
+    if (formatted !== undefined && formatted !== written) {
+      return `"${value}" should have ${precision.digits} significant figure${precision.digits === 1 ? "" : "s"} (${type})`;
+    }
+    return undefined;
+  }
+
+  switch (type) {
+    case "DT":
+      return checkDateTime(value, unit, false);
+    case "T":
+      return checkDateTime(value, unit, true);
+    case "YN":
+      return /^[YN]$/.test(value) ? undefined : `"${value}" must be Y or N (YN)`;
+    case "DMS":
+      return /^-?\d{1,3}:\d{2}:\d{2}(\.\d+)?$/.test(value)
+        ? undefined
+        : `"${value}" must be degrees:minutes:seconds, e.g. 51:28:38.5 (DMS)`;
+    case "U":
+      return NUMBER_PATTERN.test(value) ? undefined : `"${value}" is not a number (U)`;
+    case "ID":
+    case "X":
+    case "XN":
+      // Free text, but stray leading or trailing spaces are almost always a mistake
+      return value.trim() === value ? undefined : `"${value}" has leading or trailing spaces (${type})`;
+  }
+
+  return undefined;
+}
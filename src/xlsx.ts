@@ -0,0 +1,295 @@
+import * as zlib from "zlib";
+
+/**
+ * A worksheet cell. Numbers are written as numeric cells so spreadsheets can
+ * calculate with them; the format (e.g. "0.00") keeps their declared precision.
+ */
+export interface XlsxCell {
+  value: string | number;
+  format?: string;
+  bold?: boolean;
+}
+
+export interface XlsxSheet {
+  /** Sheet tab name, at most 31 characters */
+  name: string;
+  rows: Array<Array<XlsxCell | string>>;
+  /** Rows at the top kept in view while scrolling */
+  frozenRows?: number;
+}
+
+// Excel's built-in format for whole numbers; custom formats are numbered from 164
+const BUILT_IN_FORMATS: Record<string, number> = { General: 0, "0": 1 };
+const FIRST_CUSTOM_FORMAT = 164;
+
+const MAX_COLUMN_WIDTH = 60;
+
+/**
+ * Build an Excel workbook (.xlsx) with one worksheet per sheet
+ */
+export function createWorkbook(sheets: XlsxSheet[]): Uint8Array {
+  const styles = new StyleTable();
+  const worksheets = sheets.map((sheet) => writeWorksheet(sheet, styles));
+
+  const files: Array<{ name: string; content: string }> = [
+    {
+      name: "[Content_Types].xml",
+      content:
+        xmlHeader() +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        "</Types>",
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        xmlHeader() +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        xmlHeader() +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        "<sheets>" +
+        sheets
+          .map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+          .join("") +
+        "</sheets></workbook>",
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        xmlHeader() +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+          )
+          .join("") +
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        "</Relationships>",
+    },
+    { name: "xl/styles.xml", content: styles.toXml() },
+    ...worksheets.map((content, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content })),
+  ];
+
+  return createZip(files.map((file) => ({ name: file.name, data: Buffer.from(file.content, "utf8") })));
+}
+
+function writeWorksheet(sheet: XlsxSheet, styles: StyleTable): string {
+  const widths: number[] = [];
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.map((item, colIndex) => {
+      const cell = typeof item === "string" ? { value: item } : item;
+      const text = String(cell.value);
+      widths[colIndex] = Math.max(widths[colIndex] ?? 0, text.length);
+
+      const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+      const style = styles.get(cell);
+      const styleAttribute = style ? ` s="${style}"` : "";
+      if (typeof cell.value === "number") {
+        return `<c r="${ref}"${styleAttribute}><v>${cell.value}</v></c>`;
+      }
+      if (text === "") {
+        return style ? `<c r="${ref}"${styleAttribute}/>` : "";
+      }
+      return `<c r="${ref}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+  });
+
+  const frozen = sheet.frozenRows
+    ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="${sheet.frozenRows}" topLeftCell="A${sheet.frozenRows + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+    : "";
+  const columns =
+    widths.length > 0
+      ? "<cols>" +
+        widths
+          .map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${Math.min(width + 2, MAX_COLUMN_WIDTH)}" customWidth="1"/>`)
+          .join("") +
+        "</cols>"
+      : "";
+
+  return (
+    xmlHeader() +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    frozen +
+    columns +
+    `<sheetData>${rows.join("")}</sheetData>` +
+    "</worksheet>"
+  );
+}
+
+/**
+ * Cell styles used in the workbook, one per combination of number format and bold text
+ */
+class StyleTable {
+  private formats = new Map<string, number>();
+  private styles = new Map<string, number>([["0|false", 0]]);
+
+  /** Style index for a cell, or 0 for the default style */
+  public get(cell: XlsxCell): number {
+    const format = this.getFormatId(cell.format ?? "General");
+    const key = `${format}|${!!cell.bold}`;
+    let index = this.styles.get(key);
+    if (index === undefined) {
+      index = this.styles.size;
+      this.styles.set(key, index);
+    }
+    return index;
+  }
+
+  private getFormatId(format: string): number {
+    if (format in BUILT_IN_FORMATS) return BUILT_IN_FORMATS[format];
+    let id = this.formats.get(format);
+    if (id === undefined) {
+      id = FIRST_CUSTOM_FORMAT + this.formats.size;
+      this.formats.set(format, id);
+    }
+    return id;
+  }
+
+  public toXml(): string {
+    const numFmts = Array.from(this.formats, ([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`);
+    const xfs = Array.from(this.styles.keys(), (key) => {
+      const [format, bold] = key.split("|");
+      const fontId = bold === "true" ? 1 : 0;
+      return `<xf numFmtId="${format}" fontId="${fontId}" fillId="0" borderId="0" xfId="0"${format !== "0" ? ' applyNumberFormat="1"' : ""}${fontId ? ' applyFont="1"' : ""}/>`;
+    });
+
+    return (
+      xmlHeader() +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      (numFmts.length > 0 ? `<numFmts count="${numFmts.length}">${numFmts.join("")}</numFmts>` : "") +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${xfs.length}">${xfs.join("")}</cellXfs>` +
+      "</styleSheet>"
+    );
+  }
+}
+
+function xmlHeader(): string {
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Column letters for a 0-based index: A, B, ..., Z, AA, AB, ...
+ */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Excel rejects sheet names over 31 characters or containing : \ / ? * [ ]
+ */
+function sheetName(name: string): string {
+  return name.replace(/[:\\/?*[\]]/g, "_").slice(0, 31) || "Sheet";
+}
+
+// ---- Zip archive ----
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write a zip archive with each file deflated
+ */
+function createZip(files: Array<{ name: string; data: Buffer }>): Uint8Array {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  // MS-DOS date and time of the entries
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const compressed = zlib.deflateRawSync(file.data);
+    const crc = crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    parts.push(local, name, compressed);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt16LE(time, 12);
+    entry.writeUInt16LE(date, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(file.data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    directory.push(entry, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, ...directory, end]);
+}